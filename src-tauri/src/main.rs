@@ -1,8 +1,74 @@
 // Prevents additional console window on Windows in release, DO NOT REMOVE!!
 #![cfg_attr(not(debug_assertions), windows_subsystem = "windows")]
 
+mod processes;
+
+use std::fs;
+use std::path::PathBuf;
+use tauri::{AppHandle, Manager};
+
+// Folder of pre-fetched npm tarballs (`npm pack` output) that imports can be
+// installed from offline
+fn packages_dir(app: &AppHandle) -> Result<PathBuf, String> {
+    let dir = app
+        .path()
+        .app_data_dir()
+        .map_err(|e| e.to_string())?
+        .join("packages");
+    fs::create_dir_all(&dir).map_err(|e| e.to_string())?;
+    Ok(dir)
+}
+
+#[tauri::command]
+fn list_local_packages(app: AppHandle) -> Result<Vec<String>, String> {
+    let entries = fs::read_dir(packages_dir(&app)?).map_err(|e| e.to_string())?;
+    Ok(entries
+        .filter_map(|entry| entry.ok())
+        .map(|entry| entry.file_name().to_string_lossy().into_owned())
+        .filter(|name| name.ends_with(".tgz"))
+        .collect())
+}
+
+#[tauri::command]
+fn read_local_package(app: AppHandle, file_name: String) -> Result<tauri::ipc::Response, String> {
+    if file_name.contains(['/', '\\']) || file_name.starts_with('.') {
+        return Err(format!("Invalid package file name: {file_name}"));
+    }
+    let bytes = fs::read(packages_dir(&app)?.join(file_name)).map_err(|e| e.to_string())?;
+    Ok(tauri::ipc::Response::new(bytes))
+}
+
 fn main() {
     tauri::Builder::default()
+        // Must come first. Links opened while the app runs start a second
+        // copy on Windows and Linux, which hands them to this one and exits.
+        .plugin(tauri_plugin_single_instance::init(|app, _args, _cwd| {
+            if let Some(window) = app.get_webview_window("main") {
+                let _ = window.set_focus();
+            }
+        }))
+        .plugin(tauri_plugin_deep_link::init())
+        .plugin(tauri_plugin_dialog::init())
+        .plugin(tauri_plugin_fs::init())
+        // Remembers files picked in dialogs, so tabs can reopen and watch
+        // them after a restart
+        .plugin(tauri_plugin_persisted_scope::init())
+        .setup(|_app| {
+            // Installers register `jspad://` links; this covers dev builds
+            #[cfg(any(windows, target_os = "linux"))]
+            {
+                use tauri_plugin_deep_link::DeepLinkExt;
+                _app.deep_link().register_all()?;
+            }
+            Ok(())
+        })
+        .manage(processes::Processes::default())
+        .invoke_handler(tauri::generate_handler![
+            list_local_packages,
+            read_local_package,
+            processes::run_process,
+            processes::kill_process
+        ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
 }
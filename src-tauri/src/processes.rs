@@ -0,0 +1,236 @@
+// Runs tab code in a local Node or Bun process, streaming its output to the
+// frontend as `process-output` events and finishing with `process-exit`
+use std::collections::HashMap;
+use std::env;
+use std::fs;
+use std::io::{BufRead, BufReader, Read};
+use std::path::PathBuf;
+use std::process::{Child, Command, Stdio};
+use std::sync::{mpsc, Arc, Mutex};
+use std::thread;
+use std::time::{Duration, Instant};
+
+use serde::Serialize;
+use tauri::{AppHandle, Emitter, Manager, State, Url};
+
+/// Running processes by run id, so they can be killed
+#[derive(Default)]
+pub struct Processes(Mutex<HashMap<String, Arc<Mutex<Child>>>>);
+
+// The line the preamble writes before a limit ends the process; it's sent
+// even past the output limit
+const KILLED_MARKER: &[u8] = b"\x1f";
+
+// How long output still being read is waited for once the process has
+// exited. Processes it started can keep the pipes open indefinitely.
+const READER_GRACE: Duration = Duration::from_millis(500);
+
+#[derive(Clone, Serialize)]
+#[serde(rename_all = "camelCase")]
+struct OutputEvent {
+    run_id: String,
+    stream: &'static str,
+    text: String,
+}
+
+#[derive(Clone, Serialize)]
+#[serde(rename_all = "camelCase")]
+struct ExitEvent {
+    run_id: String,
+    code: Option<i32>,
+    timed_out: bool,
+}
+
+// Apps started from the Finder or a desktop launcher don't get the shell's
+// PATH, so also look where Node and Bun are usually installed
+fn find_executable(name: &str) -> Option<PathBuf> {
+    let mut dirs: Vec<PathBuf> = env::var_os("PATH")
+        .map(|path| env::split_paths(&path).collect())
+        .unwrap_or_default();
+    dirs.push(PathBuf::from("/opt/homebrew/bin"));
+    dirs.push(PathBuf::from("/usr/local/bin"));
+    if let Some(home) = env::var_os("HOME") {
+        let home = PathBuf::from(home);
+        dirs.push(home.join(".bun/bin"));
+        dirs.push(home.join(".volta/bin"));
+    }
+
+    let file_name = if cfg!(windows) {
+        format!("{name}.exe")
+    } else {
+        name.to_string()
+    };
+    dirs.into_iter()
+        .map(|dir| dir.join(&file_name))
+        .find(|path| path.is_file())
+}
+
+// The code runs in its own process group, so this also ends any processes
+// it started
+fn kill_tree(child: &mut Child) {
+    #[cfg(unix)]
+    unsafe {
+        libc::kill(-(child.id() as i32), libc::SIGKILL);
+    }
+    #[cfg(windows)]
+    {
+        use std::os::windows::process::CommandExt;
+        const CREATE_NO_WINDOW: u32 = 0x0800_0000;
+        let _ = Command::new("taskkill")
+            .args(["/T", "/F", "/PID", &child.id().to_string()])
+            .creation_flags(CREATE_NO_WINDOW)
+            .status();
+    }
+    let _ = child.kill();
+}
+
+// Sends on `done` once the stream closes
+fn stream_lines<R: Read + Send + 'static>(
+    app: AppHandle,
+    run_id: String,
+    stream: &'static str,
+    reader: R,
+    max_lines: usize,
+    done: mpsc::Sender<()>,
+) {
+    thread::spawn(move || {
+        let mut reader = BufReader::new(reader);
+        let mut line = Vec::new();
+        let mut count = 0;
+        // Lines past the limit are read but not sent, so a runaway loop can't
+        // flood the UI
+        while reader.read_until(b'\n', &mut line).map_or(false, |read| read > 0) {
+            let is_marker = line.strip_suffix(b"\n") == Some(KILLED_MARKER);
+            if count < max_lines || is_marker {
+                let text = String::from_utf8_lossy(&line)
+                    .trim_end_matches(['\r', '\n'])
+                    .to_string();
+                let _ = app.emit(
+                    "process-output",
+                    OutputEvent { run_id: run_id.clone(), stream, text },
+                );
+                count += 1;
+            }
+            line.clear();
+        }
+        let _ = done.send(());
+    });
+}
+
+#[tauri::command]
+pub fn run_process(
+    app: AppHandle,
+    processes: State<'_, Processes>,
+    run_id: String,
+    runtime: String,
+    code: String,
+    preamble: String,
+    cwd: Option<String>,
+    timeout_ms: u64,
+    memory_limit: Option<u32>,
+    max_lines: usize,
+) -> Result<(), String> {
+    // The id names a folder, so keep it to safe characters
+    if run_id.is_empty()
+        || !run_id.chars().all(|c| c.is_ascii_alphanumeric() || c == '-' || c == '_')
+    {
+        return Err("Invalid run id".into());
+    }
+    if runtime != "node" && runtime != "bun" {
+        return Err(format!("Unknown runtime `{runtime}`"));
+    }
+    let executable = find_executable(&runtime)
+        .ok_or_else(|| format!("Couldn't find `{runtime}`. Install it or add it to your PATH."))?;
+
+    let dir = env::temp_dir().join("jspad").join(&run_id);
+    fs::create_dir_all(&dir).map_err(|e| e.to_string())?;
+    let script = dir.join("main.mjs");
+    let preamble_path = dir.join("preamble.mjs");
+    fs::write(&script, code).map_err(|e| e.to_string())?;
+    fs::write(&preamble_path, preamble).map_err(|e| e.to_string())?;
+
+    // Relative paths and `require` resolve from the tab's folder for files,
+    // and the home folder otherwise
+    let cwd = cwd
+        .map(PathBuf::from)
+        .filter(|path| path.is_dir())
+        .or_else(|| env::var_os("HOME").map(PathBuf::from))
+        .unwrap_or_else(|| dir.clone());
+
+    let mut command = Command::new(executable);
+    if runtime == "node" {
+        let preamble_url = Url::from_file_path(&preamble_path)
+            .map_err(|_| "Invalid temp folder path".to_string())?;
+        if let Some(limit) = memory_limit {
+            command.arg(format!("--max-old-space-size={limit}"));
+        }
+        command
+            .arg("--enable-source-maps")
+            .arg("--import")
+            .arg(preamble_url.as_str());
+    } else {
+        command.arg("--preload").arg(&preamble_path);
+    }
+    #[cfg(unix)]
+    {
+        use std::os::unix::process::CommandExt;
+        command.process_group(0);
+    }
+    let mut child = command
+        .arg(&script)
+        .current_dir(&cwd)
+        .env("NODE_PATH", cwd.join("node_modules"))
+        .stdin(Stdio::null())
+        .stdout(Stdio::piped())
+        .stderr(Stdio::piped())
+        .spawn()
+        .map_err(|e| format!("Couldn't start {runtime}: {e}"))?;
+
+    let (done, streams_closed) = mpsc::channel();
+    stream_lines(app.clone(), run_id.clone(), "stdout", child.stdout.take().unwrap(), max_lines, done.clone());
+    stream_lines(app.clone(), run_id.clone(), "stderr", child.stderr.take().unwrap(), max_lines, done);
+    let child = Arc::new(Mutex::new(child));
+    processes.0.lock().unwrap().insert(run_id.clone(), child.clone());
+
+    let deadline = Instant::now() + Duration::from_millis(timeout_ms);
+    thread::spawn(move || {
+        let mut timed_out = false;
+        let code = loop {
+            let mut child = child.lock().unwrap();
+            match child.try_wait() {
+                Ok(Some(status)) => break status.code(),
+                Ok(None) if Instant::now() >= deadline => {
+                    kill_tree(&mut child);
+                    timed_out = true;
+                    break child.wait().ok().and_then(|status| status.code());
+                }
+                Ok(None) => {}
+                Err(_) => break None,
+            }
+            drop(child);
+            thread::sleep(Duration::from_millis(20));
+        };
+
+        // Output is sent before the exit, unless the streams stay open
+        let grace = Instant::now() + READER_GRACE;
+        for _ in 0..2 {
+            let wait = grace.saturating_duration_since(Instant::now());
+            if streams_closed.recv_timeout(wait).is_err() {
+                break;
+            }
+        }
+        app.state::<Processes>().0.lock().unwrap().remove(&run_id);
+        let _ = fs::remove_dir_all(&dir);
+        let _ = app.emit("process-exit", ExitEvent { run_id, code, timed_out });
+    });
+
+    Ok(())
+}
+
+#[tauri::command]
+pub fn kill_process(processes: State<'_, Processes>, run_id: String) -> Result<(), String> {
+    if let Some(child) = processes.0.lock().unwrap().get(&run_id) {
+        kill_tree(&mut child.lock().unwrap());
+    }
+    Ok(())
+}
@@ -1,31 +1,117 @@
-import React, { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
+import { nanoid } from 'nanoid';
 import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
 import { TabBar } from './components/TabBar';
-import { EditorPanel } from './components/EditorPanel';
+import { EditorPanel, type FormatRequest } from './components/EditorPanel';
 import { ConsolePanel } from './components/ConsolePanel';
+import { PackageBar } from './components/PackageBar';
+import { SnippetPanel } from './components/SnippetPanel';
+import { HistoryPanel } from './components/HistoryPanel';
 import { SettingsModal } from './components/SettingsModal';
+import { CommandPalette } from './components/CommandPalette';
+import { StorageBanner } from './components/StorageBanner';
+import { WorkspaceSwitcher } from './components/WorkspaceSwitcher';
 import { useTabs } from './hooks/useTabs';
 import { useSettings } from './hooks/useSettings';
-import { useCodeExecution } from './hooks/useCodeExecution';
-import type { ConsoleMessage } from './types';
+import { useCodeExecution, type CompletedRun } from './hooks/useCodeExecution';
+import { useTypeScriptWorker, type TypeScriptWorkerApi } from './hooks/useTypeScriptWorker';
+import { useWorkspaces, type WorkspacesState } from './hooks/useWorkspaces';
+import { useFiles } from './hooks/useFiles';
+import { useSnippets } from './hooks/useSnippets';
+import { useSharing } from './hooks/useSharing';
+import { useTheme } from './hooks/useTheme';
+import { useCommands } from './hooks/useCommands';
+import { usePersistentState } from './hooks/usePersistentState';
+import { buildCommands } from './utils/commands';
+import { applyKeybindings } from './utils/keybindings';
+import { confirm, exportJsonFile, getDirectory } from './utils/files';
+import { getTabFileName, getTabLanguage } from './utils/language';
+import { canUseProcessRuntimes, getTabRuntime } from './utils/processRuntime';
+import { DEFAULT_CONSOLE_FILTERS } from './utils/consoleFilter';
+import type { ConsoleFilters, ConsoleMessage, PackageInfo, RunRecord, Snippet, Tab } from './types';
 
-function App() {
+interface WorkspaceViewProps {
+  workspaces: WorkspacesState;
+  tsWorker: TypeScriptWorkerApi | null;
+}
+
+function WorkspaceView({ workspaces, tsWorker }: WorkspaceViewProps) {
+  const { activeWorkspace } = workspaces;
+  const {
+    settings,
+    globalSettings,
+    overrides,
+    updateSettings,
+    updateGlobalSettings,
+    setWorkspaceSettings,
+  } = useSettings(activeWorkspace.id);
+  const { theme, chooseTheme } = useTheme(settings);
   const {
     tabs,
     activeTab,
     activeTabId,
     createTab,
-    closeTab,
+    closeTabs,
+    reopenClosedTab,
+    canReopenTab,
+    duplicateTab,
+    pinTab,
     updateTabName,
     updateTabCode,
+    trustTab,
+    updateTabLanguage,
+    updateTabRuntime,
     updateTabConsole,
+    updateTabPackages,
+    addTabRun,
+    clearTabHistory,
+    openFileTabs,
+    markTabSaved,
+    reloadTab,
+    replaceTabs,
     switchToTab,
     reorderTabs,
+    moveTab,
     canCreateTab,
-  } = useTabs();
-
-  const { settings, updateSettings } = useSettings();
+  } = useTabs(activeWorkspace.id, settings.maxTabs);
+  const [consoleFilters, setConsoleFilters] = usePersistentState<ConsoleFilters>(
+    'consoleFilters',
+    DEFAULT_CONSOLE_FILTERS
+  );
+  const { canUseFiles, openFiles, saveTab, saveTabAs } = useFiles({
+    tabs,
+    openFileTabs,
+    markTabSaved,
+    reloadTab,
+  });
+  const { copyShareLink, exportWorkspace, importWorkspace } = useSharing({
+    tabs,
+    activeTabId,
+    settings,
+    canCreateTab,
+    createTab,
+    replaceTabs,
+    updateSettings,
+    setWorkspaceSettings,
+  });
+  const {
+    snippets,
+    addSnippet,
+    updateSnippet,
+    deleteSnippet,
+    importSnippets,
+    exportSnippets,
+  } = useSnippets();
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  // The sidebar next to the console, if any
+  const [sidePanel, setSidePanel] = useState<'snippets' | 'history' | null>(null);
+  const [revealLine, setRevealLine] = useState<{ tabId: string; line: number } | null>(null);
+  const [insertText, setInsertText] = useState<{ tabId: string; text: string } | null>(null);
+  const [selection, setSelection] = useState('');
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [renameRequest, setRenameRequest] = useState<{ tabId: string } | null>(null);
+  const [workspaceRenameRequest, setWorkspaceRenameRequest] = useState<object | null>(null);
+  const [formatRequest, setFormatRequest] = useState<(FormatRequest & { tabId: string }) | null>(null);
 
   const handleConsoleOutput = useCallback(
     (output: ConsoleMessage[]) => {
@@ -34,126 +120,367 @@ function App() {
     [activeTabId, updateTabConsole]
   );
 
-  const { executeCode } = useCodeExecution({
+  // Read through a ref so a change of packages doesn't trigger another run
+  const activePackagesRef = useRef(activeTab?.packages);
+  activePackagesRef.current = activeTab?.packages;
+
+  const handlePackages = useCallback(
+    (packages: PackageInfo[]) => {
+      // Most runs import the same packages as the last one
+      if (JSON.stringify(packages) !== JSON.stringify(activePackagesRef.current ?? [])) {
+        updateTabPackages(activeTabId, packages);
+      }
+    },
+    [activeTabId, updateTabPackages]
+  );
+
+  const handleRunComplete = useCallback(
+    (run: CompletedRun) => {
+      addTabRun(activeTabId, { id: nanoid(), ...run });
+    },
+    [activeTabId, addTabRun]
+  );
+
+  const {
+    executeCode,
+    runCode,
+    stopExecution,
+    evaluate,
+    getCompletions,
+    isRunning,
+    isInstalling,
+  } = useCodeExecution({
     code: activeTab?.code || '',
-    autoExecute: settings.autoExecute,
+    language: activeTab ? getTabLanguage(activeTab) : 'js',
+    runtime: activeTab ? getTabRuntime(activeTab) : 'browser',
+    cwd: activeTab?.filePath && getDirectory(activeTab.filePath),
+    tsWorker,
+    // Tabs from links and imports wait for the user to run them
+    autoExecute: settings.autoExecute && !activeTab?.isUntrusted,
     autoExecuteDelay: settings.autoExecuteDelay,
     timeout: settings.executionTimeout,
+    maxLogs: settings.maxLogs,
+    sandbox: settings.sandbox,
+    preserveLog: consoleFilters.preserveLog,
+    consoleOutput: activeTab?.consoleOutput ?? [],
     onOutput: handleConsoleOutput,
+    onPackages: handlePackages,
+    onRunComplete: handleRunComplete,
   });
 
+  const toggleSidePanel = (panel: 'snippets' | 'history') =>
+    setSidePanel(current => (current === panel ? null : panel));
+
   const handleCodeChange = useCallback(
     (code: string) => {
-      console.log('[DEBUG App] Code changed:', code.substring(0, 30));
       updateTabCode(activeTabId, code);
     },
     [activeTabId, updateTabCode]
   );
 
-  const handleTabClose = useCallback(
-    (tabId: string) => {
-      closeTab(tabId);
+  // Formats the active tab in its editor, then hands on the code
+  const formatActiveTab = (onFormatted?: (code: string) => void) =>
+    setFormatRequest({ tabId: activeTabId, options: settings.formatOptions, onFormatted });
+
+  const handleRun = () => {
+    if (activeTab?.isUntrusted) trustTab(activeTabId);
+    if (settings.formatOnRun && activeTab) {
+      const language = getTabLanguage(activeTab);
+      formatActiveTab(code => runCode(code, language));
+    } else {
+      executeCode();
+    }
+  };
+
+  const handleSave = (tab: Tab) => {
+    if (settings.formatOnSave && tab.id === activeTabId) {
+      formatActiveTab(code => saveTab({ ...tab, code }));
+    } else {
+      saveTab(tab);
+    }
+  };
+
+  const handleTabsClose = useCallback(
+    async (tabIds: string[]) => {
+      const dirtyTabs = tabs.filter(t => tabIds.includes(t.id) && t.isDirty);
+      if (dirtyTabs.length > 0) {
+        const message = dirtyTabs.length === 1
+          ? `"${dirtyTabs[0].name}" has unsaved changes. Close it anyway?`
+          : `${dirtyTabs.length} tabs have unsaved changes. Close them anyway?`;
+        if (!(await confirm(message))) return;
+      }
+      closeTabs(tabIds);
+    },
+    [tabs, closeTabs]
+  );
+
+  const handleTabClose = (tabId: string) => handleTabsClose([tabId]);
+
+  // Bulk closing leaves pinned tabs open
+  const handleCloseOtherTabs = (tabId: string) =>
+    handleTabsClose(tabs.filter(t => t.id !== tabId && !t.isPinned).map(t => t.id));
+
+  const handleCloseTabsToRight = (tabId: string) => {
+    const index = tabs.findIndex(t => t.id === tabId);
+    handleTabsClose(tabs.slice(index + 1).filter(t => !t.isPinned).map(t => t.id));
+  };
+
+  const handleDeleteWorkspace = async (workspaceId: string) => {
+    const workspace = workspaces.workspaces.find(w => w.id === workspaceId);
+    if (workspace && await confirm(`Delete the workspace "${workspace.name}" and all of its tabs?`)) {
+      workspaces.deleteWorkspace(workspaceId);
+    }
+  };
+
+  // Imported themes are kept with the settings and used right away
+  const handleImportTheme = async () => {
+    const theme = await chooseTheme();
+    if (theme) {
+      updateSettings({ theme: theme.id, customThemes: [...settings.customThemes, theme] });
+    }
+  };
+
+  const handleRestoreRun = useCallback(
+    (run: RunRecord) => {
+      updateTabCode(activeTabId, run.code);
+      updateTabLanguage(activeTabId, run.language);
     },
-    [closeTab]
+    [activeTabId, updateTabCode, updateTabLanguage]
   );
 
-  const handleKeyDown = useCallback(
-    (e: KeyboardEvent) => {
-      if (e.metaKey || e.ctrlKey) {
-        if (e.key === 't') {
-          e.preventDefault();
-          createTab();
-        } else if (e.key === 'w') {
-          e.preventDefault();
-          // Don't close if it's the last tab
-          if (tabs.length > 1) {
-            handleTabClose(activeTabId);
-          }
-        } else if (e.key === ',') {
-          e.preventDefault();
-          setIsSettingsOpen(true);
-        } else if (e.key === 'r') {
-          e.preventDefault();
-          executeCode();
-        } else if (e.key === 's') {
-          e.preventDefault();
-          executeCode();
-        } else if (e.key === 'Enter' && !settings.autoExecute) {
-          e.preventDefault();
-          executeCode();
-        } else if (e.key >= '1' && e.key <= '9') {
-          e.preventDefault();
-          const index = parseInt(e.key, 10) - 1;
-          if (tabs[index]) {
-            switchToTab(tabs[index].id);
-          }
-        }
-      }
+  const handleOpenSnippet = useCallback(
+    (snippet: Snippet) => {
+      createTab({ name: snippet.name, code: snippet.code, language: snippet.language });
     },
-    [
-      createTab,
-      handleTabClose,
-      activeTabId,
-      settings.autoExecute,
-      executeCode,
-      tabs,
-      switchToTab,
-    ]
+    [createTab]
   );
 
-  React.useEffect(() => {
-    document.addEventListener('keydown', handleKeyDown);
-    return () => {
-      document.removeEventListener('keydown', handleKeyDown);
-    };
-  }, [handleKeyDown]);
+  const defaultCommands = activeTab
+    ? buildCommands({
+        tabs,
+        activeTab,
+        settings,
+        snippets,
+        isRunning,
+        canCreateTab,
+        canUseFiles,
+        canUseProcessRuntimes,
+        run: handleRun,
+        stop: stopExecution,
+        createTab: () => createTab(),
+        closeTab: handleTabClose,
+        closeOtherTabs: handleCloseOtherTabs,
+        closeTabsToRight: handleCloseTabsToRight,
+        canReopenTab,
+        reopenClosedTab,
+        duplicateTab,
+        pinTab,
+        moveTab,
+        renameTab: (tabId) => setRenameRequest({ tabId }),
+        switchToTab,
+        setLanguage: (language) => updateTabLanguage(activeTabId, language),
+        setRuntime: (runtime) => updateTabRuntime(activeTabId, runtime),
+        clearConsole: () => updateTabConsole(activeTabId, []),
+        format: () => formatActiveTab(),
+        updateSettings,
+        openSettings: () => setIsSettingsOpen(true),
+        openPalette: () => setIsPaletteOpen(true),
+        toggleSnippets: () => toggleSidePanel('snippets'),
+        toggleHistory: () => toggleSidePanel('history'),
+        insertSnippet: (snippet) => setInsertText({ tabId: activeTabId, text: snippet.code }),
+        openFiles,
+        saveTab: handleSave,
+        saveTabAs,
+        shareTab: copyShareLink,
+        exportWorkspace,
+        importWorkspace,
+        workspaces: workspaces.workspaces,
+        activeWorkspace,
+        switchWorkspace: workspaces.switchWorkspace,
+        createWorkspace: workspaces.createWorkspace,
+        duplicateWorkspace: workspaces.duplicateWorkspace,
+        renameWorkspace: () => setWorkspaceRenameRequest({}),
+        deleteWorkspace: handleDeleteWorkspace,
+        importTheme: handleImportTheme,
+      })
+    : [];
+  const commands = applyKeybindings(defaultCommands, settings.keybindings);
+  const { recentIds, runFromPalette } = useCommands(commands);
 
   if (!activeTab) {
-    return <div className="w-full h-full bg-dark-bg" />;
+    return <div className="w-full h-full bg-theme-bg" />;
   }
 
   return (
-    <div className="w-full h-full bg-dark-bg flex flex-col">
+    <div className="w-full h-full bg-theme-bg flex flex-col">
       <TabBar
+        workspaceSwitcher={
+          <WorkspaceSwitcher
+            workspaces={workspaces.workspaces}
+            activeWorkspaceId={activeWorkspace.id}
+            isSwitching={workspaces.isSwitching}
+            onSwitch={workspaces.switchWorkspace}
+            onCreate={workspaces.createWorkspace}
+            onDuplicate={workspaces.duplicateWorkspace}
+            onRename={workspaces.renameWorkspace}
+            onDelete={handleDeleteWorkspace}
+            renameRequest={workspaceRenameRequest}
+          />
+        }
         tabs={tabs}
         activeTabId={activeTabId}
         canCreateTab={canCreateTab}
+        maxTabs={settings.maxTabs}
         onTabClick={switchToTab}
         onTabClose={handleTabClose}
+        onCloseOtherTabs={handleCloseOtherTabs}
+        onCloseTabsToRight={handleCloseTabsToRight}
+        canReopenTab={canReopenTab}
+        onReopenClosedTab={reopenClosedTab}
+        onTabDuplicate={duplicateTab}
+        onTabPin={pinTab}
         onTabCreate={createTab}
+        onOpenFile={canUseFiles ? openFiles : undefined}
         onTabRename={updateTabName}
+        renameRequest={renameRequest}
         onTabReorder={reorderTabs}
         onSettings={() => setIsSettingsOpen(true)}
+        isSnippetsOpen={sidePanel === 'snippets'}
+        onToggleSnippets={() => toggleSidePanel('snippets')}
+        isHistoryOpen={sidePanel === 'history'}
+        onToggleHistory={() => toggleSidePanel('history')}
+        onShare={() => copyShareLink(activeTab)}
         autoExecute={settings.autoExecute}
-        onRun={executeCode}
+        language={getTabLanguage(activeTab)}
+        onLanguageChange={(language) => updateTabLanguage(activeTabId, language)}
+        runtime={getTabRuntime(activeTab)}
+        onRuntimeChange={canUseProcessRuntimes
+          ? (runtime) => updateTabRuntime(activeTabId, runtime)
+          : undefined}
+        onRun={handleRun}
+        isRunning={isRunning}
+        onStop={stopExecution}
       />
 
-      <div className="flex-1 overflow-hidden">
-        <PanelGroup direction="horizontal">
+      <StorageBanner />
+
+      <div className="flex-1 overflow-hidden flex">
+        <PanelGroup direction="horizontal" className="flex-1">
           <Panel defaultSize={settings.splitRatio} minSize={20} maxSize={80}>
-            <EditorPanel
-              key={activeTabId}
-              code={activeTab.code}
-              onChange={handleCodeChange}
-            />
+            <div className="h-full flex flex-col">
+              <div className="flex-1 overflow-hidden">
+                <EditorPanel
+                  key={activeTabId}
+                  code={activeTab.code}
+                  language={getTabLanguage(activeTab)}
+                  runtime={getTabRuntime(activeTab)}
+                  fileName={getTabFileName(activeTab)}
+                  tsWorker={tsWorker}
+                  results={activeTab.consoleOutput}
+                  revealLine={revealLine?.tabId === activeTabId ? revealLine : null}
+                  onRevealHandled={() => setRevealLine(null)}
+                  insertText={insertText?.tabId === activeTabId ? insertText : null}
+                  onInsertHandled={() => setInsertText(null)}
+                  onSelectionChange={setSelection}
+                  formatRequest={formatRequest?.tabId === activeTabId ? formatRequest : null}
+                  onFormatHandled={() => setFormatRequest(null)}
+                  onChange={handleCodeChange}
+                  lintRules={settings.lintRules}
+                  theme={theme}
+                  options={settings.editor}
+                />
+              </div>
+              <PackageBar packages={activeTab.packages ?? []} isInstalling={isInstalling} />
+            </div>
           </Panel>
 
-          <PanelResizeHandle className="w-1 bg-dark-border hover:bg-blue-500 transition-colors" />
+          <PanelResizeHandle className="w-1 bg-theme-border hover:bg-theme-accent transition-colors" />
 
           <Panel minSize={20} maxSize={80}>
-            <ConsolePanel output={activeTab.consoleOutput} />
+            <ConsolePanel
+              output={activeTab.consoleOutput}
+              isRunning={isRunning}
+              onLineClick={(line) => setRevealLine({ tabId: activeTabId, line })}
+              language={getTabLanguage(activeTab)}
+              theme={theme}
+              // The REPL evaluates in the browser worker's session
+              onEvaluate={getTabRuntime(activeTab) === 'browser' ? evaluate : undefined}
+              getCompletions={getCompletions}
+              filters={consoleFilters}
+              onFiltersChange={setConsoleFilters}
+              exportName={`${activeTab.name} console`}
+            />
           </Panel>
         </PanelGroup>
+
+        {sidePanel === 'snippets' && (
+          <SnippetPanel
+            snippets={snippets}
+            tabName={activeTab.name}
+            tabCode={activeTab.code}
+            language={getTabLanguage(activeTab)}
+            selection={selection}
+            canOpenTab={canCreateTab}
+            onSave={addSnippet}
+            onUpdate={updateSnippet}
+            onDelete={deleteSnippet}
+            onInsert={(snippet) => setInsertText({ tabId: activeTabId, text: snippet.code })}
+            onOpenInTab={handleOpenSnippet}
+            onImport={importSnippets}
+            onExport={() => exportJsonFile('jspad-snippets.json', exportSnippets())}
+            onClose={() => setSidePanel(null)}
+          />
+        )}
+
+        {sidePanel === 'history' && (
+          <HistoryPanel
+            runs={activeTab.history ?? []}
+            currentCode={activeTab.code}
+            onRestore={handleRestoreRun}
+            onRerun={(run) => runCode(run.code, run.language)}
+            onClear={() => clearTabHistory(activeTabId)}
+            onClose={() => setSidePanel(null)}
+          />
+        )}
       </div>
 
       <SettingsModal
         isOpen={isSettingsOpen}
         settings={settings}
+        globalSettings={globalSettings}
+        overriddenCount={Object.keys(overrides).length}
+        workspaceName={activeWorkspace.name}
+        commands={defaultCommands}
         onClose={() => setIsSettingsOpen(false)}
-        onUpdateSettings={updateSettings}
+        onUpdateGlobalSettings={updateGlobalSettings}
+        onUpdateWorkspaceSettings={setWorkspaceSettings}
+        onImportTheme={chooseTheme}
+      />
+
+      <CommandPalette
+        isOpen={isPaletteOpen}
+        commands={commands}
+        recentIds={recentIds}
+        onRun={runFromPalette}
+        onClose={() => setIsPaletteOpen(false)}
       />
     </div>
   );
 }
 
+// Each workspace mounts fresh from its stored state; only the TypeScript
+// worker outlives switching
+function App() {
+  const workspaces = useWorkspaces();
+  const tsWorker = useTypeScriptWorker();
+
+  return (
+    <WorkspaceView
+      key={workspaces.activeWorkspace.id}
+      workspaces={workspaces}
+      tsWorker={tsWorker}
+    />
+  );
+}
+
 export default App;
@@ -0,0 +1,130 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { fuzzyFilter } from '../utils/fuzzy';
+import { formatShortcut } from '../utils/shortcuts';
+import type { Command } from '../types';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  commands: Command[];
+  recentIds: string[];
+  onRun: (command: Command) => void;
+  onClose: () => void;
+}
+
+export function CommandPalette({
+  isOpen,
+  commands,
+  recentIds,
+  onRun,
+  onClose,
+}: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setSelectedIndex(0);
+    }
+  }, [isOpen]);
+
+  const recent = useMemo(() => new Set(recentIds), [recentIds]);
+
+  // Recently used commands come first until there's a query
+  const results = useMemo(() => {
+    const enabled = commands.filter(command => command.isEnabled !== false);
+    if (!query.trim()) {
+      const byId = new Map(enabled.map(command => [command.id, command]));
+      const recentCommands = recentIds.flatMap(id => byId.get(id) ?? []);
+      return [...recentCommands, ...enabled.filter(command => !recent.has(command.id))];
+    }
+    return fuzzyFilter(enabled, query, (command) => [
+      { text: command.title, weight: 2 },
+      { text: `${command.category}: ${command.title}` },
+    ]);
+  }, [commands, query, recentIds, recent]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${selectedIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  if (!isOpen) return null;
+
+  const run = (command: Command | undefined) => {
+    if (!command) return;
+    onClose();
+    onRun(command);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex(index => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      run(results[selectedIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex justify-center items-start pt-24 z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-theme-bg border border-theme-border rounded-lg w-[560px] max-w-[90vw] shadow-xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setSelectedIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a command…"
+          autoFocus
+          className="w-full px-4 py-3 bg-transparent border-b border-theme-border outline-none text-sm"
+        />
+        <div ref={listRef} className="max-h-80 overflow-auto py-1">
+          {results.length === 0 && (
+            <div className="px-4 py-2 text-sm text-gray-500">No matching commands</div>
+          )}
+          {results.map((command, index) => (
+            <div
+              key={command.id}
+              data-index={index}
+              className={`
+                px-4 py-1.5 flex items-center gap-2 text-sm cursor-pointer
+                ${index === selectedIndex ? 'bg-theme-hover text-theme-text' : 'text-gray-300'}
+              `}
+              onMouseMove={() => setSelectedIndex(index)}
+              onClick={() => run(command)}
+            >
+              <span className="text-gray-500">{command.category}:</span>
+              <span className="flex-1 truncate">{command.title}</span>
+              {!query.trim() && recent.has(command.id) && (
+                <span className="text-xs text-gray-500">recently used</span>
+              )}
+              {command.shortcuts?.[0] && (
+                <kbd className="text-xs text-gray-400 font-mono">
+                  {formatShortcut(command.shortcuts[0])}
+                </kbd>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
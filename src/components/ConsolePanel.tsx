@@ -1,47 +1,519 @@
-import { useRef } from 'react';
-import type { ConsoleMessage } from '../types';
+import { useMemo, useState, type ReactNode } from 'react';
+import { ObjectInspector } from './ObjectInspector';
+import { ConsoleTable } from './ConsoleTable';
+import { ConsoleToolbar } from './ConsoleToolbar';
+import { ReplInput } from './ReplInput';
+import { VirtualList } from './VirtualList';
+import {
+  DEFAULT_CONSOLE_FILTERS,
+  createSearchPattern,
+  formatConsoleText,
+  getMessageLevel,
+  matchesSearch,
+} from '../utils/consoleFilter';
+import { exportJsonFile, exportTextFile } from '../utils/files';
+import { DARK_THEME } from '../utils/themes';
+import type { ConsoleFilters, ConsoleLevel, ConsoleMessage, Language, Theme } from '../types';
 
 interface ConsolePanelProps {
   output: ConsoleMessage[];
+  isRunning?: boolean;
+  onLineClick?: (line: number) => void;
   onScroll?: (scrollTop: number) => void;
+  // Shows the toolbar when set
+  filters?: ConsoleFilters;
+  onFiltersChange?: (filters: ConsoleFilters) => void;
+  exportName?: string; // file name for exports, without extension
+  // Shows the REPL prompt when set
+  language?: Language;
+  theme?: Theme;
+  onEvaluate?: (input: string) => void;
+  getCompletions?: (target: string) => Promise<string[]>;
 }
 
-export function ConsolePanel({ output, onScroll }: ConsolePanelProps) {
-  const containerRef = useRef<HTMLDivElement>(null);
+// A message shown as a row, or standing for several identical ones in a row
+interface ConsoleNode {
+  message: ConsoleMessage;
+  id: number;
+  count: number; // how many identical messages in a row this stands for
+  depth: number; // how many groups it's nested in
+  // For groups: the last node added in it, whether it's kept while
+  // filtering, and whether it's a row and its contents are shown
+  lastChild?: ConsoleNode;
+  isKept?: boolean;
+  isVisible?: boolean;
+  isExpanded?: boolean;
+}
+
+interface ViewOptions {
+  isShown: (message: ConsoleMessage) => boolean;
+  isFiltering: boolean;
+  pattern: RegExp | null;
+  collapseRepeats: boolean;
+  isExpanded: (message: ConsoleMessage, id: number) => boolean;
+}
+
+// The rows and level counts for an output, built up as messages are added.
+// Output only grows at the end while code runs, so each batch is read once.
+interface ConsoleView {
+  output: ConsoleMessage[];
+  readCount: number;
+  options: ViewOptions;
+  // Groups that haven't ended yet, starting from a root that stands for
+  // the console itself
+  open: ConsoleNode[];
+  rows: ConsoleNode[];
+  counts: Record<ConsoleLevel, number>;
+}
+
+// Rows and measured heights are keyed by message, since positions change
+// when output is cleared or preserved across runs
+const messageIds = new WeakMap<ConsoleMessage, number>();
+let nextMessageId = 0;
+
+const getMessageId = (message: ConsoleMessage) => {
+  let id = messageIds.get(message);
+  if (id === undefined) {
+    id = nextMessageId++;
+    messageIds.set(message, id);
+  }
+  return id;
+};
+
+const createView = (output: ConsoleMessage[], options: ViewOptions): ConsoleView => ({
+  output,
+  readCount: 0,
+  options,
+  open: [{
+    message: { type: 'group', content: '' },
+    id: -1,
+    count: 1,
+    depth: -1,
+    isKept: true,
+    isVisible: true,
+    isExpanded: true,
+  }],
+  rows: [],
+  counts: { log: 0, info: 0, warn: 0, error: 0, debug: 0 },
+});
+
+const isRepeat = (a: ConsoleMessage, b: ConsoleMessage) =>
+  a.type === b.type &&
+  a.line === b.line &&
+  a.stack === b.stack &&
+  String(a.content) === String(b.content);
 
-  const handleScroll = () => {
-    if (containerRef.current && onScroll) {
-      onScroll(containerRef.current.scrollTop);
+// While filtering, groups are kept if anything in them is, or their label
+// matches the search. Keeps the open groups that weren't yet, adding the
+// rows of those whose group is shown.
+const keepOpenGroups = (view: ConsoleView) => {
+  const { open, rows } = view;
+  let i = open.length - 1;
+  while (!open[i].isKept) i--;
+  for (i++; i < open.length; i++) {
+    const parent = open[i - 1];
+    open[i].isKept = true;
+    if (parent.isVisible && parent.isExpanded) {
+      open[i].isVisible = true;
+      rows.push(open[i]);
     }
-  };
+  }
+};
+
+// Nests the messages added since the last read into groups, dropping the
+// groupEnd markers and messages that are filtered out
+const readMessages = (view: ConsoleView) => {
+  const { output, open, rows, counts, options } = view;
+
+  for (; view.readCount < output.length; view.readCount++) {
+    const message = output[view.readCount];
+    const level = getMessageLevel(message);
+    if (level) counts[level]++;
 
-  const getTextColor = (type: ConsoleMessage['type']) => {
-    switch (type) {
-      case 'error':
-        return 'text-red-400';
-      case 'warn':
-        return 'text-yellow-400';
-      default:
-        return 'text-dark-text';
+    const parent = open[open.length - 1];
+    const previous = parent.lastChild;
+    if (message.type === 'groupEnd') {
+      if (open.length > 1) open.pop();
+    } else if (message.type === 'group') {
+      const id = getMessageId(message);
+      const node: ConsoleNode = {
+        message,
+        id,
+        count: 1,
+        depth: parent.depth + 1,
+        isKept: false,
+        isVisible: false,
+        isExpanded: options.isExpanded(message, id),
+      };
+      parent.lastChild = node;
+      open.push(node);
+      if (!options.isFiltering || (options.pattern && matchesSearch(message, options.pattern))) {
+        keepOpenGroups(view);
+      }
+    } else if (!options.isShown(message)) {
+      continue;
+    } else if (options.collapseRepeats && previous && previous.message.type !== 'group'
+      && isRepeat(previous.message, message)) {
+      previous.count++;
+    } else {
+      const node: ConsoleNode = { message, id: getMessageId(message), count: 1, depth: parent.depth + 1 };
+      parent.lastChild = node;
+      keepOpenGroups(view);
+      if (parent.isVisible && parent.isExpanded) rows.push(node);
     }
-  };
+  }
+};
+
+const getRowKey = (node: ConsoleNode) => node.id;
+
+// A text row with the default text-sm line height and the gap below it
+const ESTIMATED_ROW_HEIGHT = 24;
+// Longer text shows its start with a button to show the rest
+const PREVIEW_LENGTH = 2000;
+const PREVIEW_LINES = 20;
+
+const getPreview = (text: string): string | null => {
+  const preview = text.slice(0, PREVIEW_LENGTH).split('\n').slice(0, PREVIEW_LINES).join('\n');
+  return preview.length < text.length ? preview : null;
+};
+
+function Highlight({ text, pattern }: { text: string; pattern: RegExp | null }) {
+  if (!pattern) return <>{text}</>;
+
+  const parts: ReactNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (match[0] === '') continue;
+    parts.push(text.slice(last, match.index));
+    parts.push(
+      <mark key={match.index} className="bg-console-warn/40 text-inherit rounded-sm">{match[0]}</mark>
+    );
+    last = match.index + match[0].length;
+  }
+  parts.push(text.slice(last));
+  return <>{parts}</>;
+}
+
+interface LongTextProps {
+  text: string;
+  pattern: RegExp | null;
+  isExpanded: boolean;
+  onToggle: () => void;
+}
+
+function LongText({ text, pattern, isExpanded, onToggle }: LongTextProps) {
+  const preview = getPreview(text);
+  if (preview === null) return <Highlight text={text} pattern={pattern} />;
+
+  return (
+    <>
+      <Highlight text={isExpanded ? text : preview} pattern={pattern} />
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          onToggle();
+        }}
+        className="ml-2 text-xs text-theme-accent hover:underline select-none"
+      >
+        {isExpanded ? 'Show less' : `Show more (${(text.length - preview.length).toLocaleString()} more characters)`}
+      </button>
+    </>
+  );
+}
+
+const getTextColor = (type: ConsoleMessage['type']) => {
+  switch (type) {
+    case 'error':
+      return 'text-console-error';
+    case 'warn':
+      return 'text-console-warn';
+    case 'info':
+      return 'text-console-info';
+    case 'debug':
+    case 'result':
+      return 'text-console-debug';
+    case 'input':
+      return 'text-gray-300';
+    case 'time':
+      return 'text-console-time';
+    default:
+      return 'text-theme-text';
+  }
+};
+
+interface MessageArgsProps {
+  msg: ConsoleMessage;
+  pattern: RegExp | null;
+  isTextExpanded: boolean;
+  onToggleText: () => void;
+}
+
+function MessageArgs({ msg, pattern, isTextExpanded, onToggleText }: MessageArgsProps) {
+  const renderText = (text: string) => (
+    <LongText text={text} pattern={pattern} isExpanded={isTextExpanded} onToggle={onToggleText} />
+  );
+  if (!msg.args) return renderText(String(msg.content ?? ''));
+
+  return (
+    <>
+      {msg.args.map((arg, argIndex) => (
+        <span key={argIndex}>
+          {argIndex > 0 && ' '}
+          <ObjectInspector
+            value={arg}
+            defaultExpanded={msg.type === 'dir'}
+            renderText={renderText}
+          />
+        </span>
+      ))}
+    </>
+  );
+}
+
+function RepeatBadge({ count }: { count: number }) {
+  if (count < 2) return null;
+  return (
+    <span className="inline-block min-w-[1.5em] px-1 mr-2 rounded-full bg-theme-hover text-gray-400 text-xs text-center select-none">
+      {count}
+    </span>
+  );
+}
+
+interface LineBadgeProps {
+  line?: number;
+  onLineClick?: (line: number) => void;
+}
+
+function LineBadge({ line, onLineClick }: LineBadgeProps) {
+  if (line === undefined) return null;
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onLineClick?.(line);
+      }}
+      className="text-xs text-gray-600 hover:text-theme-text hover:underline select-none self-start"
+      title="Go to line"
+    >
+      line {line}
+    </button>
+  );
+}
+
+interface ConsoleEntryProps {
+  node: ConsoleNode;
+  pattern: RegExp | null;
+  onLineClick?: (line: number) => void;
+  isExpanded: boolean; // for groups
+  onToggle: () => void;
+  isTextExpanded: boolean;
+  onToggleText: () => void;
+}
+
+function ConsoleEntry({
+  node,
+  pattern,
+  onLineClick,
+  isExpanded,
+  onToggle,
+  isTextExpanded,
+  onToggleText,
+}: ConsoleEntryProps) {
+  const { message: msg } = node;
+  const args = { msg, pattern, isTextExpanded, onToggleText };
+
+  if (msg.type === 'separator') {
+    return (
+      <div className="flex items-center gap-2 text-xs text-gray-600 select-none py-1">
+        <div className="flex-1 border-t border-theme-border" />
+        {msg.content}
+        <div className="flex-1 border-t border-theme-border" />
+      </div>
+    );
+  }
+
+  if (msg.type === 'group') {
+    return (
+      <div
+        className="flex gap-2 cursor-pointer select-none hover:bg-theme-hover/50"
+        onClick={onToggle}
+      >
+        <div className="flex-1 font-semibold">
+          <span className="inline-block w-3 text-gray-500 text-xs">
+            {isExpanded ? '▼' : '▶'}
+          </span>
+          <MessageArgs {...args} />
+        </div>
+        <LineBadge line={msg.line} onLineClick={onLineClick} />
+      </div>
+    );
+  }
+
+  // Thrown errors jump to where they happened when clicked
+  const canJump = msg.thrown && msg.line !== undefined && onLineClick;
 
   return (
     <div
-      ref={containerRef}
-      className="w-full h-full overflow-auto bg-dark-bg p-4 font-mono text-sm"
-      onScroll={handleScroll}
+      className={`${getTextColor(msg.type)} flex gap-2 ${canJump ? 'cursor-pointer hover:bg-theme-hover/50' : ''}`}
+      onClick={canJump ? () => onLineClick(msg.line!) : undefined}
     >
-      <div className="space-y-1">
-        {output.map((msg, index) => (
-          <div
-            key={index}
-            className={`${getTextColor(msg.type)} whitespace-pre-wrap`}
-          >
-            {msg.content}
+      <div className="flex-1 min-w-0 whitespace-pre-wrap break-words">
+        <RepeatBadge count={node.count} />
+        {msg.type === 'input' && <span className="text-theme-accent select-none">› </span>}
+        {msg.type === 'result' && '← '}
+        {msg.type === 'table' && msg.table ? (
+          <ConsoleTable table={msg.table} />
+        ) : (
+          <MessageArgs {...args} />
+        )}
+        {msg.stack && (
+          <div className="pl-4 text-gray-500 text-xs">
+            <Highlight text={msg.stack} pattern={pattern} />
           </div>
-        ))}
+        )}
       </div>
+      <LineBadge line={msg.line} onLineClick={onLineClick} />
+    </div>
+  );
+}
+
+const toggleId = (set: Set<number>, id: number) => {
+  const toggled = new Set(set);
+  if (!toggled.delete(id)) toggled.add(id);
+  return toggled;
+};
+
+export function ConsolePanel({
+  output,
+  isRunning = false,
+  onLineClick,
+  onScroll,
+  filters = DEFAULT_CONSOLE_FILTERS,
+  onFiltersChange,
+  exportName = 'console',
+  language = 'js',
+  theme = DARK_THEME,
+  onEvaluate,
+  getCompletions,
+}: ConsolePanelProps) {
+  const [query, setQuery] = useState('');
+  const { pattern, error: searchError } = useMemo(
+    () => createSearchPattern(query, filters.isRegex),
+    [query, filters.isRegex]
+  );
+
+  // Groups opened or closed by hand and long text shown in full, by message
+  // id. Rows are unmounted when scrolled away, so this lives here; it
+  // starts over when the output is replaced rather than added to.
+  const [toggled, setToggled] = useState({
+    first: output[0],
+    groups: new Set<number>(),
+    texts: new Set<number>(),
+  });
+  if (toggled.first !== output[0]) {
+    setToggled({ first: output[0], groups: new Set(), texts: new Set() });
+  }
+
+  // Built again from the start when the filters change or a group is opened
+  // or closed; otherwise only the new messages are read
+  const view = useMemo(() => {
+    const { levels, collapseRepeats } = filters;
+    const isShown = (message: ConsoleMessage) => {
+      const level = getMessageLevel(message);
+      return (!level || levels[level]) && (message.type === 'separator' || matchesSearch(message, pattern));
+    };
+    const isFiltering = pattern !== null || Object.values(levels).some(isOn => !isOn);
+    const isExpanded = (message: ConsoleMessage, id: number) => !message.collapsed !== toggled.groups.has(id);
+    return createView(output, { isShown, isFiltering, pattern, collapseRepeats, isExpanded });
+  }, [output, filters, pattern, toggled.groups]);
+  readMessages(view);
+  const { rows, counts } = view;
+
+  // Set when input is evaluated, so its result scrolls into view
+  const [isFollowing, setIsFollowing] = useState(false);
+
+  const handleScroll = (container: HTMLDivElement) => {
+    // Scrolling up stops following the output
+    if (container.scrollHeight - container.scrollTop - container.clientHeight > 40) {
+      setIsFollowing(false);
+    }
+    onScroll?.(container.scrollTop);
+  };
+
+  const renderRow = (node: ConsoleNode) => {
+    let row = (
+      <div className="pb-1">
+        <ConsoleEntry
+          node={node}
+          pattern={pattern}
+          onLineClick={onLineClick}
+          isExpanded={node.isExpanded ?? false}
+          onToggle={() => setToggled({ ...toggled, groups: toggleId(toggled.groups, node.id) })}
+          isTextExpanded={toggled.texts.has(node.id)}
+          onToggleText={() => setToggled({ ...toggled, texts: toggleId(toggled.texts, node.id) })}
+        />
+      </div>
+    );
+    // The guide lines of the groups the row is in
+    for (let level = 0; level < node.depth; level++) {
+      row = <div className="ml-1.5 pl-3 border-l border-theme-border">{row}</div>;
+    }
+    return row;
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(formatConsoleText(output)).catch((error) => {
+      console.error('Failed to copy console output:', error);
+    });
+  };
+
+  const handleExport = (format: 'txt' | 'json') => {
+    const exported = format === 'json'
+      ? exportJsonFile(`${exportName}.json`, JSON.stringify(output, null, 2))
+      : exportTextFile(`${exportName}.txt`, formatConsoleText(output));
+    exported.catch((error) => {
+      console.error('Failed to export console output:', error);
+    });
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col bg-theme-bg">
+      {onFiltersChange && (
+        <ConsoleToolbar
+          query={query}
+          onQueryChange={setQuery}
+          searchError={searchError}
+          filters={filters}
+          onFiltersChange={onFiltersChange}
+          counts={counts}
+          onCopy={handleCopy}
+          onExport={handleExport}
+        />
+      )}
+      <VirtualList
+        items={rows}
+        getKey={getRowKey}
+        renderItem={renderRow}
+        estimatedHeight={ESTIMATED_ROW_HEIGHT}
+        followEnd={isFollowing}
+        onScroll={handleScroll}
+        className="flex-1 p-4 font-mono text-sm"
+        footer={isRunning && (
+          <div className="text-gray-500 animate-pulse select-none">Running…</div>
+        )}
+      />
+
+      {onEvaluate && getCompletions && (
+        <ReplInput
+          language={language}
+          theme={theme}
+          onEvaluate={(input) => {
+            setIsFollowing(true);
+            onEvaluate(input);
+          }}
+          getCompletions={getCompletions}
+        />
+      )}
     </div>
   );
 }
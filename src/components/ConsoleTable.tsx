@@ -0,0 +1,37 @@
+import { ObjectInspector } from './ObjectInspector';
+import type { ConsoleTable as ConsoleTableData } from '../types';
+
+interface ConsoleTableProps {
+  table: ConsoleTableData;
+}
+
+export function ConsoleTable({ table }: ConsoleTableProps) {
+  const cellClass = 'border border-theme-border px-2 py-0.5 text-left align-top';
+
+  return (
+    <table className="border-collapse my-1 text-xs">
+      <thead>
+        <tr className="bg-theme-hover">
+          <th className={`${cellClass} font-medium`}>(index)</th>
+          {table.columns.map((column) => (
+            <th key={column} className={`${cellClass} font-medium`}>
+              {column}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {table.rows.map((row) => (
+          <tr key={row.key}>
+            <td className={`${cellClass} text-syntax-property`}>{row.key}</td>
+            {table.columns.map((column) => (
+              <td key={column} className={cellClass}>
+                {row.cells[column] && <ObjectInspector value={row.cells[column]} />}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
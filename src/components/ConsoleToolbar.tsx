@@ -0,0 +1,112 @@
+import { CONSOLE_LEVELS } from '../utils/consoleFilter';
+import type { ConsoleFilters, ConsoleLevel } from '../types';
+
+interface ConsoleToolbarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  searchError?: string; // when the query isn't a valid regular expression
+  filters: ConsoleFilters;
+  onFiltersChange: (filters: ConsoleFilters) => void;
+  counts: Record<ConsoleLevel, number>;
+  onCopy: () => void;
+  onExport: (format: 'txt' | 'json') => void;
+}
+
+const LEVEL_COLORS: Record<ConsoleLevel, string> = {
+  log: 'text-theme-text',
+  info: 'text-console-info',
+  warn: 'text-console-warn',
+  error: 'text-console-error',
+  debug: 'text-gray-500',
+};
+
+const toggleClass = (isOn: boolean) =>
+  isOn ? 'bg-theme-hover text-theme-text' : 'text-gray-500 hover:text-theme-text';
+
+export function ConsoleToolbar({
+  query,
+  onQueryChange,
+  searchError,
+  filters,
+  onFiltersChange,
+  counts,
+  onCopy,
+  onExport,
+}: ConsoleToolbarProps) {
+  const update = (updates: Partial<ConsoleFilters>) => onFiltersChange({ ...filters, ...updates });
+
+  return (
+    <div className="flex items-center gap-1 px-2 py-1 border-b border-theme-border text-xs flex-wrap">
+      <div
+        className={`flex items-center bg-theme-hover rounded border ${searchError ? 'border-console-error' : 'border-transparent'}`}
+        title={searchError}
+      >
+        <input
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape' && query) {
+              e.stopPropagation();
+              onQueryChange('');
+            }
+          }}
+          placeholder={filters.isRegex ? 'Filter (regex)' : 'Filter'}
+          className="w-40 bg-transparent px-2 py-1 outline-none font-mono"
+          spellCheck={false}
+        />
+        <button
+          onClick={() => update({ isRegex: !filters.isRegex })}
+          className={`px-1.5 py-1 rounded font-mono ${toggleClass(filters.isRegex)}`}
+          title="Use regular expression"
+        >
+          .*
+        </button>
+      </div>
+
+      {CONSOLE_LEVELS.map(({ id, label }) => (
+        <button
+          key={id}
+          onClick={() => update({ levels: { ...filters.levels, [id]: !filters.levels[id] } })}
+          className={`px-2 py-1 rounded ${filters.levels[id] ? `bg-theme-hover ${LEVEL_COLORS[id]}` : 'text-gray-600 line-through'}`}
+          title={`${filters.levels[id] ? 'Hide' : 'Show'} ${label.toLowerCase()} messages`}
+        >
+          {label} <span className="text-gray-500">{counts[id]}</span>
+        </button>
+      ))}
+
+      <div className="ml-auto flex items-center gap-1">
+        <button
+          onClick={() => update({ collapseRepeats: !filters.collapseRepeats })}
+          className={`px-2 py-1 rounded ${toggleClass(filters.collapseRepeats)}`}
+          title="Show repeated messages once, with a count"
+        >
+          Group repeats
+        </button>
+        <button
+          onClick={() => update({ preserveLog: !filters.preserveLog })}
+          className={`px-2 py-1 rounded ${toggleClass(filters.preserveLog)}`}
+          title="Keep output from earlier runs"
+        >
+          Preserve log
+        </button>
+        <button
+          onClick={onCopy}
+          className="px-2 py-1 rounded text-gray-500 hover:text-theme-text hover:bg-theme-hover"
+          title="Copy all output"
+        >
+          Copy
+        </button>
+        <select
+          value=""
+          onChange={(e) => onExport(e.target.value as 'txt' | 'json')}
+          className="bg-transparent text-gray-500 hover:text-theme-text rounded py-1"
+          title="Export all output"
+        >
+          <option value="" disabled>Export…</option>
+          <option value="txt">Text (.txt)</option>
+          <option value="json">JSON (.json)</option>
+        </select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+export type ContextMenuItem =
+  | {
+      label: string;
+      onSelect: () => void;
+      isEnabled?: boolean; // defaults to true
+    }
+  | 'separator';
+
+interface ContextMenuProps {
+  x: number;
+  y: number;
+  items: ContextMenuItem[];
+  onClose: () => void;
+}
+
+/**
+ * A menu at a point on screen, kept inside the window. Closes on a click
+ * elsewhere, Escape, or choosing an item; arrow keys move between items.
+ */
+export function ContextMenu({ x, y, items, onClose }: ContextMenuProps) {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [position, setPosition] = useState({ left: x, top: y });
+
+  useLayoutEffect(() => {
+    const menu = menuRef.current;
+    if (!menu) return;
+    setPosition({
+      left: Math.max(0, Math.min(x, window.innerWidth - menu.offsetWidth - 4)),
+      top: Math.max(0, Math.min(y, window.innerHeight - menu.offsetHeight - 4)),
+    });
+    menu.querySelector<HTMLButtonElement>('button:not(:disabled)')?.focus();
+  }, [x, y]);
+
+  useEffect(() => {
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) onClose();
+    };
+    document.addEventListener('pointerdown', handlePointerDown, true);
+    window.addEventListener('blur', onClose);
+    window.addEventListener('resize', onClose);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown, true);
+      window.removeEventListener('blur', onClose);
+      window.removeEventListener('resize', onClose);
+    };
+  }, [onClose]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const buttons = [...menuRef.current!.querySelectorAll<HTMLButtonElement>('button:not(:disabled)')];
+    const index = buttons.indexOf(document.activeElement as HTMLButtonElement);
+    if (e.key === 'Escape' || e.key === 'Tab') {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      buttons[(index + 1) % buttons.length]?.focus();
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      buttons[(index - 1 + buttons.length) % buttons.length]?.focus();
+    }
+    e.stopPropagation();
+  };
+
+  return (
+    <div
+      ref={menuRef}
+      role="menu"
+      onKeyDown={handleKeyDown}
+      onContextMenu={(e) => e.preventDefault()}
+      className="fixed z-50 min-w-48 py-1 bg-theme-bg border border-theme-border rounded shadow-lg text-sm"
+      style={position}
+    >
+      {items.map((item, index) =>
+        item === 'separator' ? (
+          <div key={index} className="my-1 border-t border-theme-border" />
+        ) : (
+          <button
+            key={index}
+            role="menuitem"
+            disabled={item.isEnabled === false}
+            onClick={() => {
+              onClose();
+              item.onSelect();
+            }}
+            className="w-full px-3 py-1 text-left hover:bg-theme-hover focus:bg-theme-hover outline-none disabled:text-gray-600 disabled:bg-transparent"
+          >
+            {item.label}
+          </button>
+        )
+      )}
+    </div>
+  );
+}
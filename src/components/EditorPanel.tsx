@@ -1,27 +1,89 @@
 import { useEffect, useRef } from 'react';
-import { EditorView, basicSetup } from 'codemirror';
-import { javascript } from '@codemirror/lang-javascript';
-import { vscodeDark } from '@uiw/codemirror-theme-vscode';
-import { EditorState } from '@codemirror/state';
-import { autocompletion } from '@codemirror/autocomplete';
+import { EditorView } from '@codemirror/view';
+import { Annotation, Compartment, EditorState } from '@codemirror/state';
+import { editorOptions } from '../extensions/editorOptions';
+import { languageSupport } from '../extensions/language';
+import { lineResults, setLineResults } from '../extensions/lineResults';
+import { codeLinter } from '../extensions/lint';
+import { editorSetup } from '../extensions/setup';
+import { editorTheme } from '../extensions/theme';
+import { formatCode } from '../utils/format';
+import type { TypeScriptWorkerApi } from '../hooks/useTypeScriptWorker';
+import type { ConsoleMessage, EditorOptions, FormatOptions, Language, LintRules, Runtime, Theme } from '../types';
+
+// Marks changes that came from the `code` prop rather than from typing
+const externalChange = Annotation.define<boolean>();
+
+export interface FormatRequest {
+  options: FormatOptions;
+  onFormatted?: (code: string) => void;
+}
 
 interface EditorPanelProps {
   code: string;
+  language: Language;
+  runtime: Runtime; // decides which globals the linter knows
+  fileName: string;
+  tsWorker: TypeScriptWorkerApi | null;
   onChange: (code: string) => void;
+  lintRules: LintRules;
+  theme: Theme;
+  options: EditorOptions;
+  results?: ConsoleMessage[];
+  // Moves the cursor to this line; pass a new object to jump again
+  revealLine?: { line: number } | null;
+  // Called after the jump, so a remount doesn't jump back to the line
+  onRevealHandled?: () => void;
+  // Replaces the selection with this text; pass a new object to insert again
+  insertText?: { text: string } | null;
+  // Called once the text is in, so a remount doesn't insert it again
+  onInsertHandled?: () => void;
+  onSelectionChange?: (selectedText: string) => void;
+  // Formats the document with Prettier, then calls back with the code,
+  // formatted or not; pass a new object to format again
+  formatRequest?: FormatRequest | null;
+  // Called once the request is taken, so a remount doesn't format again
+  onFormatHandled?: () => void;
   onScroll?: (scrollTop: number) => void;
 }
 
-export function EditorPanel({ code, onChange, onScroll }: EditorPanelProps) {
+export function EditorPanel({
+  code,
+  language,
+  runtime,
+  fileName,
+  tsWorker,
+  onChange,
+  lintRules,
+  theme,
+  options,
+  results,
+  revealLine,
+  onRevealHandled,
+  insertText,
+  onInsertHandled,
+  onSelectionChange,
+  formatRequest,
+  onFormatHandled,
+  onScroll,
+}: EditorPanelProps) {
   const editorRef = useRef<HTMLDivElement>(null);
   const viewRef = useRef<EditorView | null>(null);
+  const languageCompartment = useRef(new Compartment());
+  const lintCompartment = useRef(new Compartment());
+  const themeCompartment = useRef(new Compartment());
+  const optionsConfig = useRef(editorOptions());
+  const appliedOptionsRef = useRef(options);
   const onChangeRef = useRef(onChange);
   const onScrollRef = useRef(onScroll);
+  const onSelectionChangeRef = useRef(onSelectionChange);
 
   // Keep refs up to date
   useEffect(() => {
     onChangeRef.current = onChange;
     onScrollRef.current = onScroll;
-  }, [onChange, onScroll]);
+    onSelectionChangeRef.current = onSelectionChange;
+  }, [onChange, onScroll, onSelectionChange]);
 
   const handleContainerClick = (e: React.MouseEvent<HTMLDivElement>) => {
     if (viewRef.current && e.target === editorRef.current) {
@@ -43,16 +105,21 @@ export function EditorPanel({ code, onChange, onScroll }: EditorPanelProps) {
     const startState = EditorState.create({
       doc: code,
       extensions: [
-        basicSetup,
-        javascript(),
-        vscodeDark,
-        autocompletion({
-          activateOnTyping: true,
-        }),
+        editorSetup,
+        optionsConfig.current.extension(options),
+        languageCompartment.current.of(languageSupport(language, fileName, tsWorker)),
+        lintCompartment.current.of(codeLinter(language, runtime, lintRules)),
+        themeCompartment.current.of(editorTheme(theme)),
+        lineResults(),
         EditorView.updateListener.of((update) => {
-          if (update.docChanged) {
+          const isExternal = update.transactions.some((tr) => tr.annotation(externalChange));
+          if (update.docChanged && !isExternal) {
             onChangeRef.current(update.state.doc.toString());
           }
+          if (update.selectionSet || update.docChanged) {
+            const { from, to } = update.state.selection.main;
+            onSelectionChangeRef.current?.(update.state.sliceDoc(from, to));
+          }
         }),
         EditorView.domEventHandlers({
           scroll: (_event, view) => {
@@ -73,17 +140,122 @@ export function EditorPanel({ code, onChange, onScroll }: EditorPanelProps) {
 
     // Auto-focus when editor is mounted
     view.focus();
+    onSelectionChangeRef.current?.('');
 
     return () => {
       view.destroy();
     };
   }, []);
 
+  // Follow code replaced from outside, e.g. a file reloaded from disk
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || view.state.doc.toString() === code) return;
+
+    view.dispatch({
+      changes: { from: 0, to: view.state.doc.length, insert: code },
+      annotations: externalChange.of(true),
+    });
+  }, [code]);
+
+  // Swap language support in place so the editor keeps its history
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: languageCompartment.current.reconfigure(
+        languageSupport(language, fileName, tsWorker)
+      ),
+    });
+  }, [language, fileName, tsWorker]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: lintCompartment.current.reconfigure(codeLinter(language, runtime, lintRules)),
+    });
+  }, [language, runtime, lintRules]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: themeCompartment.current.reconfigure(editorTheme(theme)),
+    });
+  }, [theme]);
+
+  // Only the options that changed are reconfigured
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    const effects = optionsConfig.current.reconfigure(appliedOptionsRef.current, options);
+    appliedOptionsRef.current = options;
+    if (effects.length > 0) view.dispatch({ effects });
+  }, [options]);
+
+  // Show the latest run's output next to the lines that produced it. Output
+  // grows in place while code runs, hence the length; only the messages
+  // added since the last update are read.
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: setLineResults.of(results ?? []),
+    });
+  }, [results, results?.length]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || !revealLine) return;
+
+    const doc = view.state.doc;
+    const line = doc.line(Math.min(Math.max(revealLine.line, 1), doc.lines));
+    const pos = line.from + /^\s*/.exec(line.text)![0].length;
+
+    view.dispatch({
+      selection: { anchor: pos },
+      effects: EditorView.scrollIntoView(pos, { y: 'center' }),
+    });
+    view.focus();
+    onRevealHandled?.();
+  }, [revealLine]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || !insertText) return;
+
+    view.dispatch({ ...view.state.replaceSelection(insertText.text), scrollIntoView: true });
+    view.focus();
+    onInsertHandled?.();
+  }, [insertText]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || !formatRequest) return;
+    onFormatHandled?.();
+
+    const { doc, selection } = view.state;
+    const code = doc.toString();
+    formatCode(code, language, formatRequest.options, selection.main.head)
+      .then(({ formatted, cursorOffset }) => {
+        if (viewRef.current !== view) return;
+        // Typing while Prettier ran wins over its result
+        if (view.state.doc !== doc) {
+          formatRequest.onFormatted?.(view.state.doc.toString());
+          return;
+        }
+        if (formatted !== code) {
+          view.dispatch({
+            changes: { from: 0, to: doc.length, insert: formatted },
+            selection: { anchor: cursorOffset },
+            scrollIntoView: true,
+          });
+        }
+        formatRequest.onFormatted?.(formatted);
+      })
+      .catch((error) => {
+        console.error('Failed to format code:', error);
+        formatRequest.onFormatted?.(code);
+      });
+  }, [formatRequest]);
+
   return (
     <div
       ref={editorRef}
       className="w-full h-full overflow-auto"
-      style={{ fontSize: '14px' }}
       onClick={handleContainerClick}
     />
   );
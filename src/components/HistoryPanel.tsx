@@ -0,0 +1,155 @@
+import { useMemo, useState } from 'react';
+import { ConsolePanel } from './ConsolePanel';
+import { diffLines } from '../utils/diff';
+import { MAX_HISTORY, MAX_RUN_OUTPUT } from '../hooks/useTabs';
+import type { RunRecord } from '../types';
+
+interface HistoryPanelProps {
+  runs: RunRecord[];
+  currentCode: string;
+  onRestore: (run: RunRecord) => void;
+  onRerun: (run: RunRecord) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+function RunStatus({ run }: { run: RunRecord }) {
+  if (run.killed) return <span className="text-console-error">killed</span>;
+  if (run.timedOut) return <span className="text-console-warn">timed out</span>;
+  if (run.stopped) return <span className="text-console-warn">stopped</span>;
+  const errors = run.output.filter(message => message.type === 'error').length;
+  if (errors > 0) {
+    return <span className="text-console-error">{errors} error{errors === 1 ? '' : 's'}</span>;
+  }
+  return <span className="text-gray-500">{run.output.length} logs</span>;
+}
+
+function CodeDiff({ before, after }: { before: string; after: string }) {
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+  if (before === after) {
+    return <div className="p-3 text-gray-500">Same as the current code.</div>;
+  }
+
+  return (
+    <pre className="p-2 font-mono text-xs">
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          className={
+            line.type === 'added'
+              ? 'bg-theme-success/15 text-theme-success'
+              : line.type === 'removed'
+                ? 'bg-console-error/15 text-console-error'
+                : 'text-gray-400'
+          }
+        >
+          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+          {line.text}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+export function HistoryPanel({
+  runs,
+  currentCode,
+  onRestore,
+  onRerun,
+  onClear,
+  onClose,
+}: HistoryPanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [view, setView] = useState<'output' | 'diff'>('output');
+
+  const newestFirst = useMemo(() => [...runs].reverse(), [runs]);
+  const selected = runs.find(run => run.id === selectedId) ?? newestFirst[0];
+
+  return (
+    <div className="w-96 h-full flex flex-col border-l border-theme-border bg-theme-bg text-sm">
+      <div className="h-9 px-3 flex items-center justify-between border-b border-theme-border">
+        <span className="font-semibold">History</span>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onClear}
+            disabled={runs.length === 0}
+            className="text-xs text-gray-400 hover:text-theme-text disabled:opacity-50"
+          >
+            Clear
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-theme-text" title="Close history">
+            ×
+          </button>
+        </div>
+      </div>
+
+      <div className="px-3 py-1.5 border-b border-theme-border text-xs text-gray-500">
+        Keeps the last {MAX_HISTORY} runs you start, with the last {MAX_RUN_OUTPUT} messages of each.
+      </div>
+
+      {runs.length === 0 ? (
+        <div className="p-3 text-gray-500">No runs yet.</div>
+      ) : (
+        <>
+          <div className="max-h-48 overflow-auto border-b border-theme-border">
+            {newestFirst.map((run) => (
+              <button
+                key={run.id}
+                onClick={() => setSelectedId(run.id)}
+                className={`
+                  w-full px-3 py-1.5 flex items-center gap-2 text-left text-xs border-b border-theme-border last:border-b-0
+                  ${run === selected ? 'bg-theme-hover' : 'hover:bg-theme-hover/50'}
+                `}
+              >
+                <span className="text-theme-text">{new Date(run.startedAt).toLocaleTimeString()}</span>
+                <span className="text-gray-500">{formatDuration(run.duration)}</span>
+                <span className="ml-auto"><RunStatus run={run} /></span>
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <>
+              <div className="px-2 py-1.5 flex items-center gap-1 border-b border-theme-border text-xs">
+                {(['output', 'diff'] as const).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setView(option)}
+                    className={`px-2 py-0.5 rounded ${view === option ? 'bg-theme-hover text-theme-text' : 'text-gray-400 hover:text-theme-text'}`}
+                  >
+                    {option === 'output' ? 'Output' : 'Diff with current'}
+                  </button>
+                ))}
+                <button
+                  onClick={() => onRestore(selected)}
+                  disabled={selected.code === currentCode}
+                  className="ml-auto px-2 py-0.5 rounded text-theme-accent hover:bg-theme-hover disabled:text-gray-600"
+                  title="Replace the tab's code with this run's code"
+                >
+                  Restore
+                </button>
+                <button
+                  onClick={() => onRerun(selected)}
+                  className="px-2 py-0.5 rounded text-theme-accent hover:bg-theme-hover"
+                  title="Run this run's code again"
+                >
+                  Re-run
+                </button>
+              </div>
+
+              <div className="flex-1 overflow-auto">
+                {view === 'output' ? (
+                  <ConsolePanel output={selected.output} />
+                ) : (
+                  <CodeDiff before={selected.code} after={currentCode} />
+                )}
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { applyKeybindings, findConflicts } from '../utils/keybindings';
+import { eventToKeystroke, formatShortcut } from '../utils/shortcuts';
+import { fuzzyFilter } from '../utils/fuzzy';
+import type { Command, EditorKeymap } from '../types';
+
+interface KeybindingEditorProps {
+  // Commands with their default shortcuts
+  commands: Command[];
+  keybindings: Record<string, string[]>;
+  onChange: (keybindings: Record<string, string[]>) => void;
+  keymap: EditorKeymap;
+}
+
+// Longest chord that can be recorded
+const MAX_CHORD_LENGTH = 2;
+// How long to wait for the next keystroke of a chord
+const CHORD_DELAY = 800;
+
+interface Recording {
+  commandId: string;
+  strokes: string[];
+}
+
+export function KeybindingEditor({ commands, keybindings, onChange, keymap }: KeybindingEditorProps) {
+  const [query, setQuery] = useState('');
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  useEffect(() => () => clearTimeout(timerRef.current), []);
+
+  const boundCommands = useMemo(
+    () => applyKeybindings(commands, keybindings),
+    [commands, keybindings]
+  );
+  const results = useMemo(
+    () => fuzzyFilter(boundCommands, query, (command) => [
+      { text: command.title, weight: 2 },
+      { text: command.category },
+      ...(command.shortcuts ?? []).map(shortcut => ({ text: formatShortcut(shortcut) })),
+    ]),
+    [boundCommands, query]
+  );
+
+  const setShortcuts = (command: Command, shortcuts: string[]) => {
+    onChange({ ...keybindings, [command.id]: shortcuts });
+  };
+
+  const resetCommand = (commandId: string) => {
+    const { [commandId]: _, ...rest } = keybindings;
+    onChange(rest);
+  };
+
+  const finishRecording = (strokes: string[]) => {
+    clearTimeout(timerRef.current);
+    setRecording(null);
+    const command = boundCommands.find(({ id }) => id === recording?.commandId);
+    const shortcut = strokes.join(' ');
+    if (!command || command.shortcuts?.includes(shortcut)) return;
+    setShortcuts(command, [...(command.shortcuts ?? []), shortcut]);
+  };
+
+  const cancelRecording = () => {
+    clearTimeout(timerRef.current);
+    setRecording(null);
+  };
+
+  const handleRecordKeyDown = (event: React.KeyboardEvent) => {
+    // Keep the key from reaching app shortcuts and the modal's Escape handler
+    event.preventDefault();
+    event.stopPropagation();
+    if (!recording) return;
+
+    const stroke = eventToKeystroke(event.nativeEvent);
+    if (!stroke) return;
+    if (stroke === 'Escape') {
+      cancelRecording();
+      return;
+    }
+
+    const strokes = [...recording.strokes, stroke];
+    clearTimeout(timerRef.current);
+    if (strokes.length >= MAX_CHORD_LENGTH) {
+      finishRecording(strokes);
+    } else {
+      setRecording({ ...recording, strokes });
+      timerRef.current = setTimeout(() => finishRecording(strokes), CHORD_DELAY);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search commands or shortcuts…"
+          className="flex-1 bg-theme-hover border border-theme-border rounded px-3 py-1 text-sm outline-none focus:border-theme-accent"
+        />
+        <button
+          onClick={() => onChange({})}
+          disabled={Object.keys(keybindings).length === 0}
+          className="px-3 py-1 rounded text-xs bg-theme-hover hover:bg-theme-border disabled:opacity-50"
+        >
+          Reset All to Defaults
+        </button>
+      </div>
+
+      <div className="text-xs max-h-60 overflow-auto border border-theme-border rounded">
+        {results.map((command) => {
+          const isCustom = command.id in keybindings;
+          const isRecording = recording?.commandId === command.id;
+          return (
+            <div
+              key={command.id}
+              className="group px-2 py-1.5 border-b border-theme-border last:border-b-0"
+            >
+              <div className="flex items-center gap-2">
+                <span className="flex-1 truncate text-gray-300">
+                  {command.category}: {command.title}
+                  {isCustom && <span className="ml-1 text-theme-accent" title="Customized">•</span>}
+                </span>
+                {command.shortcuts?.map((shortcut) => (
+                  <span
+                    key={shortcut}
+                    className="flex items-center gap-1 px-1.5 rounded bg-theme-hover font-mono text-gray-300"
+                  >
+                    {formatShortcut(shortcut)}
+                    <button
+                      onClick={() =>
+                        setShortcuts(command, command.shortcuts!.filter(s => s !== shortcut))
+                      }
+                      className="text-gray-500 hover:text-console-error"
+                      title="Remove shortcut"
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+                {isRecording ? (
+                  <button
+                    autoFocus
+                    onKeyDown={handleRecordKeyDown}
+                    onBlur={cancelRecording}
+                    className="px-1.5 rounded border border-theme-accent font-mono text-theme-accent"
+                  >
+                    {recording.strokes.length
+                      ? formatShortcut(recording.strokes.join(' ')) + ' …'
+                      : 'Press keys…'}
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => setRecording({ commandId: command.id, strokes: [] })}
+                    className="px-1.5 rounded text-gray-500 hover:text-theme-text hover:bg-theme-hover"
+                    title="Add shortcut"
+                  >
+                    +
+                  </button>
+                )}
+                {isCustom && (
+                  <button
+                    onClick={() => resetCommand(command.id)}
+                    className="text-gray-500 hover:text-theme-text"
+                    title="Reset to default"
+                  >
+                    ↺
+                  </button>
+                )}
+              </div>
+              {command.shortcuts?.map((shortcut) => {
+                const conflicts = findConflicts(shortcut, command.id, boundCommands, keymap);
+                return conflicts.length > 0 && (
+                  <div key={shortcut} className="mt-0.5 text-console-warn">
+                    {formatShortcut(shortcut)} conflicts with {conflicts.join(', ')}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-gray-500">
+        Press up to two keystrokes for a chord, e.g. {formatShortcut('Mod+J Mod+1')}. Esc cancels.
+      </p>
+    </div>
+  );
+}
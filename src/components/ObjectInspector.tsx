@@ -0,0 +1,137 @@
+import { useState, type ReactNode } from 'react';
+import type { SerializedEntry, SerializedValue } from '../types';
+import { formatValue, isContainer } from '../utils/formatValue';
+
+interface ObjectInspectorProps {
+  value: SerializedValue;
+  defaultExpanded?: boolean;
+  // Renders the text of primitive values, e.g. to highlight search matches
+  renderText?: (text: string) => ReactNode;
+}
+
+const getValueColor = (value: SerializedValue) => {
+  switch (value.type) {
+    case 'string':
+      return 'text-syntax-string';
+    case 'number':
+    case 'bigint':
+      return 'text-syntax-number';
+    case 'boolean':
+    case 'symbol':
+      return 'text-syntax-keyword';
+    case 'undefined':
+    case 'null':
+    case 'getter':
+    case 'circular':
+      return 'text-gray-500';
+    case 'function':
+      return 'text-syntax-function italic';
+    case 'regexp':
+    case 'date':
+      return 'text-syntax-regexp';
+    case 'error':
+      return 'text-console-error';
+    default:
+      return 'text-theme-text';
+  }
+};
+
+const getEntryName = (entry: SerializedEntry): ReactNode => {
+  if (entry.key === undefined) return null;
+  if (typeof entry.key === 'string') {
+    return <><span className="text-syntax-property">{entry.key}</span>: </>;
+  }
+  return (
+    <>
+      <span className={getValueColor(entry.key)}>
+        {formatValue(entry.key, { nested: true })}
+      </span>
+      {' => '}
+    </>
+  );
+};
+
+interface ValueNodeProps {
+  name?: ReactNode;
+  value: SerializedValue;
+  nested: boolean;
+  defaultExpanded?: boolean;
+}
+
+function ValueNode({ name, value, nested, defaultExpanded = false }: ValueNodeProps) {
+  const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+
+  const entries = isContainer(value) ? value.entries : undefined;
+  const stack = value.type === 'error' && nested ? value.stack : undefined;
+  const isExpandable = (entries !== undefined && entries.length > 0) || !!stack;
+
+  const label = (
+    <>
+      {name}
+      <span className={isContainer(value) ? 'text-gray-300' : getValueColor(value)}>
+        {formatValue(value, { nested })}
+      </span>
+    </>
+  );
+
+  if (!isExpandable) {
+    return <div className="pl-3">{label}</div>;
+  }
+
+  return (
+    <div>
+      <div
+        className="cursor-pointer select-none hover:bg-theme-hover/50"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <span className="inline-block w-3 text-gray-500 text-xs">
+          {isExpanded ? '▼' : '▶'}
+        </span>
+        {label}
+      </div>
+
+      {/* Children are only rendered once expanded */}
+      {isExpanded && (
+        <div className="pl-4">
+          {stack && (
+            <div className="pl-3 text-console-error/80 whitespace-pre-wrap">{stack}</div>
+          )}
+          {entries?.map((entry, index) => (
+            <ValueNode
+              key={index}
+              name={getEntryName(entry)}
+              value={entry.value}
+              nested
+            />
+          ))}
+          {isContainer(value) && value.omitted !== undefined && (
+            <div className="pl-3 text-gray-500">… {value.omitted} more</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Collapsible DevTools-style view of a logged value.
+ */
+export function ObjectInspector({
+  value,
+  defaultExpanded,
+  renderText = (text) => text,
+}: ObjectInspectorProps) {
+  if (!isContainer(value)) {
+    return (
+      <span className={value.type === 'string' ? undefined : getValueColor(value)}>
+        {renderText(formatValue(value))}
+      </span>
+    );
+  }
+
+  return (
+    <div className="inline-block align-top -ml-3">
+      <ValueNode value={value} nested={false} defaultExpanded={defaultExpanded} />
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import type { PackageInfo } from '../types';
+
+interface PackageBarProps {
+  packages: PackageInfo[];
+  isInstalling: boolean;
+}
+
+// Strip under the editor listing the npm packages the tab imports
+export function PackageBar({ packages, isInstalling }: PackageBarProps) {
+  if (packages.length === 0 && !isInstalling) return null;
+
+  return (
+    <div className="flex items-center gap-3 px-3 h-7 border-t border-theme-border bg-theme-bg text-xs text-gray-500 overflow-x-auto whitespace-nowrap">
+      <span className="select-none">📦</span>
+      {packages.map((pkg) => (
+        <span key={pkg.name} title={`${pkg.name}@${pkg.version}`}>
+          <span className="text-theme-text">{pkg.name}</span>
+          <span className="ml-1">{pkg.version}</span>
+        </span>
+      ))}
+      {isInstalling && <span className="animate-pulse">Installing packages…</span>}
+    </div>
+  );
+}
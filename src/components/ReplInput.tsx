@@ -0,0 +1,133 @@
+import { useEffect, useRef } from 'react';
+import { EditorView, keymap, placeholder } from '@codemirror/view';
+import { Compartment, EditorState, Prec } from '@codemirror/state';
+import { minimalSetup } from 'codemirror';
+import { autocompletion, completionStatus } from '@codemirror/autocomplete';
+import { insertNewlineAndIndent } from '@codemirror/commands';
+import { javascript } from '@codemirror/lang-javascript';
+import { sessionCompletions } from '../extensions/repl';
+import { editorTheme } from '../extensions/theme';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { isIncompleteInput } from '../utils/instrument';
+import { isJsx, isTypeScript } from '../utils/language';
+import type { Language, Theme } from '../types';
+
+interface ReplInputProps {
+  language: Language;
+  theme: Theme;
+  onEvaluate: (input: string) => void;
+  getCompletions: (target: string) => Promise<string[]>;
+}
+
+const MAX_HISTORY = 100;
+
+const replTheme = EditorView.theme({
+  '&': { backgroundColor: 'transparent', maxHeight: '10rem' },
+  '&.cm-focused': { outline: 'none' },
+  '.cm-scroller': { fontFamily: 'inherit', lineHeight: 'inherit' },
+  '.cm-content': { padding: '0' },
+  '.cm-line': { padding: '0' },
+});
+
+/**
+ * Prompt under the console. Enter evaluates, unless the input is unfinished
+ * or Shift is held; Up and Down on the first and last line walk the history.
+ */
+export function ReplInput({ language, theme, onEvaluate, getCompletions }: ReplInputProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const themeCompartment = useRef(new Compartment());
+  const [history, setHistory] = usePersistentState<string[]>('replHistory', []);
+  // Read from the editor's key handlers, which are set up once
+  const propsRef = useRef({ language, theme, onEvaluate, getCompletions, history, setHistory });
+  propsRef.current = { language, theme, onEvaluate, getCompletions, history, setHistory };
+
+  useEffect(() => {
+    // Position in the history while browsing it, and the input it replaced
+    let historyIndex: number | null = null;
+    let draft = '';
+
+    const replaceInput = (view: EditorView, text: string) => {
+      view.dispatch({
+        changes: { from: 0, to: view.state.doc.length, insert: text },
+        selection: { anchor: text.length },
+      });
+    };
+
+    const submit = (view: EditorView) => {
+      const input = view.state.doc.toString();
+      const { language, onEvaluate, setHistory } = propsRef.current;
+      if (!input.trim()) return true;
+      if (isIncompleteInput(input, language)) return insertNewlineAndIndent(view);
+
+      setHistory(history =>
+        (history[history.length - 1] === input ? history : [...history, input]).slice(-MAX_HISTORY)
+      );
+      historyIndex = null;
+      replaceInput(view, '');
+      onEvaluate(input);
+      return true;
+    };
+
+    const browseHistory = (view: EditorView, direction: -1 | 1) => {
+      const { state } = view;
+      const line = state.doc.lineAt(state.selection.main.head);
+      const isAtEdge = direction === -1 ? line.number === 1 : line.number === state.doc.lines;
+      if (!isAtEdge || completionStatus(state) !== null) return false;
+
+      const { history } = propsRef.current;
+      const current = historyIndex ?? history.length;
+      const next = current + direction;
+      if (next < 0 || next > history.length) return true;
+
+      if (historyIndex === null) draft = state.doc.toString();
+      historyIndex = next === history.length ? null : next;
+      replaceInput(view, historyIndex === null ? draft : history[historyIndex]);
+      return true;
+    };
+
+    const view = new EditorView({
+      parent: containerRef.current!,
+      state: EditorState.create({
+        extensions: [
+          Prec.high(keymap.of([
+            { key: 'Enter', run: submit },
+            { key: 'Shift-Enter', run: insertNewlineAndIndent },
+            { key: 'ArrowUp', run: view => browseHistory(view, -1) },
+            { key: 'ArrowDown', run: view => browseHistory(view, 1) },
+          ])),
+          minimalSetup,
+          javascript({
+            typescript: isTypeScript(propsRef.current.language),
+            jsx: isJsx(propsRef.current.language),
+          }),
+          autocompletion({
+            override: [sessionCompletions(target => propsRef.current.getCompletions(target))],
+          }),
+          placeholder('Evaluate in the last run…'),
+          themeCompartment.current.of(editorTheme(propsRef.current.theme)),
+          replTheme,
+        ],
+      }),
+    });
+
+    viewRef.current = view;
+    return () => view.destroy();
+  }, [language]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: themeCompartment.current.reconfigure(editorTheme(theme)),
+    });
+  }, [theme]);
+
+  return (
+    <div
+      className="flex gap-2 px-4 py-2 border-t border-theme-border font-mono text-sm"
+      onClick={() => containerRef.current?.querySelector<HTMLElement>('.cm-content')?.focus()}
+    >
+      <span className="text-theme-accent select-none">›</span>
+      <div ref={containerRef} className="flex-1 min-w-0 overflow-auto" />
+    </div>
+  );
+}
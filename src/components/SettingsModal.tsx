@@ -1,27 +1,60 @@
 import { useEffect, useState } from 'react';
-import type { Settings } from '../types';
+import { DEFAULT_SETTINGS, EXECUTION_TIMEOUTS, LOG_LIMITS, TAB_LIMITS } from '../hooks/useSettings';
+import { KeybindingEditor } from './KeybindingEditor';
+import { CPU_LIMITS, HOST_GLOBALS, MEMORY_LIMITS } from '../utils/sandbox';
+import { canUseProcessRuntimes } from '../utils/processRuntime';
+import { PRINT_WIDTHS, TAB_WIDTHS } from '../utils/format';
+import { LINT_RULES } from '../utils/lint';
+import { applyKeybindings, findKeymapConflicts } from '../utils/keybindings';
+import { formatShortcut } from '../utils/shortcuts';
+import { BUILT_IN_THEMES, SYSTEM_THEME_ID } from '../utils/themes';
+import {
+  DEFAULT_FONT_FAMILY,
+  EDITOR_KEYMAPS,
+  MAX_FONT_SIZE,
+  MIN_FONT_SIZE,
+  TAB_SIZES,
+  clampFontSize,
+} from '../utils/editorOptions';
+import type { Command, EditorKeymap, EditorOptions, FormatOptions, LintRuleId, LintSeverity, SandboxPolicy, Settings, Theme } from '../types';
 
 interface SettingsModalProps {
   isOpen: boolean;
-  settings: Settings;
+  settings: Settings; // with the workspace's overrides
+  globalSettings: Settings;
+  overriddenCount: number; // settings the workspace overrides
+  workspaceName: string;
+  // Commands with their default shortcuts, before the user's keybindings
+  commands: Command[];
   onClose: () => void;
-  onUpdateSettings: (settings: Partial<Settings>) => void;
+  onUpdateGlobalSettings: (settings: Settings) => void;
+  // The workspace keeps the settings that differ from the global ones
+  onUpdateWorkspaceSettings: (settings: Settings) => void;
+  // Asks for a theme file; resolves to null when cancelled or invalid
+  onImportTheme: () => Promise<Theme | null>;
 }
 
 export function SettingsModal({
   isOpen,
   settings,
+  globalSettings,
+  overriddenCount,
+  workspaceName,
+  commands,
   onClose,
-  onUpdateSettings,
+  onUpdateGlobalSettings,
+  onUpdateWorkspaceSettings,
+  onImportTheme,
 }: SettingsModalProps) {
-  const [tempSettings, setTempSettings] = useState<Settings>(settings);
+  const [scope, setScope] = useState<'global' | 'workspace'>('global');
+  const [tempSettings, setTempSettings] = useState<Settings>(globalSettings);
 
-  // Sync temp settings when modal opens or settings change
+  // Sync temp settings when modal opens, the scope changes or settings change
   useEffect(() => {
     if (isOpen) {
-      setTempSettings(settings);
+      setTempSettings(scope === 'global' ? globalSettings : settings);
     }
-  }, [isOpen, settings]);
+  }, [isOpen, scope, settings, globalSettings]);
 
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
@@ -39,8 +72,57 @@ export function SettingsModal({
     };
   }, [isOpen, onClose]);
 
+  const updateSandbox = (updates: Partial<SandboxPolicy>) =>
+    setTempSettings({ ...tempSettings, sandbox: { ...tempSettings.sandbox, ...updates } });
+
+  const updateFormatOptions = (updates: Partial<FormatOptions>) =>
+    setTempSettings({ ...tempSettings, formatOptions: { ...tempSettings.formatOptions, ...updates } });
+
+  const updateEditor = (updates: Partial<EditorOptions>) =>
+    setTempSettings({ ...tempSettings, editor: { ...tempSettings.editor, ...updates } });
+
+  const setLintSeverity = (id: LintRuleId, severity: LintSeverity) =>
+    setTempSettings({ ...tempSettings, lintRules: { ...tempSettings.lintRules, [id]: severity } });
+
+  // App shortcuts the Vim or Emacs keymap uses too
+  const keymapConflicts = findKeymapConflicts(
+    tempSettings.editor.keymap,
+    applyKeybindings(commands, tempSettings.keybindings)
+  );
+
+  const toggleGlobal = (name: string, isAllowed: boolean) =>
+    updateSandbox({
+      allowedGlobals: isAllowed
+        ? [...tempSettings.sandbox.allowedGlobals, name]
+        : tempSettings.sandbox.allowedGlobals.filter(allowed => allowed !== name),
+    });
+
+  const importTheme = async () => {
+    const theme = await onImportTheme();
+    if (theme) {
+      setTempSettings(current => ({
+        ...current,
+        theme: theme.id,
+        customThemes: [...current.customThemes, theme],
+      }));
+    }
+  };
+
+  const removeTheme = (themeId: string) =>
+    setTempSettings({
+      ...tempSettings,
+      theme: DEFAULT_SETTINGS.theme,
+      customThemes: tempSettings.customThemes.filter(theme => theme.id !== themeId),
+    });
+
+  const isCustomTheme = tempSettings.customThemes.some(theme => theme.id === tempSettings.theme);
+
   const handleApply = () => {
-    onUpdateSettings(tempSettings);
+    if (scope === 'global') {
+      onUpdateGlobalSettings(tempSettings);
+    } else {
+      onUpdateWorkspaceSettings(tempSettings);
+    }
     onClose();
   };
 
@@ -52,12 +134,187 @@ export function SettingsModal({
       onClick={onClose}
     >
       <div
-        className="bg-dark-bg border border-dark-border rounded-lg p-6 w-[500px] max-w-[90vw]"
+        className="bg-theme-bg border border-theme-border rounded-lg p-6 w-[640px] max-w-[90vw] max-h-[90vh] overflow-auto"
         onClick={(e) => e.stopPropagation()}
       >
         <h2 className="text-xl font-semibold mb-4">Settings</h2>
 
+        <div className="mb-6">
+          <div className="flex rounded border border-theme-border overflow-hidden text-sm">
+            {(['global', 'workspace'] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setScope(option)}
+                className={`flex-1 px-3 py-1.5 truncate ${
+                  scope === option ? 'bg-theme-hover text-theme-text' : 'text-gray-400 hover:text-theme-text'
+                }`}
+              >
+                {option === 'global' ? 'All Workspaces' : `Workspace: ${workspaceName}`}
+              </button>
+            ))}
+          </div>
+          <div className="mt-2 flex items-center gap-2 text-xs text-gray-500">
+            <span className="flex-1">
+              {scope === 'global'
+                ? overriddenCount > 0 &&
+                  `${overriddenCount} setting${overriddenCount === 1 ? ' is' : 's are'} overridden in "${workspaceName}".`
+                : 'Settings that differ from All Workspaces apply to this workspace only.'}
+            </span>
+            {scope === 'workspace' && (
+              <button
+                onClick={() => setTempSettings(globalSettings)}
+                className="px-2 py-1 rounded hover:bg-theme-hover hover:text-theme-text"
+              >
+                Reset to All Workspaces
+              </button>
+            )}
+          </div>
+        </div>
+
         <div className="space-y-6">
+          {/* Theme */}
+          <div>
+            <h3 className="text-sm font-medium mb-2">Theme</h3>
+            <div className="flex gap-2">
+              <select
+                value={tempSettings.theme}
+                onChange={(e) => setTempSettings({ ...tempSettings, theme: e.target.value })}
+                className="flex-1 bg-theme-hover border border-theme-border rounded px-3 py-2 text-sm"
+              >
+                <option value={SYSTEM_THEME_ID}>Follow System</option>
+                {BUILT_IN_THEMES.map((theme) => (
+                  <option key={theme.id} value={theme.id}>{theme.name}</option>
+                ))}
+                {tempSettings.customThemes.length > 0 && (
+                  <optgroup label="Imported">
+                    {tempSettings.customThemes.map((theme) => (
+                      <option key={theme.id} value={theme.id}>{theme.name}</option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+              {isCustomTheme && (
+                <button
+                  onClick={() => removeTheme(tempSettings.theme)}
+                  className="px-3 py-2 bg-theme-hover hover:bg-theme-border rounded text-sm"
+                >
+                  Remove
+                </button>
+              )}
+              <button
+                onClick={importTheme}
+                className="px-3 py-2 bg-theme-hover hover:bg-theme-border rounded text-sm"
+              >
+                Import…
+              </button>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              Import a JSPad theme or a VS Code color theme (.json).
+            </p>
+          </div>
+
+          {/* Editor */}
+          <div>
+            <h3 className="text-sm font-medium mb-2">Editor</h3>
+            <div className="space-y-3">
+              <div className="flex gap-3">
+                <label className="flex-[3]">
+                  <div className="text-xs text-gray-400 mb-1">Font</div>
+                  <input
+                    type="text"
+                    value={tempSettings.editor.fontFamily}
+                    onChange={(e) => updateEditor({ fontFamily: e.target.value })}
+                    placeholder={DEFAULT_FONT_FAMILY}
+                    className="w-full bg-theme-hover border border-theme-border rounded px-3 py-2 text-sm outline-none focus:border-theme-accent"
+                  />
+                </label>
+                <label className="flex-1">
+                  <div className="text-xs text-gray-400 mb-1">Size</div>
+                  <input
+                    type="number"
+                    min={MIN_FONT_SIZE}
+                    max={MAX_FONT_SIZE}
+                    value={tempSettings.editor.fontSize}
+                    onChange={(e) => {
+                      if (e.target.value) updateEditor({ fontSize: clampFontSize(Number(e.target.value)) });
+                    }}
+                    className="w-full bg-theme-hover border border-theme-border rounded px-3 py-2 text-sm outline-none focus:border-theme-accent"
+                  />
+                </label>
+              </div>
+
+              <div className="flex gap-3">
+                <label className="flex-1">
+                  <div className="text-xs text-gray-400 mb-1">Indent with</div>
+                  <select
+                    value={tempSettings.editor.insertSpaces ? 'spaces' : 'tabs'}
+                    onChange={(e) => updateEditor({ insertSpaces: e.target.value === 'spaces' })}
+                    className="w-full bg-theme-hover border border-theme-border rounded px-3 py-2 text-sm"
+                  >
+                    <option value="spaces">Spaces</option>
+                    <option value="tabs">Tabs</option>
+                  </select>
+                </label>
+                <label className="flex-1">
+                  <div className="text-xs text-gray-400 mb-1">Tab width</div>
+                  <select
+                    value={tempSettings.editor.tabSize}
+                    onChange={(e) => updateEditor({ tabSize: parseInt(e.target.value, 10) })}
+                    className="w-full bg-theme-hover border border-theme-border rounded px-3 py-2 text-sm"
+                  >
+                    {TAB_SIZES.map((size) => (
+                      <option key={size} value={size}>{size} columns</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex-1">
+                  <div className="text-xs text-gray-400 mb-1">Keymap</div>
+                  <select
+                    value={tempSettings.editor.keymap}
+                    onChange={(e) => updateEditor({ keymap: e.target.value as EditorKeymap })}
+                    className="w-full bg-theme-hover border border-theme-border rounded px-3 py-2 text-sm"
+                  >
+                    {EDITOR_KEYMAPS.map(({ id, name }) => (
+                      <option key={id} value={id}>{name}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              {keymapConflicts.length > 0 && (
+                <p className="text-xs text-gray-500">
+                  {tempSettings.editor.keymap === 'vim'
+                    ? 'In the editor, Vim keys take over these shortcuts: '
+                    : 'In the editor, these shortcuts also run Emacs commands: '}
+                  {keymapConflicts
+                    .map(command => `${command.title} (${command.shortcuts!.map(formatShortcut).join(', ')})`)
+                    .join(', ')}
+                </p>
+              )}
+
+              <div className="grid grid-cols-2 gap-1">
+                {([
+                  ['wordWrap', 'Word wrap'],
+                  ['lineNumbers', 'Line numbers'],
+                  ['minimap', 'Minimap'],
+                  ['bracketColors', 'Bracket pair colors'],
+                ] as const).map(([key, label]) => (
+                  <label key={key} className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={tempSettings.editor[key]}
+                      onChange={(e) => updateEditor({ [key]: e.target.checked })}
+                      className="w-4 h-4"
+                    />
+                    <span className="text-sm">{label}</span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">
+                Change the font size from the keyboard with Cmd/Ctrl + and −, and reset it with Cmd/Ctrl 0.
+              </p>
+            </div>
+          </div>
+
           {/* Execution Mode */}
           <div>
             <h3 className="text-sm font-medium mb-2">Execution Mode</h3>
@@ -88,7 +345,7 @@ export function SettingsModal({
                     autoExecuteDelay: parseInt(e.target.value, 10),
                   })
                 }
-                className="w-full bg-dark-hover border border-dark-border rounded px-3 py-2 text-sm"
+                className="w-full bg-theme-hover border border-theme-border rounded px-3 py-2 text-sm"
               >
                 <option value={500}>0.5 seconds</option>
                 <option value={1000}>1 second</option>
@@ -109,38 +366,251 @@ export function SettingsModal({
                   executionTimeout: parseInt(e.target.value, 10),
                 })
               }
-              className="w-full bg-dark-hover border border-dark-border rounded px-3 py-2 text-sm"
+              className="w-full bg-theme-hover border border-theme-border rounded px-3 py-2 text-sm"
             >
-              <option value={3000}>3 seconds</option>
-              <option value={5000}>5 seconds</option>
-              <option value={10000}>10 seconds</option>
-              <option value={30000}>30 seconds</option>
+              {EXECUTION_TIMEOUTS.map((timeout) => (
+                <option key={timeout} value={timeout}>{timeout / 1000} seconds</option>
+              ))}
             </select>
           </div>
 
+          {/* Console Limit */}
+          <div>
+            <h3 className="text-sm font-medium mb-2">Console Limit</h3>
+            <select
+              value={tempSettings.maxLogs}
+              onChange={(e) =>
+                setTempSettings({
+                  ...tempSettings,
+                  maxLogs: parseInt(e.target.value, 10),
+                })
+              }
+              className="w-full bg-theme-hover border border-theme-border rounded px-3 py-2 text-sm"
+            >
+              {LOG_LIMITS.map((limit) => (
+                <option key={limit} value={limit}>{limit.toLocaleString()} messages per run</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Tab Limit */}
+          <div>
+            <h3 className="text-sm font-medium mb-2">Tab Limit</h3>
+            <select
+              value={tempSettings.maxTabs}
+              onChange={(e) =>
+                setTempSettings({
+                  ...tempSettings,
+                  maxTabs: parseInt(e.target.value, 10),
+                })
+              }
+              className="w-full bg-theme-hover border border-theme-border rounded px-3 py-2 text-sm"
+            >
+              {TAB_LIMITS.map((limit) => (
+                <option key={limit} value={limit}>{limit} tabs per workspace</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Formatting */}
+          <div>
+            <h3 className="text-sm font-medium mb-2">Formatting</h3>
+            <div className="space-y-3">
+              <div className="flex gap-3">
+                <label className="flex-1">
+                  <div className="text-xs text-gray-400 mb-1">Line width</div>
+                  <select
+                    value={tempSettings.formatOptions.printWidth}
+                    onChange={(e) => updateFormatOptions({ printWidth: parseInt(e.target.value, 10) })}
+                    className="w-full bg-theme-hover border border-theme-border rounded px-3 py-2 text-sm"
+                  >
+                    {PRINT_WIDTHS.map((width) => (
+                      <option key={width} value={width}>{width} characters</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex-1">
+                  <div className="text-xs text-gray-400 mb-1">Indent</div>
+                  <select
+                    value={tempSettings.formatOptions.tabWidth}
+                    onChange={(e) => updateFormatOptions({ tabWidth: parseInt(e.target.value, 10) })}
+                    className="w-full bg-theme-hover border border-theme-border rounded px-3 py-2 text-sm"
+                  >
+                    {TAB_WIDTHS.map((width) => (
+                      <option key={width} value={width}>{width} spaces</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex-1">
+                  <div className="text-xs text-gray-400 mb-1">Trailing commas</div>
+                  <select
+                    value={tempSettings.formatOptions.trailingComma}
+                    onChange={(e) => updateFormatOptions({ trailingComma: e.target.value as FormatOptions['trailingComma'] })}
+                    className="w-full bg-theme-hover border border-theme-border rounded px-3 py-2 text-sm"
+                  >
+                    <option value="all">All</option>
+                    <option value="es5">ES5</option>
+                    <option value="none">None</option>
+                  </select>
+                </label>
+              </div>
+
+              <div className="grid grid-cols-2 gap-1">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={tempSettings.formatOptions.semi}
+                    onChange={(e) => updateFormatOptions({ semi: e.target.checked })}
+                    className="w-4 h-4"
+                  />
+                  <span className="text-sm">Semicolons</span>
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={tempSettings.formatOptions.singleQuote}
+                    onChange={(e) => updateFormatOptions({ singleQuote: e.target.checked })}
+                    className="w-4 h-4"
+                  />
+                  <span className="text-sm">Single quotes</span>
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={tempSettings.formatOnSave}
+                    onChange={(e) => setTempSettings({ ...tempSettings, formatOnSave: e.target.checked })}
+                    className="w-4 h-4"
+                  />
+                  <span className="text-sm">Format on save</span>
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={tempSettings.formatOnRun}
+                    onChange={(e) => setTempSettings({ ...tempSettings, formatOnRun: e.target.checked })}
+                    className="w-4 h-4"
+                  />
+                  <span className="text-sm">Format on run</span>
+                </label>
+              </div>
+            </div>
+          </div>
+
+          {/* Linting */}
+          <div>
+            <h3 className="text-sm font-medium mb-2">Linting</h3>
+            <div className="space-y-2">
+              {LINT_RULES.map(({ id, description }) => (
+                <div key={id} className="flex items-center gap-3">
+                  <div className="flex-1">
+                    <div className="text-sm font-mono">{id}</div>
+                    <div className="text-xs text-gray-500">{description}</div>
+                  </div>
+                  <select
+                    value={tempSettings.lintRules[id]}
+                    onChange={(e) => setLintSeverity(id, e.target.value as LintSeverity)}
+                    className="bg-theme-hover border border-theme-border rounded px-3 py-1 text-sm"
+                  >
+                    <option value="off">Off</option>
+                    <option value="warning">Warning</option>
+                    <option value="error">Error</option>
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Sandbox */}
+          <div>
+            <h3 className="text-sm font-medium mb-2">Sandbox</h3>
+            <div className="space-y-3">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={tempSettings.sandbox.allowNetwork}
+                  onChange={(e) => updateSandbox({ allowNetwork: e.target.checked })}
+                  className="w-4 h-4"
+                />
+                <span className="text-sm">Allow network access (fetch, XMLHttpRequest, WebSocket)</span>
+              </label>
+
+              <div>
+                <div className="text-xs text-gray-400 mb-1">Allowed worker APIs</div>
+                <div className="grid grid-cols-2 gap-1">
+                  {HOST_GLOBALS.map(({ name, description }) => (
+                    <label key={name} className="flex items-center gap-2 cursor-pointer" title={description}>
+                      <input
+                        type="checkbox"
+                        checked={tempSettings.sandbox.allowedGlobals.includes(name)}
+                        onChange={(e) => toggleGlobal(name, e.target.checked)}
+                        className="w-4 h-4"
+                      />
+                      <span className="text-sm font-mono">{name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex gap-3">
+                <label className="flex-1">
+                  <div className="text-xs text-gray-400 mb-1">CPU limit (per loop without yielding)</div>
+                  <select
+                    value={tempSettings.sandbox.cpuLimit}
+                    onChange={(e) => updateSandbox({ cpuLimit: parseInt(e.target.value, 10) })}
+                    className="w-full bg-theme-hover border border-theme-border rounded px-3 py-2 text-sm"
+                  >
+                    {CPU_LIMITS.map((limit) => (
+                      <option key={limit} value={limit}>{limit / 1000} seconds</option>
+                    ))}
+                  </select>
+                </label>
+                {/* Browser workers can't see their heap size, so only Node has one */}
+                {canUseProcessRuntimes && (
+                  <label className="flex-1">
+                    <div className="text-xs text-gray-400 mb-1">Memory limit (Node)</div>
+                    <select
+                      value={tempSettings.sandbox.memoryLimit}
+                      onChange={(e) => updateSandbox({ memoryLimit: parseInt(e.target.value, 10) })}
+                      className="w-full bg-theme-hover border border-theme-border rounded px-3 py-2 text-sm"
+                    >
+                      {MEMORY_LIMITS.map((limit) => (
+                        <option key={limit} value={limit}>{limit === 0 ? 'No limit' : `${limit} MB`}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+              </div>
+              {canUseProcessRuntimes && (
+                <p className="text-xs text-gray-500">
+                  Node and Bun runs have full access to your system; only the CPU limit, and in Node
+                  the memory limit, apply to them.
+                </p>
+              )}
+            </div>
+          </div>
+
           {/* Keyboard Shortcuts */}
           <div>
             <h3 className="text-sm font-medium mb-2">Keyboard Shortcuts</h3>
-            <div className="text-xs space-y-1 text-gray-400 font-mono">
-              <div>⌘+T - New tab</div>
-              <div>⌘+W - Close tab</div>
-              <div>⌘+1~9 - Jump to nth tab</div>
-              <div>⌘+R / ⌘+S - Run code</div>
-              <div>⌘+, - Open settings</div>
-            </div>
+            <KeybindingEditor
+              commands={commands}
+              keybindings={tempSettings.keybindings}
+              keymap={tempSettings.editor.keymap}
+              onChange={(keybindings) => setTempSettings({ ...tempSettings, keybindings })}
+            />
           </div>
         </div>
 
         <div className="mt-6 flex justify-end gap-2">
           <button
             onClick={onClose}
-            className="px-4 py-2 bg-dark-hover hover:bg-dark-border rounded text-sm font-medium"
+            className="px-4 py-2 bg-theme-hover hover:bg-theme-border rounded text-sm font-medium"
           >
             Cancel
           </button>
           <button
             onClick={handleApply}
-            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm font-medium"
+            className="px-4 py-2 bg-theme-accent hover:bg-theme-accent/80 text-theme-bg rounded text-sm font-medium"
           >
             Apply
           </button>
@@ -0,0 +1,267 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { fuzzyFilter } from '../utils/fuzzy';
+import { LANGUAGES } from '../utils/language';
+import type { NewSnippet } from '../hooks/useSnippets';
+import type { Language, Snippet } from '../types';
+
+interface SnippetPanelProps {
+  snippets: Snippet[];
+  // What "Save tab" and "Save selection" would save
+  tabName: string;
+  tabCode: string;
+  language: Language;
+  selection: string;
+  canOpenTab: boolean;
+  onSave: (snippet: NewSnippet) => void;
+  onUpdate: (id: string, updates: Partial<NewSnippet>) => void;
+  onDelete: (id: string) => void;
+  onInsert: (snippet: Snippet) => void;
+  onOpenInTab: (snippet: Snippet) => void;
+  onImport: (json: string) => number;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+// The snippet being created or edited
+interface Draft {
+  id?: string;
+  name: string;
+  tags: string;
+  code: string;
+  language: Language;
+}
+
+const parseTags = (tags: string) =>
+  tags.split(',').map(tag => tag.trim()).filter(Boolean);
+
+const firstLine = (code: string) => code.trim().split('\n')[0].slice(0, 40);
+
+export function SnippetPanel({
+  snippets,
+  tabName,
+  tabCode,
+  language,
+  selection,
+  canOpenTab,
+  onSave,
+  onUpdate,
+  onDelete,
+  onInsert,
+  onOpenInTab,
+  onImport,
+  onExport,
+  onClose,
+}: SnippetPanelProps) {
+  const [query, setQuery] = useState('');
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const searchRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    searchRef.current?.focus();
+  }, []);
+
+  const results = useMemo(
+    () => fuzzyFilter(snippets, query, (snippet) => [
+      { text: snippet.name, weight: 3 },
+      ...snippet.tags.map(tag => ({ text: tag, weight: 2 })),
+      { text: snippet.code },
+    ]),
+    [snippets, query]
+  );
+
+  const handleSaveDraft = () => {
+    if (!draft || !draft.name.trim()) return;
+    const snippet = {
+      name: draft.name.trim(),
+      tags: parseTags(draft.tags),
+      code: draft.code,
+      language: draft.language,
+    };
+    if (draft.id) {
+      onUpdate(draft.id, { name: snippet.name, tags: snippet.tags });
+    } else {
+      onSave(snippet);
+    }
+    setDraft(null);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const count = onImport(await file.text());
+      setStatus(`Imported ${count} snippet${count === 1 ? '' : 's'}`);
+    } catch (error) {
+      setStatus(`Import failed: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="w-72 h-full flex flex-col border-l border-theme-border bg-theme-bg text-sm">
+      <div className="h-9 px-3 flex items-center justify-between border-b border-theme-border">
+        <span className="font-semibold">Snippets</span>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-theme-text"
+          title="Close snippets (Cmd+B)"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="p-2 space-y-2 border-b border-theme-border">
+        <input
+          ref={searchRef}
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && results[0]) onInsert(results[0]);
+          }}
+          placeholder="Search snippets…"
+          className="w-full px-2 py-1 bg-theme-hover border border-theme-border rounded outline-none focus:border-theme-accent"
+        />
+        <div className="flex gap-2">
+          <button
+            onClick={() => setDraft({ name: tabName, tags: '', code: tabCode, language })}
+            disabled={!tabCode.trim()}
+            className="flex-1 px-2 py-1 rounded bg-theme-hover hover:bg-theme-border disabled:opacity-50"
+          >
+            Save tab
+          </button>
+          <button
+            onClick={() => setDraft({ name: firstLine(selection), tags: '', code: selection, language })}
+            disabled={!selection.trim()}
+            className="flex-1 px-2 py-1 rounded bg-theme-hover hover:bg-theme-border disabled:opacity-50"
+          >
+            Save selection
+          </button>
+        </div>
+      </div>
+
+      {draft && (
+        <div className="p-2 space-y-2 border-b border-theme-border">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            onKeyDown={(e) => e.key === 'Enter' && handleSaveDraft()}
+            placeholder="Name"
+            autoFocus
+            className="w-full px-2 py-1 bg-theme-hover border border-theme-border rounded outline-none focus:border-theme-accent"
+          />
+          <input
+            type="text"
+            value={draft.tags}
+            onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+            onKeyDown={(e) => e.key === 'Enter' && handleSaveDraft()}
+            placeholder="Tags, comma separated"
+            className="w-full px-2 py-1 bg-theme-hover border border-theme-border rounded outline-none focus:border-theme-accent"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setDraft(null)}
+              className="px-3 py-1 rounded hover:bg-theme-hover"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSaveDraft}
+              disabled={!draft.name.trim()}
+              className="px-3 py-1 rounded bg-theme-accent hover:bg-theme-accent/80 text-theme-bg disabled:opacity-50"
+            >
+              {draft.id ? 'Update' : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto">
+        {results.length === 0 && (
+          <div className="p-3 text-gray-500">
+            {snippets.length === 0 ? 'No snippets yet.' : 'No matching snippets.'}
+          </div>
+        )}
+        {results.map((snippet) => (
+          <div key={snippet.id} className="group p-2 border-b border-theme-border hover:bg-theme-hover/50">
+            <div className="flex items-center gap-2">
+              <span className="flex-1 truncate font-medium" title={snippet.name}>{snippet.name}</span>
+              <span className="text-xs text-gray-500">
+                {LANGUAGES.find(({ id }) => id === snippet.language)?.label}
+              </span>
+            </div>
+            {snippet.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {snippet.tags.map(tag => (
+                  <span key={tag} className="px-1.5 rounded bg-theme-hover text-xs text-gray-400">{tag}</span>
+                ))}
+              </div>
+            )}
+            <pre className="mt-1 text-xs text-gray-500 font-mono overflow-hidden max-h-8 whitespace-pre">
+              {snippet.code}
+            </pre>
+            <div className="flex gap-2 mt-1 text-xs opacity-0 group-hover:opacity-100">
+              <button onClick={() => onInsert(snippet)} className="text-theme-accent hover:underline">
+                Insert
+              </button>
+              <button
+                onClick={() => onOpenInTab(snippet)}
+                disabled={!canOpenTab}
+                className="text-theme-accent hover:underline disabled:text-gray-600 disabled:no-underline"
+                title={canOpenTab ? undefined : 'Maximum tabs reached'}
+              >
+                Open in tab
+              </button>
+              <button
+                onClick={() => setDraft({
+                  id: snippet.id,
+                  name: snippet.name,
+                  tags: snippet.tags.join(', '),
+                  code: snippet.code,
+                  language: snippet.language,
+                })}
+                className="text-gray-400 hover:underline"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => onDelete(snippet.id)}
+                className="ml-auto text-gray-400 hover:text-console-error"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-2 border-t border-theme-border flex items-center gap-2 text-xs">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-2 py-1 rounded hover:bg-theme-hover text-gray-400 hover:text-theme-text"
+        >
+          Import…
+        </button>
+        <button
+          onClick={onExport}
+          disabled={snippets.length === 0}
+          className="px-2 py-1 rounded hover:bg-theme-hover text-gray-400 hover:text-theme-text disabled:opacity-50"
+        >
+          Export…
+        </button>
+        {status && <span className="truncate text-gray-500" title={status}>{status}</span>}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { dismissRecoveredTabs, flushWrites } from '../utils/storage';
+import { useStorageStatus } from '../hooks/useStorageStatus';
+
+// Shown when changes aren't being saved, or unsaved code was recovered
+export function StorageBanner() {
+  const { error, recoveredTabs } = useStorageStatus();
+
+  if (error) {
+    return (
+      <div className="px-3 py-1.5 flex items-center gap-3 bg-console-error/15 border-b border-console-error/40 text-sm text-console-error">
+        <span className="flex-1">{error}</span>
+        <button onClick={() => flushWrites()} className="px-2 rounded hover:bg-console-error/20">
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  if (recoveredTabs.length > 0) {
+    return (
+      <div className="px-3 py-1.5 flex items-center gap-3 bg-console-info/15 border-b border-console-info/40 text-sm text-console-info">
+        <span className="flex-1">
+          Recovered unsaved changes in {recoveredTabs.map(name => `“${name}”`).join(', ')}.
+        </span>
+        <button onClick={dismissRecoveredTabs} className="px-2 rounded hover:bg-console-info/20">
+          Dismiss
+        </button>
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -1,35 +1,108 @@
-import { useState, useRef, useEffect } from 'react';
-import type { Tab } from '../types';
+import { useState, useRef, useEffect, useCallback, useLayoutEffect, type ReactNode } from 'react';
+import { ContextMenu, type ContextMenuItem } from './ContextMenu';
+import { LANGUAGES } from '../utils/language';
+import { RUNTIMES } from '../utils/processRuntime';
+import type { Language, Runtime, Tab } from '../types';
 
 interface TabBarProps {
+  workspaceSwitcher?: ReactNode; // shown before the tabs
   tabs: Tab[];
   activeTabId: string;
   canCreateTab: boolean;
+  maxTabs: number;
   onTabClick: (tabId: string) => void;
   onTabClose: (tabId: string) => void;
+  onCloseOtherTabs: (tabId: string) => void;
+  onCloseTabsToRight: (tabId: string) => void;
+  canReopenTab: boolean;
+  onReopenClosedTab: () => void;
+  onTabDuplicate: (tabId: string) => void;
+  onTabPin: (tabId: string, isPinned: boolean) => void;
   onTabCreate: () => void;
+  onOpenFile?: () => void; // only where files can be opened
   onTabRename: (tabId: string, name: string) => void;
+  // Starts renaming this tab; pass a new object to rename again
+  renameRequest?: { tabId: string } | null;
   onTabReorder: (fromIndex: number, toIndex: number) => void;
   onSettings: () => void;
+  isSnippetsOpen?: boolean;
+  onToggleSnippets?: () => void;
+  isHistoryOpen?: boolean;
+  onToggleHistory?: () => void;
+  onShare?: () => Promise<boolean>; // resolves to whether the link was copied
   autoExecute?: boolean;
+  language: Language;
+  onLanguageChange: (language: Language) => void;
+  runtime: Runtime;
+  onRuntimeChange?: (runtime: Runtime) => void; // only where Node and Bun can run
   onRun?: () => void;
+  isRunning?: boolean;
+  onStop?: () => void;
 }
 
 export function TabBar({
+  workspaceSwitcher,
   tabs,
   activeTabId,
   canCreateTab,
+  maxTabs,
   onTabClick,
   onTabClose,
+  onCloseOtherTabs,
+  onCloseTabsToRight,
+  canReopenTab,
+  onReopenClosedTab,
+  onTabDuplicate,
+  onTabPin,
   onTabCreate,
+  onOpenFile,
   onTabRename,
+  renameRequest,
+  onTabReorder,
   onSettings,
+  isSnippetsOpen = false,
+  onToggleSnippets,
+  isHistoryOpen = false,
+  onToggleHistory,
+  onShare,
   autoExecute = true,
+  language,
+  onLanguageChange,
+  runtime,
+  onRuntimeChange,
   onRun,
+  isRunning = false,
+  onStop,
 }: TabBarProps) {
   const [editingTabId, setEditingTabId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState('');
   const inputRef = useRef<HTMLInputElement>(null);
+  const [hasCopiedLink, setHasCopiedLink] = useState(false);
+  const [menu, setMenu] = useState<{ tabId: string; x: number; y: number } | null>(null);
+  // The tab being dragged, and the gap it would be dropped into: 0 is before
+  // the first tab, tabs.length after the last
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const stripRef = useRef<HTMLDivElement>(null);
+  const [isOverflowing, setIsOverflowing] = useState(false);
+
+  const closeMenu = useCallback(() => setMenu(null), []);
+
+  useLayoutEffect(() => {
+    const strip = stripRef.current;
+    if (!strip) return;
+    const update = () => setIsOverflowing(strip.scrollWidth > strip.clientWidth);
+    const observer = new ResizeObserver(update);
+    observer.observe(strip);
+    update();
+    return () => observer.disconnect();
+  }, [tabs.length]);
+
+  useEffect(() => {
+    stripRef.current
+      ?.querySelector(`[data-tab-id="${activeTabId}"]`)
+      ?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [activeTabId, tabs.length]);
 
   useEffect(() => {
     if (editingTabId && inputRef.current) {
@@ -38,11 +111,17 @@ export function TabBar({
     }
   }, [editingTabId]);
 
-  const handleDoubleClick = (tab: Tab) => {
+  const startRenaming = (tab: Tab) => {
     setEditingTabId(tab.id);
     setEditingName(tab.name);
   };
 
+  // Only a new request starts renaming, not changes to the tabs
+  useEffect(() => {
+    const tab = renameRequest && tabs.find(t => t.id === renameRequest.tabId);
+    if (tab) startRenaming(tab);
+  }, [renameRequest]);
+
   const handleKeyDown = (e: React.KeyboardEvent, tabId: string) => {
     if (e.key === 'Enter') {
       onTabRename(tabId, editingName);
@@ -59,81 +138,310 @@ export function TabBar({
     setEditingTabId(null);
   };
 
+  const handleDrop = () => {
+    if (dragIndex !== null && dropIndex !== null) {
+      // Removing the tab first shifts the gaps after it left by one
+      onTabReorder(dragIndex, dropIndex > dragIndex ? dropIndex - 1 : dropIndex);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  // Keyboard equivalents of clicking, dragging and right-clicking a tab
+  const handleTabKeyDown = (e: React.KeyboardEvent<HTMLDivElement>, tab: Tab, index: number) => {
+    if (editingTabId === tab.id) return;
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      onTabClick(tab.id);
+    } else if (e.altKey && e.shiftKey && (e.key === 'ArrowLeft' || e.key === 'ArrowRight')) {
+      e.preventDefault();
+      onTabReorder(index, index + (e.key === 'ArrowLeft' ? -1 : 1));
+    } else if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      e.preventDefault();
+      const tabElements = stripRef.current?.querySelectorAll<HTMLElement>('[data-tab-id]');
+      tabElements?.[index + (e.key === 'ArrowLeft' ? -1 : 1)]?.focus();
+    } else if (e.key === 'ContextMenu' || (e.shiftKey && e.key === 'F10')) {
+      e.preventDefault();
+      const rect = e.currentTarget.getBoundingClientRect();
+      setMenu({ tabId: tab.id, x: rect.left, y: rect.bottom });
+    }
+  };
+
+  const getMenuItems = (tabId: string): ContextMenuItem[] => {
+    const index = tabs.findIndex(tab => tab.id === tabId);
+    const tab = tabs[index];
+    if (!tab) return [];
+    return [
+      { label: tab.isPinned ? 'Unpin' : 'Pin', onSelect: () => onTabPin(tab.id, !tab.isPinned) },
+      { label: 'Rename', onSelect: () => startRenaming(tab) },
+      { label: 'Duplicate', onSelect: () => onTabDuplicate(tab.id), isEnabled: canCreateTab },
+      'separator',
+      { label: 'Close', onSelect: () => onTabClose(tab.id), isEnabled: tabs.length > 1 },
+      {
+        label: 'Close Others',
+        onSelect: () => onCloseOtherTabs(tab.id),
+        isEnabled: tabs.some(other => other.id !== tab.id && !other.isPinned),
+      },
+      {
+        label: 'Close to the Right',
+        onSelect: () => onCloseTabsToRight(tab.id),
+        isEnabled: tabs.slice(index + 1).some(other => !other.isPinned),
+      },
+      'separator',
+      { label: 'Reopen Closed Tab', onSelect: onReopenClosedTab, isEnabled: canReopenTab },
+    ];
+  };
+
   return (
-    <div className="h-10 bg-dark-bg border-b border-dark-border flex items-center px-2 gap-1">
-      {tabs.map((tab) => (
+    <div className="h-10 bg-theme-bg border-b border-theme-border flex items-center px-2 gap-1">
+      {workspaceSwitcher}
+      <div
+        ref={stripRef}
+        role="tablist"
+        className="min-w-0 flex items-center gap-1 overflow-x-auto scrollbar-none"
+        onWheel={(e) => {
+          // Lets a vertical wheel scroll the tabs sideways
+          if (e.deltaX === 0) e.currentTarget.scrollLeft += e.deltaY;
+        }}
+      >
+        {tabs.map((tab, index) => (
+          <div
+            key={tab.id}
+            data-tab-id={tab.id}
+            role="tab"
+            aria-selected={tab.id === activeTabId}
+            tabIndex={tab.id === activeTabId ? 0 : -1}
+            draggable={editingTabId !== tab.id}
+            className={`
+              group relative h-8 shrink-0 rounded flex items-center gap-2 cursor-pointer outline-none
+              focus-visible:ring-1 focus-visible:ring-theme-accent
+              ${tab.isPinned ? 'px-2' : 'px-3'}
+              ${tab.id === activeTabId
+                ? 'bg-theme-hover text-theme-text'
+                : 'text-gray-400 hover:text-theme-text hover:bg-theme-hover/50'
+              }
+              ${dragIndex === index ? 'opacity-50' : ''}
+              ${dropIndex === index && dragIndex !== null ? 'shadow-[inset_2px_0_0_rgb(var(--theme-accent))]' : ''}
+              ${dropIndex === index + 1 && index === tabs.length - 1 && dragIndex !== null ? 'shadow-[inset_-2px_0_0_rgb(var(--theme-accent))]' : ''}
+            `}
+            onClick={() => onTabClick(tab.id)}
+            onDoubleClick={() => startRenaming(tab)}
+            onKeyDown={(e) => handleTabKeyDown(e, tab, index)}
+            onContextMenu={(e) => {
+              e.preventDefault();
+              setMenu({ tabId: tab.id, x: e.clientX, y: e.clientY });
+            }}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              e.dataTransfer.setData('text/plain', tab.name);
+              setDragIndex(index);
+            }}
+            onDragOver={(e) => {
+              if (dragIndex === null) return;
+              e.preventDefault();
+              const rect = e.currentTarget.getBoundingClientRect();
+              setDropIndex(e.clientX < rect.left + rect.width / 2 ? index : index + 1);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop();
+            }}
+            onDragEnd={() => {
+              setDragIndex(null);
+              setDropIndex(null);
+            }}
+            title={tab.filePath ?? (tab.isPinned ? `${tab.name} (pinned)` : undefined)}
+          >
+            {tab.isPinned && <span className="text-xs" aria-label="Pinned">📌</span>}
+            {editingTabId === tab.id ? (
+              <input
+                ref={inputRef}
+                type="text"
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                onKeyDown={(e) => handleKeyDown(e, tab.id)}
+                onBlur={() => handleBlur(tab.id)}
+                className="bg-transparent outline-none w-24 text-sm"
+              />
+            ) : (
+              <span className="text-sm select-none">{tab.name}</span>
+            )}
+
+            {isRunning && tab.id === activeTabId && (
+              <span
+                className="w-2 h-2 rounded-full bg-theme-success animate-pulse"
+                title="Running"
+              />
+            )}
+
+            {/* Unsaved file tabs show a dot that turns into the close button on hover */}
+            {tab.isDirty && (
+              <span
+                className={`text-xs ${tabs.length > 1 && !tab.isPinned ? 'group-hover:hidden' : ''}`}
+                title="Unsaved changes"
+              >
+                ●
+              </span>
+            )}
+
+            {tabs.length > 1 && !tab.isPinned && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onTabClose(tab.id);
+                }}
+                className={`
+                  opacity-0 group-hover:opacity-100 hover:text-console-error transition-opacity
+                  ${tab.isDirty ? 'hidden group-hover:inline' : ''}
+                `}
+              >
+                ×
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* A list of every tab once they don't all fit */}
+      {isOverflowing && (
         <div
-          key={tab.id}
-          className={`
-            group relative h-8 px-3 rounded flex items-center gap-2 cursor-pointer
-            ${tab.id === activeTabId
-              ? 'bg-dark-hover text-dark-text'
-              : 'text-gray-400 hover:text-dark-text hover:bg-dark-hover/50'
-            }
-          `}
-          onClick={() => onTabClick(tab.id)}
-          onDoubleClick={() => handleDoubleClick(tab)}
+          className="relative h-8 w-8 shrink-0 rounded flex items-center justify-center text-gray-400 hover:bg-theme-hover hover:text-theme-text"
+          title="All tabs"
         >
-          {editingTabId === tab.id ? (
-            <input
-              ref={inputRef}
-              type="text"
-              value={editingName}
-              onChange={(e) => setEditingName(e.target.value)}
-              onKeyDown={(e) => handleKeyDown(e, tab.id)}
-              onBlur={() => handleBlur(tab.id)}
-              className="bg-transparent outline-none w-24 text-sm"
-            />
-          ) : (
-            <span className="text-sm select-none">{tab.name}</span>
-          )}
-
-          {tabs.length > 1 && (
-            <button
-              onClick={(e) => {
-                e.stopPropagation();
-                onTabClose(tab.id);
-              }}
-              className="opacity-0 group-hover:opacity-100 hover:text-red-400 transition-opacity"
-            >
-              ×
-            </button>
-          )}
+          ⌄
+          <select
+            value={activeTabId}
+            onChange={(e) => onTabClick(e.target.value)}
+            className="absolute inset-0 opacity-0 cursor-pointer"
+            aria-label="All tabs"
+          >
+            {tabs.map(tab => (
+              <option key={tab.id} value={tab.id}>{tab.isPinned ? `📌 ${tab.name}` : tab.name}</option>
+            ))}
+          </select>
         </div>
-      ))}
+      )}
 
       <button
-        onClick={onTabCreate}
+        onClick={() => onTabCreate()}
         disabled={!canCreateTab}
         className={`
           h-8 w-8 rounded flex items-center justify-center text-lg
           ${canCreateTab
-            ? 'hover:bg-dark-hover text-gray-400 hover:text-dark-text'
+            ? 'hover:bg-theme-hover text-gray-400 hover:text-theme-text'
             : 'text-gray-600 cursor-not-allowed'
           }
         `}
-        title={canCreateTab ? 'New tab (Cmd+T)' : 'Maximum 10 tabs'}
+        title={canCreateTab ? 'New tab (Cmd+T)' : `Maximum ${maxTabs} tabs`}
       >
         +
       </button>
 
+      {onOpenFile && (
+        <button
+          onClick={onOpenFile}
+          className="h-8 px-2 rounded flex items-center justify-center text-sm text-gray-400 hover:bg-theme-hover hover:text-theme-text"
+          title="Open file (Cmd+O)"
+        >
+          Open…
+        </button>
+      )}
+
+      <select
+        value={language}
+        onChange={(e) => onLanguageChange(e.target.value as Language)}
+        className="h-8 ml-auto mr-1 bg-theme-bg border border-theme-border rounded px-2 text-sm text-gray-400 hover:text-theme-text"
+        title="Language"
+      >
+        {LANGUAGES.map(({ id, label }) => (
+          <option key={id} value={id}>{label}</option>
+        ))}
+      </select>
+
+      {onRuntimeChange && (
+        <select
+          value={runtime}
+          onChange={(e) => onRuntimeChange(e.target.value as Runtime)}
+          className="h-8 mr-1 bg-theme-bg border border-theme-border rounded px-2 text-sm text-gray-400 hover:text-theme-text"
+          title="Runtime"
+        >
+          {RUNTIMES.map(({ id, label }) => (
+            <option key={id} value={id}>{label}</option>
+          ))}
+        </select>
+      )}
+
+      {isRunning && onStop && (
+        <button
+          onClick={onStop}
+          className="h-8 px-3 rounded flex items-center justify-center text-sm bg-console-error hover:bg-console-error/80 text-theme-bg mr-1"
+          title="Stop execution (Cmd+.)"
+        >
+          ■ Stop
+        </button>
+      )}
+
       {!autoExecute && onRun && (
         <button
           onClick={onRun}
-          className="h-8 px-3 rounded flex items-center justify-center text-sm bg-blue-600 hover:bg-blue-700 text-white ml-auto mr-1"
+          className="h-8 px-3 rounded flex items-center justify-center text-sm bg-theme-accent hover:bg-theme-accent/80 text-theme-bg mr-1"
           title="Run code (Cmd+R)"
         >
           ▶ Run
         </button>
       )}
 
+      {onToggleSnippets && (
+        <button
+          onClick={onToggleSnippets}
+          className={`
+            h-8 px-2 rounded flex items-center justify-center text-sm hover:bg-theme-hover
+            ${isSnippetsOpen ? 'text-theme-text bg-theme-hover' : 'text-gray-400 hover:text-theme-text'}
+          `}
+          title="Snippets (Cmd+B)"
+        >
+          {'{ }'}
+        </button>
+      )}
+
+      {onToggleHistory && (
+        <button
+          onClick={onToggleHistory}
+          className={`
+            h-8 px-2 rounded flex items-center justify-center text-sm hover:bg-theme-hover
+            ${isHistoryOpen ? 'text-theme-text bg-theme-hover' : 'text-gray-400 hover:text-theme-text'}
+          `}
+          title="Run history (Cmd+Shift+H)"
+        >
+          ⟲
+        </button>
+      )}
+
+      {onShare && (
+        <button
+          onClick={async () => {
+            if (!(await onShare())) return;
+            setHasCopiedLink(true);
+            setTimeout(() => setHasCopiedLink(false), 1500);
+          }}
+          className="h-8 px-2 rounded flex items-center justify-center text-sm text-gray-400 hover:bg-theme-hover hover:text-theme-text"
+          title={hasCopiedLink ? 'Link copied' : 'Copy share link'}
+        >
+          {hasCopiedLink ? '✓' : '⤴'}
+        </button>
+      )}
+
       <button
         onClick={onSettings}
-        className={`h-8 w-8 rounded flex items-center justify-center text-gray-400 hover:bg-dark-hover hover:text-dark-text ${autoExecute ? 'ml-auto' : ''}`}
+        className="h-8 w-8 rounded flex items-center justify-center text-gray-400 hover:bg-theme-hover hover:text-theme-text"
         title="Settings (Cmd+,)"
       >
         ⚙
       </button>
+
+      {menu && (
+        <ContextMenu x={menu.x} y={menu.y} items={getMenuItems(menu.tabId)} onClose={closeMenu} />
+      )}
     </div>
   );
 }
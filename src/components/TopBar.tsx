@@ -7,20 +7,20 @@ interface TopBarProps {
 
 export function TopBar({ autoExecute, onRun, onSettings }: TopBarProps) {
   return (
-    <div className="h-12 bg-dark-bg border-b border-dark-border flex items-center justify-between px-4">
+    <div className="h-12 bg-theme-bg border-b border-theme-border flex items-center justify-between px-4">
       <div className="flex items-center gap-2">
         {/* macOS window controls */}
         <div className="flex gap-2">
-          <div className="w-3 h-3 rounded-full bg-red-500"></div>
-          <div className="w-3 h-3 rounded-full bg-yellow-500"></div>
-          <div className="w-3 h-3 rounded-full bg-green-500"></div>
+          <div className="w-3 h-3 rounded-full bg-console-error"></div>
+          <div className="w-3 h-3 rounded-full bg-console-warn"></div>
+          <div className="w-3 h-3 rounded-full bg-theme-success"></div>
         </div>
       </div>
 
       <div className="flex items-center gap-2">
         <button
           onClick={onSettings}
-          className="px-3 py-1.5 rounded hover:bg-dark-hover transition-colors text-sm"
+          className="px-3 py-1.5 rounded hover:bg-theme-hover transition-colors text-sm"
           title="Settings (Cmd+,)"
         >
           ⚙️
@@ -29,7 +29,7 @@ export function TopBar({ autoExecute, onRun, onSettings }: TopBarProps) {
         {!autoExecute && (
           <button
             onClick={onRun}
-            className="px-4 py-1.5 bg-blue-600 hover:bg-blue-700 rounded transition-colors text-sm font-medium"
+            className="px-4 py-1.5 bg-theme-accent hover:bg-theme-accent/80 text-theme-bg rounded transition-colors text-sm font-medium"
             title="Run (Cmd+Enter)"
           >
             Run ▶
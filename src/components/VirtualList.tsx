@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState, type ReactNode } from 'react';
+
+interface VirtualListProps<T> {
+  // May grow in place between renders, which only lays out the new items;
+  // any other change must come as a new array
+  items: T[];
+  getKey: (item: T) => number; // stays with the item, whatever its position
+  renderItem: (item: T) => ReactNode;
+  // Height rows are assumed to have until they're rendered and measured
+  estimatedHeight: number;
+  // Keeps the list scrolled to the end as items are added
+  followEnd?: boolean;
+  onScroll?: (element: HTMLDivElement) => void;
+  className?: string;
+  footer?: ReactNode;
+}
+
+// Pixels rendered beyond each edge of the viewport, so fast scrolling
+// doesn't show blank space
+const OVERSCAN = 600;
+
+// Index of the last row starting at or before `y`
+const findRow = (offsets: Float64Array, count: number, y: number) => {
+  let low = 0;
+  let high = count - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (offsets[middle] <= y) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+};
+
+// Where each row starts, kept between renders. Offsets before `validCount`
+// are up to date; the last valid entry is the total height so far.
+interface Layout<T> {
+  items: T[] | null;
+  offsets: Float64Array;
+  validCount: number;
+}
+
+/**
+ * Renders only the rows in and near the viewport. Rows can be any height;
+ * each is measured once rendered and remembered by its key.
+ */
+export function VirtualList<T>({
+  items,
+  getKey,
+  renderItem,
+  estimatedHeight,
+  followEnd = false,
+  onScroll,
+  className = '',
+  footer,
+}: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Map<number, number>());
+  const layoutRef = useRef<Layout<T>>({ items: null, offsets: new Float64Array(1), validCount: 0 });
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  // Bumped when a row's measured height changes
+  const [, setMeasureVersion] = useState(0);
+
+  // Lay out the rows from the first one that was added or changed height
+  const layout = layoutRef.current;
+  if (layout.items !== items) {
+    layout.items = items;
+    layout.validCount = 0;
+    // Heights of rows that are gone, e.g. from an earlier run
+    if (heightsRef.current.size > 2 * items.length) {
+      const keys = new Set(items.map(getKey));
+      heightsRef.current.forEach((_, key) => {
+        if (!keys.has(key)) heightsRef.current.delete(key);
+      });
+    }
+  }
+  if (layout.offsets.length < items.length + 1) {
+    const grown = new Float64Array(Math.max(items.length + 1, layout.offsets.length * 2));
+    grown.set(layout.offsets.subarray(0, layout.validCount + 1));
+    layout.offsets = grown;
+  }
+  const offsets = layout.offsets;
+  for (let i = Math.min(layout.validCount, items.length); i < items.length; i++) {
+    offsets[i + 1] = offsets[i] + (heightsRef.current.get(getKey(items[i])) ?? estimatedHeight);
+  }
+  layout.validCount = items.length;
+
+  const observerRef = useRef<ResizeObserver | null>(null);
+  if (!observerRef.current && typeof ResizeObserver !== 'undefined') {
+    observerRef.current = new ResizeObserver((entries) => {
+      let hasChanged = false;
+      for (const entry of entries) {
+        const element = entry.target as HTMLElement;
+        const key = Number(element.dataset.key);
+        const height = element.offsetHeight;
+        if (heightsRef.current.get(key) !== height) {
+          heightsRef.current.set(key, height);
+          // Rows after this one move
+          const layout = layoutRef.current;
+          layout.validCount = Math.min(layout.validCount, Number(element.dataset.index));
+          hasChanged = true;
+        }
+      }
+      if (hasChanged) setMeasureVersion(version => version + 1);
+    });
+  }
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    setViewportHeight(container.clientHeight);
+    return () => observer.disconnect();
+  }, []);
+
+  const totalHeight = offsets[items.length];
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (followEnd && container) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [followEnd, totalHeight]);
+
+  const first = items.length > 0 ? findRow(offsets, items.length, scrollTop - OVERSCAN) : 0;
+  const last = items.length > 0 ? findRow(offsets, items.length, scrollTop + viewportHeight + OVERSCAN) : -1;
+
+  const measure = useCallback((element: HTMLDivElement | null) => {
+    if (!element) return;
+    const observer = observerRef.current;
+    observer?.observe(element);
+    return () => observer?.unobserve(element);
+  }, []);
+
+  return (
+    <div
+      ref={containerRef}
+      className={`overflow-auto ${className}`}
+      onScroll={(e) => {
+        setScrollTop(e.currentTarget.scrollTop);
+        onScroll?.(e.currentTarget);
+      }}
+    >
+      <div style={{ paddingTop: offsets[first], paddingBottom: totalHeight - offsets[last + 1] }}>
+        {items.slice(first, last + 1).map((item, i) => {
+          const key = getKey(item);
+          return (
+            <div key={key} ref={measure} data-key={key} data-index={first + i}>
+              {renderItem(item)}
+            </div>
+          );
+        })}
+      </div>
+      {footer}
+    </div>
+  );
+}
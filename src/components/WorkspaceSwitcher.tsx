@@ -0,0 +1,114 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Workspace } from '../types';
+
+interface WorkspaceSwitcherProps {
+  workspaces: Workspace[];
+  activeWorkspaceId: string;
+  isSwitching: boolean;
+  onSwitch: (workspaceId: string) => void;
+  onCreate: () => void;
+  onDuplicate: (workspaceId: string) => void;
+  onRename: (workspaceId: string, name: string) => void;
+  onDelete: (workspaceId: string) => void;
+  // Starts renaming the active workspace; pass a new object to rename again
+  renameRequest?: object | null;
+}
+
+// Menu entries after the workspaces; workspace ids never start with ':'
+const ACTIONS = {
+  create: ':create',
+  duplicate: ':duplicate',
+  rename: ':rename',
+  delete: ':delete',
+};
+
+/** Picks the active workspace, with actions for managing them at the end. */
+export function WorkspaceSwitcher({
+  workspaces,
+  activeWorkspaceId,
+  isSwitching,
+  onSwitch,
+  onCreate,
+  onDuplicate,
+  onRename,
+  onDelete,
+  renameRequest,
+}: WorkspaceSwitcherProps) {
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const activeWorkspace = workspaces.find(w => w.id === activeWorkspaceId);
+
+  const startRenaming = () => setEditingName(activeWorkspace?.name ?? '');
+
+  useEffect(() => {
+    if (renameRequest) startRenaming();
+  }, [renameRequest]);
+
+  useEffect(() => {
+    if (editingName !== null && inputRef.current && document.activeElement !== inputRef.current) {
+      inputRef.current.focus();
+      inputRef.current.select();
+    }
+  }, [editingName]);
+
+  const finishRenaming = (shouldSave: boolean) => {
+    if (shouldSave && editingName?.trim()) onRename(activeWorkspaceId, editingName);
+    setEditingName(null);
+  };
+
+  const handleChange = (value: string) => {
+    switch (value) {
+      case ACTIONS.create:
+        onCreate();
+        break;
+      case ACTIONS.duplicate:
+        onDuplicate(activeWorkspaceId);
+        break;
+      case ACTIONS.rename:
+        startRenaming();
+        break;
+      case ACTIONS.delete:
+        onDelete(activeWorkspaceId);
+        break;
+      default:
+        onSwitch(value);
+    }
+  };
+
+  if (editingName !== null) {
+    return (
+      <input
+        ref={inputRef}
+        type="text"
+        value={editingName}
+        onChange={(e) => setEditingName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') finishRenaming(true);
+          if (e.key === 'Escape') finishRenaming(false);
+        }}
+        onBlur={() => finishRenaming(true)}
+        className="h-8 w-36 mr-1 bg-theme-bg border border-theme-border rounded px-2 text-sm outline-none"
+        aria-label="Workspace name"
+      />
+    );
+  }
+
+  return (
+    <select
+      value={activeWorkspaceId}
+      onChange={(e) => handleChange(e.target.value)}
+      disabled={isSwitching}
+      className="h-8 max-w-40 mr-1 bg-theme-bg border border-theme-border rounded px-2 text-sm text-gray-400 hover:text-theme-text disabled:opacity-50"
+      title="Workspace"
+    >
+      {workspaces.map(workspace => (
+        <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+      ))}
+      <option disabled>──────────</option>
+      <option value={ACTIONS.create}>New Workspace</option>
+      <option value={ACTIONS.duplicate}>Duplicate Workspace</option>
+      <option value={ACTIONS.rename}>Rename Workspace…</option>
+      {workspaces.length > 1 && <option value={ACTIONS.delete}>Delete Workspace…</option>}
+    </select>
+  );
+}
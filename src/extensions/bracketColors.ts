@@ -0,0 +1,66 @@
+import { Decoration, EditorView, ViewPlugin, type DecorationSet, type ViewUpdate } from '@codemirror/view';
+import { RangeSetBuilder, type Extension } from '@codemirror/state';
+import { syntaxTree } from '@codemirror/language';
+import type { SyntaxNode } from '@lezer/common';
+
+const BRACKETS = new Set(['(', ')', '[', ']', '{', '}']);
+const OPENING_BRACKETS = new Set(['(', '[', '{']);
+
+// Three colors, repeating for deeper nesting
+const depthMarks = [0, 1, 2].map(depth => Decoration.mark({ class: `cm-bracket-depth-${depth}` }));
+
+// Brackets are children of the node they enclose, e.g. an ArgList, so the
+// nesting depth is the number of enclosing nodes that start with one
+function getDepth(bracket: SyntaxNode): number {
+  let depth = -1;
+  for (let node = bracket.parent; node; node = node.parent) {
+    if (node.firstChild && OPENING_BRACKETS.has(node.firstChild.name)) depth++;
+  }
+  return Math.max(depth, 0);
+}
+
+function buildDecorations(view: EditorView): DecorationSet {
+  const builder = new RangeSetBuilder<Decoration>();
+  const tree = syntaxTree(view.state);
+  for (const { from, to } of view.visibleRanges) {
+    tree.iterate({
+      from,
+      to,
+      enter: (node) => {
+        if (BRACKETS.has(node.name)) {
+          builder.add(node.from, node.to, depthMarks[getDepth(node.node) % depthMarks.length]);
+        }
+      },
+    });
+  }
+  return builder.finish();
+}
+
+const bracketColorsPlugin = ViewPlugin.fromClass(
+  class {
+    decorations: DecorationSet;
+
+    constructor(view: EditorView) {
+      this.decorations = buildDecorations(view);
+    }
+
+    update(update: ViewUpdate) {
+      if (update.docChanged || update.viewportChanged || syntaxTree(update.state) !== syntaxTree(update.startState)) {
+        this.decorations = buildDecorations(update.view);
+      }
+    }
+  },
+  { decorations: plugin => plugin.decorations }
+);
+
+// Colors from the active theme, see src/utils/themes.ts
+const bracketColorsTheme = EditorView.baseTheme({
+  '.cm-bracket-depth-0': { color: 'rgb(var(--syntax-function))' },
+  '.cm-bracket-depth-1': { color: 'rgb(var(--syntax-control))' },
+  '.cm-bracket-depth-2': { color: 'rgb(var(--syntax-keyword))' },
+});
+
+/** Colors brackets by how deeply they're nested, like VS Code's bracket pairs. */
+export function bracketColors(): Extension {
+  return [bracketColorsPlugin, bracketColorsTheme];
+}
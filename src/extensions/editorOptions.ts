@@ -0,0 +1,83 @@
+import { EditorView, highlightActiveLineGutter, lineNumbers } from '@codemirror/view';
+import { Compartment, EditorState, Prec, type Extension, type StateEffect } from '@codemirror/state';
+import { indentUnit } from '@codemirror/language';
+import { showMinimap } from '@replit/codemirror-minimap';
+import { vim } from '@replit/codemirror-vim';
+import { emacs } from '@replit/codemirror-emacs';
+import { bracketColors } from './bracketColors';
+import { DEFAULT_FONT_FAMILY } from '../utils/editorOptions';
+import type { EditorOptions } from '../types';
+
+interface OptionGroup {
+  keys: (keyof EditorOptions)[];
+  extension: (options: EditorOptions) => Extension;
+}
+
+const createMinimap = () => ({ dom: document.createElement('div') });
+
+// Each group of options lives in its own compartment, so changing one
+// leaves the others, like the Vim mode's state, alone
+const OPTION_GROUPS: OptionGroup[] = [
+  {
+    keys: ['fontFamily', 'fontSize'],
+    extension: ({ fontFamily, fontSize }) =>
+      EditorView.theme({
+        '&': { fontSize: `${fontSize}px` },
+        '.cm-scroller': { fontFamily: fontFamily.trim() || DEFAULT_FONT_FAMILY },
+      }),
+  },
+  {
+    keys: ['tabSize', 'insertSpaces'],
+    extension: ({ tabSize, insertSpaces }) => [
+      EditorState.tabSize.of(tabSize),
+      indentUnit.of(insertSpaces ? ' '.repeat(tabSize) : '\t'),
+    ],
+  },
+  {
+    keys: ['wordWrap'],
+    extension: ({ wordWrap }) => (wordWrap ? EditorView.lineWrapping : []),
+  },
+  {
+    keys: ['lineNumbers'],
+    extension: (options) => (options.lineNumbers ? [lineNumbers(), highlightActiveLineGutter()] : []),
+  },
+  {
+    keys: ['minimap'],
+    extension: ({ minimap }) =>
+      minimap ? showMinimap.of({ create: createMinimap, displayText: 'blocks', showOverlay: 'mouse-over' }) : [],
+  },
+  {
+    keys: ['bracketColors'],
+    extension: (options) => (options.bracketColors ? bracketColors() : []),
+  },
+  {
+    // Ahead of the default keymap so Vim and Emacs keys win. Vim keeps the
+    // keys it handles from app shortcuts, while Emacs keys run them too, e.g.
+    // Ctrl-K kills the line and starts a Mod+K chord. Settings lists the
+    // shortcuts affected (see findKeymapConflicts in ../utils/keybindings.ts)
+    keys: ['keymap'],
+    extension: ({ keymap }) =>
+      keymap === 'vim' ? Prec.highest(vim({ status: true })) : keymap === 'emacs' ? Prec.highest(emacs()) : [],
+  },
+];
+
+/**
+ * The editor options as extensions that can be changed in place, keeping
+ * the editor's history and selection.
+ */
+export function editorOptions() {
+  const compartments = OPTION_GROUPS.map(() => new Compartment());
+
+  return {
+    extension: (options: EditorOptions): Extension =>
+      OPTION_GROUPS.map((group, i) => compartments[i].of(group.extension(options))),
+
+    // Effects that apply the options that changed
+    reconfigure: (previous: EditorOptions, options: EditorOptions): StateEffect<unknown>[] =>
+      OPTION_GROUPS.flatMap((group, i) =>
+        group.keys.some(key => previous[key] !== options[key])
+          ? [compartments[i].reconfigure(group.extension(options))]
+          : []
+      ),
+  };
+}
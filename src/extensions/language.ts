@@ -0,0 +1,45 @@
+import type { Extension } from '@codemirror/state';
+import { autocompletion } from '@codemirror/autocomplete';
+import { javascript } from '@codemirror/lang-javascript';
+import {
+  tsAutocompleteWorker,
+  tsFacetWorker,
+  tsHoverWorker,
+  tsLinterWorker,
+  tsSyncWorker,
+} from '@valtown/codemirror-ts';
+import type { TypeScriptWorkerApi } from '../hooks/useTypeScriptWorker';
+import type { Language } from '../types';
+import { isJsx, isTypeScript } from '../utils/language';
+
+/**
+ * Syntax, completion, hover and diagnostics for a tab's language. The
+ * TypeScript-backed parts are only added once the language worker is ready;
+ * until then the editor behaves like a plain JavaScript editor.
+ */
+export function languageSupport(
+  language: Language,
+  fileName: string,
+  tsWorker: TypeScriptWorkerApi | null
+): Extension {
+  const syntax = javascript({
+    typescript: isTypeScript(language),
+    jsx: isJsx(language),
+  });
+
+  if (!tsWorker) {
+    return [syntax, autocompletion({ activateOnTyping: true })];
+  }
+
+  return [
+    syntax,
+    tsFacetWorker.of({ worker: tsWorker, path: fileName }),
+    tsSyncWorker(),
+    tsLinterWorker(),
+    tsHoverWorker(),
+    autocompletion({
+      activateOnTyping: true,
+      override: [tsAutocompleteWorker()],
+    }),
+  ];
+}
@@ -0,0 +1,148 @@
+import { StateEffect, StateField, type Extension, type Range, type Text } from '@codemirror/state';
+import { Decoration, EditorView, WidgetType, type DecorationSet } from '@codemirror/view';
+import type { ConsoleMessage } from '../types';
+
+const MAX_WIDGET_LENGTH = 80;
+
+const errorLineMark = Decoration.mark({ class: 'cm-error-underline' });
+
+export const setLineResults = StateEffect.define<ConsoleMessage[]>();
+
+class LineResultWidget extends WidgetType {
+  constructor(readonly text: string, readonly type: ConsoleMessage['type']) {
+    super();
+  }
+
+  eq(other: LineResultWidget) {
+    return other.text === this.text && other.type === this.type;
+  }
+
+  toDOM() {
+    const span = document.createElement('span');
+    span.className = `cm-line-result cm-line-result-${this.type}`;
+    span.title = this.text;
+
+    const singleLine = this.text.replace(/\s*\n\s*/g, ' ');
+    span.textContent = singleLine.length > MAX_WIDGET_LENGTH
+      ? `${singleLine.slice(0, MAX_WIDGET_LENGTH)}…`
+      : singleLine;
+    return span;
+  }
+
+  ignoreEvent() {
+    return false;
+  }
+}
+
+// Only the latest few messages of a line fit in its widget, so a loop that
+// logs on one line doesn't make every update slower
+const MAX_LINE_MESSAGES = 10;
+
+interface LineSummary {
+  recent: ConsoleMessage[];
+  type: 'log' | 'warn' | 'error';
+  thrown: boolean;
+}
+
+interface LineResults {
+  // The run's output, which grows in place while it runs, and how much of
+  // it has been read into `lines`
+  messages: ConsoleMessage[];
+  readCount: number;
+  lines: Map<number, LineSummary>;
+  decorations: DecorationSet;
+}
+
+const EMPTY: LineResults = { messages: [], readCount: 0, lines: new Map(), decorations: Decoration.none };
+
+// Adds the messages produced since the last update to the lines' summaries
+function readMessages(doc: Text, previous: LineResults, messages: ConsoleMessage[]): LineResults {
+  const isSameRun = messages === previous.messages && messages.length >= previous.readCount;
+  const lines = isSameRun ? previous.lines : new Map<number, LineSummary>();
+  for (let i = isSameRun ? previous.readCount : 0; i < messages.length; i++) {
+    const message = messages[i];
+    if (
+      message.type === 'groupEnd' ||
+      message.line === undefined ||
+      message.line < 1 ||
+      message.line > doc.lines
+    ) {
+      continue;
+    }
+    let summary = lines.get(message.line);
+    if (!summary) {
+      summary = { recent: [], type: 'log', thrown: false };
+      lines.set(message.line, summary);
+    }
+    summary.recent.push(message);
+    if (summary.recent.length > MAX_LINE_MESSAGES) summary.recent.shift();
+    if (message.type === 'error') {
+      summary.type = 'error';
+    } else if (message.type === 'warn' && summary.type === 'log') {
+      summary.type = 'warn';
+    }
+    summary.thrown ||= !!message.thrown;
+  }
+  return { messages, readCount: messages.length, lines, decorations: buildDecorations(doc, lines) };
+}
+
+function buildDecorations(doc: Text, lines: Map<number, LineSummary>): DecorationSet {
+  const decorations: Range<Decoration>[] = [];
+  for (const [lineNumber, { recent, type, thrown }] of lines) {
+    if (lineNumber > doc.lines) continue;
+    const line = doc.line(lineNumber);
+
+    // Underline the code of lines that threw
+    const indent = /^\s*/.exec(line.text)![0].length;
+    if (thrown && line.from + indent < line.to) {
+      decorations.push(errorLineMark.range(line.from + indent, line.to));
+    }
+
+    const text = recent.map(msg => String(msg.content)).join(', ');
+    decorations.push(Decoration.widget({
+      widget: new LineResultWidget(text, type),
+      side: 1,
+    }).range(line.to));
+  }
+
+  return Decoration.set(decorations, true);
+}
+
+const lineResultsField = StateField.define<LineResults>({
+  create: () => EMPTY,
+  update: (results, tr) => {
+    for (const effect of tr.effects) {
+      if (effect.is(setLineResults)) {
+        return readMessages(tr.state.doc, results, effect.value);
+      }
+    }
+    // Keep results next to their code while it is edited until the next run
+    return tr.docChanged ? { ...results, decorations: results.decorations.map(tr.changes) } : results;
+  },
+  provide: field => EditorView.decorations.from(field, results => results.decorations),
+});
+
+const lineResultsTheme = EditorView.baseTheme({
+  '.cm-line-result': {
+    marginLeft: '2em',
+    opacity: '0.5',
+    fontStyle: 'italic',
+    whiteSpace: 'pre',
+  },
+  // Colors from the active theme, see src/utils/themes.ts
+  '.cm-line-result-log': { color: 'rgb(var(--syntax-variable))' },
+  '.cm-line-result-warn': { color: 'rgb(var(--console-warn))' },
+  '.cm-line-result-error': { color: 'rgb(var(--console-error))' },
+  '.cm-error-underline': {
+    textDecoration: 'underline wavy rgb(var(--console-error))',
+    textUnderlineOffset: '3px',
+  },
+});
+
+/**
+ * Shows console output and top-level expression values as dimmed inline
+ * widgets at the end of the line that produced them.
+ */
+export function lineResults(): Extension {
+  return [lineResultsField, lineResultsTheme];
+}
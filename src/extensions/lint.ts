@@ -0,0 +1,41 @@
+import type { Extension } from '@codemirror/state';
+import { ensureSyntaxTree } from '@codemirror/language';
+import { linter, type Diagnostic } from '@codemirror/lint';
+import { lintCode } from '../utils/lint';
+import type { Language, LintRules, Runtime } from '../types';
+
+// How long to wait for the parser to reach the end of a long document
+const PARSE_TIMEOUT = 500;
+
+/** Diagnostics for the enabled lint rules, with their fixes as actions. */
+export function codeLinter(language: Language, runtime: Runtime, rules: LintRules): Extension {
+  if (Object.values(rules).every(severity => severity === 'off')) return [];
+
+  return linter((view) => {
+    const { state } = view;
+    const tree = ensureSyntaxTree(state, state.doc.length, PARSE_TIMEOUT);
+    if (!tree) return [];
+
+    return lintCode(state.doc.toString(), tree, { language, runtime, rules }).map((problem): Diagnostic => ({
+      from: problem.from,
+      to: problem.to,
+      severity: problem.severity,
+      source: problem.rule,
+      message: problem.message,
+      actions: problem.fixes.map(fix => ({
+        name: fix.title,
+        // Edits made since linting moved the problem by this much
+        apply: (view, from) => {
+          const offset = from - problem.from;
+          view.dispatch({
+            changes: fix.changes.map(change => ({
+              from: change.from + offset,
+              to: change.to + offset,
+              insert: change.insert,
+            })),
+          });
+        },
+      })),
+    }));
+  });
+}
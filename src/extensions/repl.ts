@@ -0,0 +1,25 @@
+import type { CompletionSource } from '@codemirror/autocomplete';
+
+/**
+ * Completes names in the REPL session's scope, and property names after a
+ * dot, from the live values in the executor worker.
+ */
+export function sessionCompletions(
+  getCompletions: (target: string) => Promise<string[]>
+): CompletionSource {
+  return async (context) => {
+    const match = context.matchBefore(/(?:[A-Za-z_$][\w$]*\.)*[\w$]*$/);
+    if (!match || (match.from === match.to && !context.explicit)) return null;
+
+    const lastDot = match.text.lastIndexOf('.');
+    const target = lastDot === -1 ? '' : match.text.slice(0, lastDot);
+    const names = await getCompletions(target);
+    if (context.aborted) return null;
+
+    return {
+      from: match.from + lastDot + 1,
+      options: names.map(label => ({ label, type: target ? 'property' : 'variable' })),
+      validFor: /^[\w$]*$/,
+    };
+  };
+}
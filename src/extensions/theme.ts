@@ -0,0 +1,63 @@
+import { tags as t } from '@lezer/highlight';
+import { createTheme } from '@uiw/codemirror-themes';
+import type { Extension } from '@codemirror/state';
+import type { Theme } from '../types';
+
+/** The editor's colors and syntax highlighting for a theme. */
+export function editorTheme({ type, colors }: Theme): Extension {
+  return createTheme({
+    theme: type,
+    settings: {
+      background: colors.background,
+      foreground: colors.variable,
+      caret: colors.cursor,
+      selection: colors.selection,
+      selectionMatch: colors.selection,
+      lineHighlight: colors.lineHighlight,
+      gutterBackground: colors.background,
+      gutterForeground: colors.gutter,
+      gutterActiveForeground: colors.foreground,
+    },
+    styles: [
+      {
+        tag: [
+          t.keyword,
+          t.operatorKeyword,
+          t.modifier,
+          t.color,
+          t.constant(t.name),
+          t.standard(t.name),
+          t.standard(t.tagName),
+          t.special(t.brace),
+          t.atom,
+          t.bool,
+          t.special(t.variableName),
+        ],
+        color: colors.keyword,
+      },
+      { tag: [t.controlKeyword, t.moduleKeyword], color: colors.control },
+      {
+        tag: [t.name, t.deleted, t.character, t.macroName, t.variableName, t.labelName, t.definition(t.name)],
+        color: colors.variable,
+      },
+      { tag: t.propertyName, color: colors.property },
+      { tag: t.heading, fontWeight: 'bold', color: colors.variable },
+      {
+        tag: [t.typeName, t.className, t.tagName, t.changed, t.annotation, t.self, t.namespace],
+        color: colors.type,
+      },
+      { tag: [t.function(t.variableName), t.function(t.propertyName)], color: colors.function },
+      { tag: t.number, color: colors.number },
+      { tag: [t.operator, t.punctuation, t.separator, t.url, t.escape], color: colors.operator },
+      { tag: t.regexp, color: colors.regexp },
+      { tag: [t.special(t.string), t.processingInstruction, t.string, t.inserted], color: colors.string },
+      { tag: t.angleBracket, color: colors.gutter },
+      { tag: t.strong, fontWeight: 'bold' },
+      { tag: t.emphasis, fontStyle: 'italic' },
+      { tag: t.strikethrough, textDecoration: 'line-through' },
+      { tag: [t.meta, t.comment], color: colors.comment },
+      { tag: t.link, color: colors.comment, textDecoration: 'underline' },
+      { tag: t.invalid, color: colors.error },
+    ],
+  });
+}
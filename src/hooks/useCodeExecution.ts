@@ -1,58 +1,483 @@
-import { useEffect, useRef, useCallback } from 'react';
-import type { ConsoleMessage } from '../types';
+import { useEffect, useRef, useCallback, useState } from 'react';
+import * as Comlink from 'comlink';
+import {
+  findImports,
+  findSyntaxErrorLine,
+  findTopLevelNames,
+  instrumentCode,
+  prepareReplInput,
+} from '../utils/instrument';
+import { localPackageSource } from '../utils/localPackages';
+import { inlineSourceMap, runInProcess } from '../utils/processRuntime';
+import { KILLED_PREFIX } from '../utils/sandbox';
+import { startWorker } from '../utils/offlineWorker';
+import executorUrl from '../workers/code-executor.worker.ts?worker&url';
+import type { TypeScriptWorkerApi } from './useTypeScriptWorker';
+import type { ExecutorEvent } from '../workers/code-executor.worker';
+import type {
+  ConsoleMessage,
+  Language,
+  ModuleBundle,
+  PackageInfo,
+  RunRecord,
+  Runtime,
+  SandboxPolicy,
+} from '../types';
+
+// A finished run, before it's given an id in the tab's history
+export type CompletedRun = Omit<RunRecord, 'id'>;
+
+// How long past the timeout a worker that stopped responding is given before
+// it's terminated
+const KILL_GRACE = 1000;
+
+// Adds messages to the end of the output in place. Spreading into push()
+// would overflow the stack on very large batches.
+const appendOutput = (output: ConsoleMessage[], messages: ConsoleMessage[]) => {
+  for (const message of messages) output.push(message);
+  return output;
+};
 
 interface UseCodeExecutionOptions {
   code: string;
+  language: Language;
+  runtime: Runtime;
+  // Working folder for Node and Bun runs
+  cwd?: string;
+  tsWorker: TypeScriptWorkerApi | null;
   autoExecute: boolean;
   autoExecuteDelay: number;
   timeout: number;
+  sandbox: SandboxPolicy;
+  maxLogs: number;
+  // Runs add their output under the tab's current output instead of replacing it
+  preserveLog: boolean;
+  consoleOutput: ConsoleMessage[];
   onOutput: (output: ConsoleMessage[]) => void;
+  onPackages: (packages: PackageInfo[]) => void;
+  // Called for runs the user started, not for auto-execution while typing
+  onRunComplete: (run: CompletedRun) => void;
 }
 
 export function useCodeExecution({
   code,
+  language,
+  runtime,
+  cwd,
+  tsWorker,
   autoExecute,
   autoExecuteDelay,
   timeout,
+  sandbox,
+  maxLogs,
+  preserveLog,
+  consoleOutput,
   onOutput,
+  onPackages,
+  onRunComplete,
 }: UseCodeExecutionOptions) {
+  // Runs the code, then stays alive as the REPL session until the next run
   const workerRef = useRef<Worker | null>(null);
+  // Kills the Node or Bun process of the current run
+  const killProcessRef = useRef<(() => void) | null>(null);
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Terminates a worker stuck in synchronous code, which can't time itself out
+  const killTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const runIdRef = useRef(0);
+  // Output of the current run so far, and where to report it. Batches are
+  // appended to the same array, so each one costs only its own size.
+  const outputRef = useRef<ConsoleMessage[]>([]);
+  const runOutputRef = useRef(onOutput);
+  // Records the current run when it's stopped
+  const stopRunRef = useRef<((output: ConsoleMessage[]) => void) | null>(null);
+  // Top-level names of the session's code and REPL inputs, for autocomplete
+  const sessionNamesRef = useRef<string[]>([]);
+  // Replies the session owes to REPL requests, by request id
+  const requestsRef = useRef(new Map<number, (event: ExecutorEvent) => void>());
+  const requestIdRef = useRef(0);
+  // Read when a run starts; as dependencies they'd restart auto-execution
+  // whenever output arrives
+  const preservedRef = useRef({ preserveLog, consoleOutput });
+  preservedRef.current = { preserveLog, consoleOutput };
+  const [isRunning, setIsRunning] = useState(false);
+  const [isInstalling, setIsInstalling] = useState(false);
+
+  const endSession = () => {
+    clearTimeout(killTimerRef.current);
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    killProcessRef.current?.();
+    killProcessRef.current = null;
+  };
+
+  // Runs the given code, which is the tab's code or a snapshot from its history
+  const runCode = useCallback(async (code: string, language: Language, { isAutoRun = false } = {}) => {
+    const runId = ++runIdRef.current;
+    const startedAt = Date.now();
+    // Earlier runs' output, up to the log limit, so it can't grow run after run
+    const preserved: ConsoleMessage[] = preservedRef.current.preserveLog
+      ? [...preservedRef.current.consoleOutput.slice(-maxLogs), {
+          type: 'separator',
+          content: `Run at ${new Date(startedAt).toLocaleTimeString()}`,
+        }]
+      : [];
+    // Where this run's own output starts, which is what history keeps
+    let firstIndex = preserved.length;
+    // Runs started by typing would fill the history with half-written code
+    const recordRun = (run: CompletedRun) => {
+      if (!isAutoRun) onRunComplete(run);
+    };
 
-  const executeCode = useCallback(() => {
-    console.log('[DEBUG] executeCode called with code:', code.substring(0, 50));
+    // For runs that end before any code executes, e.g. on compile errors
+    const failRun = (runOutput: ConsoleMessage[]) => {
+      const output = [...preserved, ...runOutput];
+      // REPL input still goes to the last session, but shows under this output
+      outputRef.current = output;
+      runOutputRef.current = onOutput;
+      onOutput(output);
+      recordRun({
+        code,
+        language,
+        startedAt,
+        duration: 0,
+        output: runOutput,
+        timedOut: false,
+        stopped: false,
+        killed: false,
+      });
+    };
+    const inProcess = runtime !== 'browser';
+    let executableCode = instrumentCode(code, language, { rewriteImports: !inProcess });
+    let sourceMap: string | undefined;
+
+    if (language !== 'js') {
+      if (!tsWorker) {
+        failRun([{
+          type: 'error',
+          content: 'TypeScript compiler is still loading, try again in a moment.',
+        }]);
+        return;
+      }
 
-    if (workerRef.current) {
-      workerRef.current.terminate();
+      let result: Awaited<ReturnType<TypeScriptWorkerApi['transpile']>>;
+      try {
+        result = await tsWorker.transpile(executableCode, language);
+      } catch (error) {
+        // The compiler worker crashed or couldn't load
+        if (runId === runIdRef.current) {
+          failRun([{ type: 'error', content: `Error: ${(error as Error).message}` }]);
+        }
+        return;
+      }
+      // A newer run started while this one was transpiling
+      if (runId !== runIdRef.current) return;
+
+      if (result.diagnostics.length > 0) {
+        failRun(result.diagnostics.map(diagnostic => ({
+          type: 'error',
+          content: `SyntaxError: ${diagnostic.message}`,
+          line: diagnostic.line,
+        })));
+        return;
+      }
+      executableCode = result.code;
+      sourceMap = result.sourceMap;
     }
 
-    workerRef.current = new Worker(
-      new URL('../workers/code-executor.worker.ts', import.meta.url),
-      { type: 'module' }
-    );
+    // Packages are installed and bundled by the language worker, except for
+    // Node and Bun, which load them from disk
+    const imports = inProcess ? [] : findImports(code, language);
+    let bundle: ModuleBundle | undefined;
+    if (imports.length > 0) {
+      if (!tsWorker) {
+        failRun([{
+          type: 'error',
+          content: 'The package loader is still starting, try again in a moment.',
+        }]);
+        return;
+      }
 
-    workerRef.current.onmessage = (event) => {
-      console.log('[DEBUG] Worker message received:', event.data);
-      if (event.data.type === 'complete') {
-        onOutput(event.data.logs);
+      setIsInstalling(true);
+      try {
+        bundle = await tsWorker.bundleImports(
+          imports,
+          localPackageSource && Comlink.proxy(localPackageSource),
+          sandbox.allowNetwork
+        );
+      } catch (error) {
+        if (runId === runIdRef.current) {
+          failRun([{ type: 'error', content: `Error: ${(error as Error).message}` }]);
+        }
+        return;
+      } finally {
+        if (runId === runIdRef.current) setIsInstalling(false);
       }
+      if (runId !== runIdRef.current) return;
+    }
+    onPackages(bundle?.packages ?? []);
+
+    endSession();
+    outputRef.current = preserved;
+    runOutputRef.current = onOutput;
+    sessionNamesRef.current = findTopLevelNames(code, language);
+    requestsRef.current.clear();
+    const runStart = performance.now();
+    const finishRun = (
+      output: ConsoleMessage[],
+      { timedOut = false, stopped = false, killed = false } = {}
+    ) => {
+      stopRunRef.current = null;
+      const duration = Math.round(performance.now() - runStart);
+      recordRun({
+        code,
+        language,
+        startedAt,
+        duration,
+        output: output.slice(firstIndex),
+        timedOut,
+        stopped,
+        killed,
+      });
     };
+    stopRunRef.current = (output) => finishRun(output, { stopped: true });
+    setIsRunning(true);
+
+    if (inProcess) {
+      try {
+        const kill = await runInProcess({
+          runtime,
+          code: sourceMap ? inlineSourceMap(executableCode, sourceMap) : executableCode,
+          cwd,
+          timeout,
+          cpuLimit: sandbox.cpuLimit,
+          memoryLimit: sandbox.memoryLimit,
+          maxLogs,
+          onOutput: (messages) => {
+            if (runId !== runIdRef.current) return;
+            onOutput(appendOutput(outputRef.current, messages));
+          },
+          onExit: ({ timedOut, killed }) => {
+            if (runId !== runIdRef.current) return;
+            killProcessRef.current = null;
+            if (timedOut) {
+              outputRef.current.push({
+                type: 'warn',
+                content: `⏱ Execution timed out after ${timeout / 1000}s`,
+              });
+            }
+            onOutput(outputRef.current);
+            finishRun(outputRef.current, { timedOut, killed });
+            setIsRunning(false);
+          },
+        });
+        // Stopped or superseded while starting
+        if (runId !== runIdRef.current) {
+          kill();
+        } else {
+          killProcessRef.current = kill;
+        }
+      } catch (error) {
+        if (runId !== runIdRef.current) return;
+        const output: ConsoleMessage[] = [{ type: 'error', content: (error as Error).message }];
+        onOutput(output);
+        finishRun(output);
+        setIsRunning(false);
+      }
+      return;
+    }
 
-    workerRef.current.onerror = (error) => {
-      console.error('[DEBUG] Worker error:', error);
-      onOutput([{
+    let worker: Worker;
+    try {
+      worker = await startWorker(executorUrl, sandbox.allowNetwork);
+    } catch (error) {
+      if (runId !== runIdRef.current) return;
+      const output = appendOutput(outputRef.current, [{
+        type: 'error',
+        content: `Couldn't start the worker: ${(error as Error).message}`,
+      }]);
+      onOutput(output);
+      finishRun(output);
+      setIsRunning(false);
+      return;
+    }
+    // Stopped or superseded while starting
+    if (runId !== runIdRef.current) {
+      worker.terminate();
+      return;
+    }
+    workerRef.current = worker;
+
+    // The previous output stays visible until this run produces its first
+    // batch, so quick re-runs while typing don't flicker
+    worker.onmessage = (event: MessageEvent<ExecutorEvent>) => {
+      const message = event.data;
+      if (message.type === 'output') {
+        onOutput(appendOutput(outputRef.current, message.logs));
+      } else if (message.type === 'clear') {
+        // console.clear() clears preserved output too
+        firstIndex = 0;
+        outputRef.current = [];
+        onOutput([]);
+      } else if (message.type === 'complete') {
+        clearTimeout(killTimerRef.current);
+        onOutput(outputRef.current);
+        finishRun(outputRef.current, { timedOut: message.timedOut, killed: message.killed });
+        setIsRunning(false);
+      } else if (message.type === 'evaluated' || message.type === 'completions') {
+        requestsRef.current.get(message.id)?.(message);
+        requestsRef.current.delete(message.id);
+      }
+    };
+
+    worker.onerror = (error) => {
+      clearTimeout(killTimerRef.current);
+      const output = appendOutput(outputRef.current, [{
         type: 'error',
         content: `Worker error: ${error.message}`,
       }]);
+      onOutput(output);
+      finishRun(output);
+      setIsRunning(false);
     };
 
-    console.log('[DEBUG] Posting message to worker');
-    workerRef.current.postMessage({
+    worker.postMessage({
       type: 'execute',
-      code,
+      code: executableCode,
       timeout,
+      sourceMap,
+      syntaxErrorLine: findSyntaxErrorLine(code, language),
+      bundle,
+      policy: sandbox,
+      maxLogs,
     });
-  }, [code, timeout, onOutput]);
+
+    killTimerRef.current = setTimeout(() => {
+      if (workerRef.current !== worker) return;
+      worker.terminate();
+      workerRef.current = null;
+      outputRef.current.push({
+        type: 'error',
+        thrown: true,
+        content: `${KILLED_PREFIX} the code didn't yield for ${timeout / 1000}s, so its worker was terminated`,
+      });
+      onOutput(outputRef.current);
+      finishRun(outputRef.current, { timedOut: true, killed: true });
+      setIsRunning(false);
+    }, timeout + KILL_GRACE);
+  }, [runtime, cwd, tsWorker, timeout, sandbox, maxLogs, onOutput, onPackages, onRunComplete]);
+
+  const executeCode = useCallback(
+    () => runCode(code, language),
+    [runCode, code, language]
+  );
+
+  // Kill the running code but keep whatever it printed so far
+  const stopExecution = useCallback(() => {
+    runIdRef.current++;
+    setIsInstalling(false);
+    // Only set while a run is in progress
+    if (!stopRunRef.current) return;
+
+    endSession();
+    setIsRunning(false);
+    const output = appendOutput(outputRef.current, [{ type: 'warn', content: 'Execution stopped' }]);
+    runOutputRef.current(output);
+    stopRunRef.current?.(output);
+  }, []);
+
+  // Sends a request to the session; resolves with its reply, or null if there's
+  // no session or it doesn't answer in time
+  const requestFromSession = useCallback(
+    (message: { type: 'evaluate' | 'getCompletions' } & Record<string, unknown>, wait: number) => {
+      const worker = workerRef.current;
+      if (!worker) return Promise.resolve(null);
+
+      const id = ++requestIdRef.current;
+      return new Promise<ExecutorEvent | null>((resolve) => {
+        const timer = setTimeout(() => {
+          requestsRef.current.delete(id);
+          resolve(null);
+        }, wait);
+        requestsRef.current.set(id, (reply) => {
+          clearTimeout(timer);
+          resolve(reply);
+        });
+        worker.postMessage({ ...message, id });
+      });
+    },
+    []
+  );
+
+  /**
+   * Evaluates REPL input in the scope the last run left behind. The input
+   * and its result are appended to that run's output.
+   */
+  const evaluate = useCallback(async (input: string) => {
+    // The session belongs to the tab that ran it
+    const hasSession = workerRef.current !== null && runOutputRef.current === onOutput;
+    const print = (messages: ConsoleMessage[]) => {
+      runOutputRef.current(appendOutput(outputRef.current, messages));
+    };
+    if (!hasSession) {
+      onOutput([{ type: 'input', content: input }, {
+        type: 'warn',
+        content: 'There is no session to evaluate in. Run the code first.',
+      }]);
+      return;
+    }
+    print([{ type: 'input', content: input }]);
+
+    try {
+      const repl = prepareReplInput(input, language);
+      let prepared = repl.code;
+      if (language !== 'js') {
+        if (!tsWorker) {
+          print([{ type: 'error', content: 'TypeScript compiler is still loading, try again in a moment.' }]);
+          return;
+        }
+        const result = await tsWorker.transpile(prepared, language);
+        if (result.diagnostics.length > 0) {
+          print(result.diagnostics.map(diagnostic => ({
+            type: 'error',
+            content: `SyntaxError: ${diagnostic.message}`,
+          })));
+          return;
+        }
+        prepared = result.code;
+      }
+
+      const imports = findImports(input, language);
+      const bundle = imports.length > 0 && tsWorker
+        ? await tsWorker.bundleImports(
+            imports,
+            localPackageSource && Comlink.proxy(localPackageSource),
+            sandbox.allowNetwork
+          )
+        : undefined;
+
+      sessionNamesRef.current = [...sessionNamesRef.current, ...findTopLevelNames(input, language)];
+      const worker = workerRef.current;
+      const reply = await requestFromSession({ type: 'evaluate', code: prepared, isAsync: repl.isAsync, bundle }, timeout);
+
+      // Like a run, input that doesn't finish in time is stopped, which ends
+      // the session
+      if (!reply && workerRef.current === worker && worker) {
+        worker.terminate();
+        workerRef.current = null;
+        print([{ type: 'warn', content: `⏱ Evaluation timed out after ${timeout / 1000}s. Run the code to start a new session.` }]);
+      }
+    } catch (error) {
+      // Compiling or installing packages failed, e.g. a worker crashed
+      print([{ type: 'error', content: `Error: ${(error as Error).message}` }]);
+    }
+  }, [language, tsWorker, timeout, sandbox, onOutput, requestFromSession]);
+
+  /** Names to complete after `target.`, or names in scope when `target` is empty. */
+  const getCompletions = useCallback(async (target: string) => {
+    const reply = await requestFromSession({ type: 'getCompletions', target }, 1000);
+    const names = reply?.type === 'completions' ? reply.names : [];
+    return target ? names : [...new Set([...sessionNamesRef.current, ...names])];
+  }, [requestFromSession]);
 
   useEffect(() => {
     if (!autoExecute) return;
@@ -62,7 +487,7 @@ export function useCodeExecution({
     }
 
     timeoutRef.current = setTimeout(() => {
-      executeCode();
+      runCode(code, language, { isAutoRun: true });
     }, autoExecuteDelay);
 
     return () => {
@@ -70,18 +495,24 @@ export function useCodeExecution({
         clearTimeout(timeoutRef.current);
       }
     };
-  }, [code, autoExecute, autoExecuteDelay, executeCode]);
+  }, [code, language, autoExecute, autoExecuteDelay, runCode]);
 
   useEffect(() => {
     return () => {
-      if (workerRef.current) {
-        workerRef.current.terminate();
-      }
+      endSession();
       if (timeoutRef.current) {
         clearTimeout(timeoutRef.current);
       }
     };
   }, []);
 
-  return { executeCode };
+  return {
+    executeCode,
+    runCode,
+    stopExecution,
+    evaluate,
+    getCompletions,
+    isRunning,
+    isInstalling,
+  };
 }
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { usePersistentState } from './usePersistentState';
+import { eventToKeystroke, parseShortcut } from '../utils/shortcuts';
+import type { Command } from '../types';
+
+const MAX_RECENT_COMMANDS = 8;
+
+/**
+ * Runs commands from their keyboard shortcuts, including chords, and
+ * remembers which commands were last run from the palette.
+ */
+export function useCommands(commands: Command[]) {
+  const [recentIds, setRecentIds] = usePersistentState<string[]>('recentCommands', []);
+  const commandsRef = useRef(commands);
+  commandsRef.current = commands;
+
+  // Keystrokes of a chord typed so far
+  const pendingRef = useRef<string[]>([]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const stroke = eventToKeystroke(event);
+      if (!stroke) return;
+
+      const typed = [...pendingRef.current, stroke];
+      pendingRef.current = [];
+
+      const matching: Command[] = [];
+      let isChordStart = false;
+      for (const command of commandsRef.current) {
+        for (const shortcut of command.shortcuts ?? []) {
+          const strokes = parseShortcut(shortcut);
+          if (!typed.every((typedStroke, i) => typedStroke === strokes[i])) continue;
+          if (strokes.length === typed.length) {
+            matching.push(command);
+          } else {
+            isChordStart = true;
+          }
+        }
+      }
+
+      // Wait for the rest of the chord
+      if (isChordStart) {
+        event.preventDefault();
+        pendingRef.current = typed;
+        return;
+      }
+      if (matching.length === 0) return;
+
+      // A disabled command still owns its shortcut, so the browser's default
+      // (e.g. reload on Cmd+R) doesn't kick in
+      event.preventDefault();
+      matching.find(command => command.isEnabled !== false)?.run();
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
+  const runFromPalette = useCallback((command: Command) => {
+    setRecentIds(ids =>
+      [command.id, ...ids.filter(id => id !== command.id)].slice(0, MAX_RECENT_COMMANDS)
+    );
+    command.run();
+  }, [setRecentIds]);
+
+  return { recentIds, runFromPalette };
+}
@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useRef } from 'react';
+import {
+  canUseFiles,
+  chooseFilesToOpen,
+  chooseSavePath,
+  confirm,
+  getFileName,
+  readFile,
+  showError,
+  watchFile,
+  writeFile,
+} from '../utils/files';
+import type { Tab } from '../types';
+
+interface UseFilesOptions {
+  tabs: Tab[];
+  openFileTabs: (files: { filePath: string; code: string }[]) => string[];
+  markTabSaved: (tabId: string, filePath: string, code: string) => void;
+  reloadTab: (tabId: string, code: string) => void;
+}
+
+/**
+ * Open, Save and Save As for tabs backed by real files, and reloading those
+ * tabs when their file changes on disk. Only available in the desktop app.
+ */
+export function useFiles({ tabs, openFileTabs, markTabSaved, reloadTab }: UseFilesOptions) {
+  const tabsRef = useRef(tabs);
+  tabsRef.current = tabs;
+  // Files with a reload prompt showing, so more changes don't stack prompts
+  const promptingRef = useRef(new Set<string>());
+
+  // Reads every file first, so the tabs are added together and the tab
+  // limit counts all of them
+  const openFiles = useCallback(async () => {
+    const files: { filePath: string; code: string }[] = [];
+    for (const filePath of await chooseFilesToOpen()) {
+      try {
+        files.push({ filePath, code: await readFile(filePath) });
+      } catch (error) {
+        await showError(`Can't open "${getFileName(filePath)}": ${error}`);
+      }
+    }
+
+    const skipped = openFileTabs(files);
+    if (skipped.length > 0) {
+      const names = skipped.map(filePath => `"${getFileName(filePath)}"`).join(', ');
+      await showError(`Can't open ${names}: close a tab first.`);
+    }
+  }, [openFileTabs]);
+
+  const saveTabAs = useCallback(async (tab: Tab) => {
+    const filePath = await chooseSavePath(tab.filePath ?? `${tab.name}.${tab.language ?? 'js'}`);
+    if (!filePath) return;
+
+    try {
+      await writeFile(filePath, tab.code);
+      markTabSaved(tab.id, filePath, tab.code);
+    } catch (error) {
+      await showError(`Can't save "${getFileName(filePath)}": ${error}`);
+    }
+  }, [markTabSaved]);
+
+  const saveTab = useCallback(async (tab: Tab) => {
+    if (!tab.filePath) {
+      await saveTabAs(tab);
+      return;
+    }
+
+    try {
+      await writeFile(tab.filePath, tab.code);
+      markTabSaved(tab.id, tab.filePath, tab.code);
+    } catch (error) {
+      await showError(`Can't save "${tab.name}": ${error}`);
+    }
+  }, [markTabSaved, saveTabAs]);
+
+  const handleFileChange = useCallback(async (filePath: string, contents: string) => {
+    const tab = tabsRef.current.find(t => t.filePath === filePath);
+    // Our own saves come back as changes too
+    if (!tab || tab.code === contents) {
+      if (tab?.isDirty) reloadTab(tab.id, contents);
+      return;
+    }
+
+    if (tab.isDirty) {
+      if (promptingRef.current.has(filePath)) return;
+      promptingRef.current.add(filePath);
+      const shouldReload = await confirm(
+        `"${tab.name}" changed on disk. Reload it and discard your unsaved changes?`
+      );
+      promptingRef.current.delete(filePath);
+      if (!shouldReload) return;
+    }
+    reloadTab(tab.id, contents);
+  }, [reloadTab]);
+
+  // Watch every open file. The key only changes when files are opened or
+  // closed, not on every edit.
+  const filePathsKey = tabs
+    .map(tab => tab.filePath)
+    .filter(Boolean)
+    .join('\n');
+
+  useEffect(() => {
+    if (!canUseFiles || !filePathsKey) return;
+
+    let isCancelled = false;
+    const unwatchers: (() => void)[] = [];
+
+    for (const filePath of filePathsKey.split('\n')) {
+      // Pick up changes made while the app was closed
+      readFile(filePath).then(
+        (contents) => {
+          // A tab with edits can't tell whether its file changed meanwhile,
+          // so it keeps them
+          const tab = tabsRef.current.find(t => t.filePath === filePath);
+          if (!isCancelled && tab && !tab.isDirty) handleFileChange(filePath, contents);
+        },
+        (error) => console.error(`Failed to read ${filePath}:`, error)
+      );
+
+      watchFile(filePath, (contents) => handleFileChange(filePath, contents)).then(
+        (unwatch) => {
+          if (isCancelled) {
+            unwatch();
+          } else {
+            unwatchers.push(unwatch);
+          }
+        },
+        (error) => console.error(`Failed to watch ${filePath}:`, error)
+      );
+    }
+
+    return () => {
+      isCancelled = true;
+      unwatchers.forEach(unwatch => unwatch());
+    };
+  }, [filePathsKey, handleFileChange]);
+
+  return { canUseFiles, openFiles, saveTab, saveTabAs };
+}
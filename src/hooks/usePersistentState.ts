@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { readRecord, writeRecord } from '../utils/storage';
+
+/** State kept in the storage layer under `key`. */
+export function usePersistentState<T>(key: string, initialValue: T) {
+  const [value, setValue] = useState<T>(() => readRecord<T>(key) ?? initialValue);
+
+  useEffect(() => {
+    writeRecord(key, value);
+  }, [key, value]);
+
+  return [value, setValue] as const;
+}
@@ -1,25 +1,100 @@
-import { useLocalStorage } from './useLocalStorage';
+import { useMemo } from 'react';
+import { usePersistentState } from './usePersistentState';
+import { workspaceKey } from '../utils/storage';
+import { DEFAULT_SANDBOX_POLICY } from '../utils/sandbox';
+import { DEFAULT_FORMAT_OPTIONS } from '../utils/format';
+import { DEFAULT_LINT_RULES } from '../utils/lint';
+import { DEFAULT_EDITOR_OPTIONS } from '../utils/editorOptions';
+import { DARK_THEME } from '../utils/themes';
 import type { Settings } from '../types';
 
-const DEFAULT_SETTINGS: Settings = {
+export const EXECUTION_TIMEOUTS = [3000, 5000, 10000, 30000];
+export const LOG_LIMITS = [1000, 10000, 100000, 1000000];
+export const TAB_LIMITS = [10, 20, 50, 100];
+
+export const DEFAULT_SETTINGS: Settings = {
   autoExecute: true,
   autoExecuteDelay: 500,
   executionTimeout: 5000,
+  maxLogs: 10000,
+  maxTabs: 10,
   splitRatio: 60,
+  keybindings: {},
+  sandbox: DEFAULT_SANDBOX_POLICY,
+  formatOptions: DEFAULT_FORMAT_OPTIONS,
+  formatOnSave: false,
+  formatOnRun: false,
+  lintRules: DEFAULT_LINT_RULES,
+  editor: DEFAULT_EDITOR_OPTIONS,
+  theme: DARK_THEME.id,
+  customThemes: [],
 };
 
-export function useSettings() {
-  const [settings, setSettings] = useLocalStorage<Settings>(
-    'jspad-settings',
+// Settings that are objects, whose fields are filled in one by one
+const NESTED_SETTINGS = ['sandbox', 'formatOptions', 'lintRules', 'editor'] as const;
+
+// Settings saved by older versions lack the newer fields, at the top level
+// and inside the object-valued settings
+function mergeSettings(base: Settings, stored: Partial<Settings>): Settings {
+  const merged = { ...base, ...stored };
+  for (const key of NESTED_SETTINGS) {
+    Object.assign(merged, { [key]: { ...base[key], ...stored[key] } });
+  }
+  return merged;
+}
+
+/**
+ * Settings for all workspaces, with the ones a workspace overrides replaced
+ * by its own values.
+ */
+export function useSettings(workspaceId: string) {
+  const [storedSettings, setSettings] = usePersistentState<Settings>(
+    'settings',
     DEFAULT_SETTINGS
   );
+  const [overrides, setOverrides] = usePersistentState<Partial<Settings>>(
+    workspaceKey(workspaceId, 'settings'),
+    {}
+  );
+  // Memoized so consumers can depend on them
+  const globalSettings = useMemo(() => mergeSettings(DEFAULT_SETTINGS, storedSettings), [storedSettings]);
+  const settings = useMemo(() => mergeSettings(globalSettings, overrides), [globalSettings, overrides]);
 
+  // Settings the workspace overrides are changed there, the rest everywhere
   const updateSettings = (updates: Partial<Settings>) => {
-    setSettings({ ...settings, ...updates });
+    const keys = Object.keys(updates) as (keyof Settings)[];
+    const isOverridden = (key: keyof Settings) => key in overrides;
+    const pick = (predicate: (key: keyof Settings) => boolean) =>
+      Object.fromEntries(keys.filter(predicate).map(key => [key, updates[key]]));
+
+    if (keys.some(key => !isOverridden(key))) {
+      setSettings({ ...globalSettings, ...pick(key => !isOverridden(key)) });
+    }
+    if (keys.some(isOverridden)) {
+      setOverrides({ ...overrides, ...pick(isOverridden) });
+    }
+  };
+
+  const updateGlobalSettings = (updates: Partial<Settings>) => {
+    setSettings({ ...globalSettings, ...updates });
+  };
+
+  // Keeps only the settings that differ from the global ones
+  const setWorkspaceSettings = (workspaceSettings: Settings) => {
+    const keys = Object.keys(workspaceSettings) as (keyof Settings)[];
+    setOverrides(Object.fromEntries(
+      keys
+        .filter(key => JSON.stringify(workspaceSettings[key]) !== JSON.stringify(globalSettings[key]))
+        .map(key => [key, workspaceSettings[key]])
+    ));
   };
 
   return {
     settings,
+    globalSettings,
+    overrides,
     updateSettings,
+    updateGlobalSettings,
+    setWorkspaceSettings,
   };
 }
@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { isTauri } from '@tauri-apps/api/core';
+import { getCurrent, onOpenUrl } from '@tauri-apps/plugin-deep-link';
+import { chooseWorkspaceFile, confirm, exportWorkspaceFile, showError } from '../utils/files';
+import {
+  createShareLink,
+  decodeShareData,
+  defaultShareLinkKind,
+  exportWorkspace,
+  getShareData,
+  parseWorkspace,
+  WORKSPACE_EXTENSION,
+  type SharedTab,
+  type ShareLinkKind,
+} from '../utils/share';
+import type { Settings, Tab } from '../types';
+
+interface UseSharingOptions {
+  tabs: Tab[];
+  activeTabId: string;
+  settings: Settings;
+  canCreateTab: boolean;
+  createTab: (initial: SharedTab & Pick<Tab, 'isUntrusted'>) => void;
+  replaceTabs: (tabs: (SharedTab & Pick<Tab, 'isUntrusted'>)[], activeIndex: number) => number;
+  updateSettings: (updates: Partial<Settings>) => void;
+  setWorkspaceSettings: (settings: Settings) => void;
+}
+
+// The link the desktop app was launched with is only opened once, even
+// though StrictMode mounts the app twice
+let hasOpenedLaunchLinks = false;
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Share links for single tabs and `.jspad` files for whole workspaces. Links
+ * opened in the browser (`#share=`) or the desktop app (`jspad://`) become
+ * new tabs.
+ */
+export function useSharing(options: UseSharingOptions) {
+  // Links arrive from outside React, so they read the latest state from here
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const openShareData = useCallback(async (encoded: string) => {
+    try {
+      const { tab, settings: sharedSettings } = await decodeShareData(encoded);
+      const { canCreateTab, createTab, settings } = optionsRef.current;
+      if (!canCreateTab) {
+        await showError(`Can't open "${tab.name}": close a tab first.`);
+        return;
+      }
+      // Someone else's code only runs once the user asks for it
+      createTab({ ...tab, isUntrusted: true });
+
+      const currentSettings = { executionTimeout: settings.executionTimeout, sandbox: settings.sandbox };
+      if (
+        JSON.stringify(sharedSettings) !== JSON.stringify(currentSettings) &&
+        await confirm(`"${tab.name}" was shared with a different timeout or sandbox. Use its settings?`)
+      ) {
+        optionsRef.current.updateSettings(sharedSettings);
+      }
+    } catch (error) {
+      await showError(`Can't open the shared tab: ${describeError(error)}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    const openLinks = (links: string[] | null) => {
+      for (const link of links ?? []) {
+        const encoded = getShareData(link);
+        if (encoded) openShareData(encoded);
+      }
+    };
+
+    if (!isTauri()) {
+      const handleHashChange = () => {
+        const encoded = getShareData(location.hash);
+        if (!encoded) return;
+        // So reloading doesn't open the tab again
+        history.replaceState(null, '', location.pathname + location.search);
+        openShareData(encoded);
+      };
+      handleHashChange();
+      window.addEventListener('hashchange', handleHashChange);
+      return () => window.removeEventListener('hashchange', handleHashChange);
+    }
+
+    if (!hasOpenedLaunchLinks) {
+      hasOpenedLaunchLinks = true;
+      getCurrent().then(openLinks, (error) => console.error('Failed to read the launch link:', error));
+    }
+
+    let isCancelled = false;
+    let unlisten: (() => void) | undefined;
+    onOpenUrl(openLinks).then(
+      (stop) => {
+        if (isCancelled) {
+          stop();
+        } else {
+          unlisten = stop;
+        }
+      },
+      (error) => console.error('Failed to listen for links:', error)
+    );
+    return () => {
+      isCancelled = true;
+      unlisten?.();
+    };
+  }, [openShareData]);
+
+  // Resolves to whether the link was copied
+  const copyShareLink = useCallback(async (tab: Tab, kind: ShareLinkKind = defaultShareLinkKind) => {
+    try {
+      await navigator.clipboard.writeText(await createShareLink(tab, optionsRef.current.settings, kind));
+      return true;
+    } catch (error) {
+      await showError(`Can't share "${tab.name}": ${describeError(error)}`);
+      return false;
+    }
+  }, []);
+
+  const exportWorkspaceToFile = useCallback(async () => {
+    const { tabs, activeTabId, settings } = optionsRef.current;
+    try {
+      await exportWorkspaceFile(`workspace.${WORKSPACE_EXTENSION}`, exportWorkspace(tabs, activeTabId, settings));
+    } catch (error) {
+      await showError(`Can't export the workspace: ${describeError(error)}`);
+    }
+  }, []);
+
+  const importWorkspaceFromFile = useCallback(async () => {
+    try {
+      const json = await chooseWorkspaceFile();
+      if (json === null) return;
+      const workspace = parseWorkspace(json);
+
+      const hasUnsavedChanges = optionsRef.current.tabs.some(tab => tab.isDirty);
+      const shouldReplace = await confirm(
+        `Replace this workspace's tabs and settings with the file's ${workspace.tabs.length} tab(s)?` +
+        (hasUnsavedChanges ? ' Unsaved changes will be lost.' : '')
+      );
+      if (!shouldReplace) return;
+
+      const { replaceTabs, setWorkspaceSettings } = optionsRef.current;
+      const openedCount = replaceTabs(
+        workspace.tabs.map(tab => ({ ...tab, isUntrusted: true })),
+        workspace.activeIndex
+      );
+      setWorkspaceSettings(workspace.settings);
+      if (openedCount < workspace.tabs.length) {
+        await showError(`Only the first ${openedCount} of the workspace's ${workspace.tabs.length} tabs were opened.`);
+      }
+    } catch (error) {
+      await showError(`Can't import the workspace: ${describeError(error)}`);
+    }
+  }, []);
+
+  return {
+    copyShareLink,
+    exportWorkspace: exportWorkspaceToFile,
+    importWorkspace: importWorkspaceFromFile,
+  };
+}
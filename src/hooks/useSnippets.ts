@@ -0,0 +1,91 @@
+import { useCallback } from 'react';
+import { nanoid } from 'nanoid';
+import { usePersistentState } from './usePersistentState';
+import { isLanguage } from '../utils/language';
+import type { Snippet } from '../types';
+
+const EXPORT_VERSION = 1;
+
+interface SnippetExport {
+  version: number;
+  snippets: Snippet[];
+}
+
+export type NewSnippet = Pick<Snippet, 'name' | 'tags' | 'code' | 'language'>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Accepts our export format or a bare array, filling in what's missing
+function parseSnippets(json: string): Snippet[] {
+  const data = JSON.parse(json) as SnippetExport | unknown[];
+  const items = Array.isArray(data) ? data : data?.snippets;
+  if (!Array.isArray(items)) {
+    throw new Error('Expected a list of snippets');
+  }
+
+  const now = Date.now();
+  return items.map((item: unknown, index) => {
+    if (!isPlainObject(item) || typeof item.name !== 'string' || typeof item.code !== 'string') {
+      throw new Error(`Snippet ${index + 1} needs a name and code`);
+    }
+    return {
+      id: typeof item.id === 'string' ? item.id : nanoid(),
+      name: item.name,
+      tags: Array.isArray(item.tags) ? item.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+      code: item.code,
+      language: isLanguage(item.language) ? item.language : 'js',
+      createdAt: typeof item.createdAt === 'number' ? item.createdAt : now,
+      updatedAt: typeof item.updatedAt === 'number' ? item.updatedAt : now,
+    };
+  });
+}
+
+/** Reusable code saved separately from tabs, under `snippets`. */
+export function useSnippets() {
+  const [snippets, setSnippets] = usePersistentState<Snippet[]>('snippets', []);
+
+  const addSnippet = useCallback((snippet: NewSnippet) => {
+    const now = Date.now();
+    const newSnippet: Snippet = { ...snippet, id: nanoid(), createdAt: now, updatedAt: now };
+    setSnippets((current) => [newSnippet, ...current]);
+    return newSnippet;
+  }, [setSnippets]);
+
+  const updateSnippet = useCallback((id: string, updates: Partial<NewSnippet>) => {
+    setSnippets((current) =>
+      current.map(snippet =>
+        snippet.id === id ? { ...snippet, ...updates, updatedAt: Date.now() } : snippet
+      )
+    );
+  }, [setSnippets]);
+
+  const deleteSnippet = useCallback((id: string) => {
+    setSnippets((current) => current.filter(snippet => snippet.id !== id));
+  }, [setSnippets]);
+
+  // Imported snippets replace ones with the same id. Returns how many were imported.
+  const importSnippets = useCallback((json: string) => {
+    const imported = parseSnippets(json);
+    const importedIds = new Set(imported.map(snippet => snippet.id));
+    setSnippets((current) => [
+      ...imported,
+      ...current.filter(snippet => !importedIds.has(snippet.id)),
+    ]);
+    return imported.length;
+  }, [setSnippets]);
+
+  const exportSnippets = useCallback(() => {
+    const data: SnippetExport = { version: EXPORT_VERSION, snippets };
+    return JSON.stringify(data, null, 2);
+  }, [snippets]);
+
+  return {
+    snippets,
+    addSnippet,
+    updateSnippet,
+    deleteSnippet,
+    importSnippets,
+    exportSnippets,
+  };
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getStorageStatus, subscribeStorageStatus } from '../utils/storage';
+
+/** Whether changes are being saved, and what was recovered at startup. */
+export function useStorageStatus() {
+  return useSyncExternalStore(subscribeStorageStatus, getStorageStatus);
+}
@@ -1,62 +1,150 @@
-import { useCallback } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { nanoid } from 'nanoid';
-import { useLocalStorage } from './useLocalStorage';
-import type { Tab } from '../types';
+import { usePersistentState } from './usePersistentState';
+import { loadTabs, saveTabs, workspaceKey } from '../utils/storage';
+import { getFileName } from '../utils/files';
+import { getLanguageForPath } from '../utils/language';
+import type { Language, PackageInfo, RunRecord, Runtime, Tab } from '../types';
 
-const MAX_TABS = 10;
+// Runs kept per tab; older ones are dropped
+export const MAX_HISTORY = 20;
+// Messages kept of each run's output, from its end, where errors usually are
+export const MAX_RUN_OUTPUT = 500;
+// Closed tabs that can be reopened
+const MAX_CLOSED_TABS = 20;
 
-export function useTabs() {
-  const [tabs, setTabs] = useLocalStorage<Tab[]>('jspad-tabs', [
-    {
+interface ClosedTab {
+  tab: Tab;
+  index: number;
+}
+
+// Pinned tabs stay in front of the others
+const countPinned = (tabs: Tab[]) => tabs.filter(tab => tab.isPinned).length;
+
+/**
+ * The tabs of one workspace, which must be open in storage. `maxTabs` caps
+ * how many can be open.
+ */
+export function useTabs(workspaceId: string, maxTabs: number) {
+  const [tabs, setTabs] = useState<Tab[]>(() => {
+    const storedTabs = loadTabs(workspaceId);
+    return storedTabs.length > 0 ? storedTabs : [{
       id: nanoid(),
       name: 'Untitled 1',
       code: '',
+      language: 'js',
       consoleOutput: [],
-    },
-  ]);
+    }];
+  });
 
-  const [activeTabId, setActiveTabId] = useLocalStorage<string>(
-    'jspad-active-tab',
+  // For callbacks that run after awaiting something, when `tabs` may be stale
+  const tabsRef = useRef(tabs);
+  tabsRef.current = tabs;
+
+  // Each tab is its own record, so only the tabs that changed get written
+  useEffect(() => {
+    saveTabs(workspaceId, tabs);
+  }, [workspaceId, tabs]);
+
+  const [activeTabId, setActiveTabId] = usePersistentState<string>(
+    workspaceKey(workspaceId, 'activeTabId'),
     tabs[0]?.id || ''
   );
 
   const activeTab = tabs.find(tab => tab.id === activeTabId) || tabs[0];
+  // Most recently closed last; only kept while the workspace is open
+  const [closedTabs, setClosedTabs] = useState<ClosedTab[]>([]);
 
-  const createTab = useCallback(() => {
+  // Starts empty unless given initial contents, e.g. from a snippet
+  const createTab = useCallback((initial?: Partial<Pick<Tab, 'name' | 'code' | 'language' | 'runtime' | 'isUntrusted'>>) => {
     setTabs((currentTabs) => {
-      if (currentTabs.length >= MAX_TABS) return currentTabs;
+      if (currentTabs.length >= maxTabs) return currentTabs;
 
       const untitledCount = currentTabs.filter(t => t.name.startsWith('Untitled')).length;
       const newTab: Tab = {
         id: nanoid(),
         name: `Untitled ${untitledCount + 1}`,
         code: '',
+        language: 'js',
         consoleOutput: [],
+        ...initial,
       };
 
       setActiveTabId(newTab.id);
       return [...currentTabs, newTab];
     });
-  }, [setTabs, setActiveTabId]);
+  }, [maxTabs, setTabs, setActiveTabId]);
 
-  const closeTab = useCallback((tabId: string) => {
-    setTabs((currentTabs) => {
-      if (currentTabs.length === 1) {
-        // Don't close the last tab
-        return currentTabs;
-      }
+  // Closed tabs can be reopened. The last tab always stays open.
+  const closeTabs = useCallback((tabIds: string[]) => {
+    const closing = new Set(tabIds);
+    const remaining = tabs.filter(tab => !closing.has(tab.id));
+    if (remaining.length === 0 || remaining.length === tabs.length) return;
 
-      const tabIndex = currentTabs.findIndex(t => t.id === tabId);
-      const newTabs = currentTabs.filter(t => t.id !== tabId);
+    const closed = tabs.flatMap((tab, index) =>
+      closing.has(tab.id) ? [{ tab: { ...tab, consoleOutput: [] }, index }] : []
+    );
+    setClosedTabs(current => [...current, ...closed].slice(-MAX_CLOSED_TABS));
 
-      if (activeTabId === tabId) {
-        const nextIndex = Math.min(tabIndex, newTabs.length - 1);
-        setActiveTabId(newTabs[nextIndex].id);
-      }
+    if (closing.has(activeTabId)) {
+      // The next open tab, or the previous one if none follow
+      const activeIndex = tabs.findIndex(tab => tab.id === activeTabId);
+      const nextTab = tabs.slice(activeIndex + 1).find(tab => !closing.has(tab.id))
+        ?? tabs.slice(0, activeIndex).reverse().find(tab => !closing.has(tab.id))!;
+      setActiveTabId(nextTab.id);
+    }
+    setTabs(remaining);
+  }, [tabs, activeTabId, setTabs, setActiveTabId]);
 
-      return newTabs;
+  const closeTab = useCallback((tabId: string) => closeTabs([tabId]), [closeTabs]);
+
+  // Returns false when there's nothing to reopen or no room for it
+  const reopenClosedTab = useCallback(() => {
+    const closed = closedTabs[closedTabs.length - 1];
+    if (!closed || tabs.length >= maxTabs) return false;
+
+    const pinnedCount = countPinned(tabs);
+    const index = closed.tab.isPinned
+      ? Math.min(closed.index, pinnedCount)
+      : Math.min(Math.max(closed.index, pinnedCount), tabs.length);
+    setClosedTabs(closedTabs.slice(0, -1));
+    setTabs([...tabs.slice(0, index), closed.tab, ...tabs.slice(index)]);
+    setActiveTabId(closed.tab.id);
+    return true;
+  }, [closedTabs, tabs, maxTabs, setTabs, setActiveTabId]);
+
+  // The copy opens next to the tab, unlinked from its file
+  const duplicateTab = useCallback((tabId: string) => {
+    const index = tabs.findIndex(tab => tab.id === tabId);
+    if (index === -1 || tabs.length >= maxTabs) return;
+
+    const { name, code, language, runtime, isPinned, isUntrusted } = tabs[index];
+    const newTab: Tab = {
+      id: nanoid(),
+      name: `${name} copy`,
+      code,
+      language,
+      runtime,
+      isPinned,
+      isUntrusted,
+      consoleOutput: [],
+    };
+    setTabs([...tabs.slice(0, index + 1), newTab, ...tabs.slice(index + 1)]);
+    setActiveTabId(newTab.id);
+  }, [tabs, maxTabs, setTabs, setActiveTabId]);
+
+  // Pinning moves the tab to the end of the pinned tabs, unpinning to the
+  // start of the rest
+  const pinTab = useCallback((tabId: string, isPinned: boolean) => {
+    setTabs((currentTabs) => {
+      const tab = currentTabs.find(t => t.id === tabId);
+      if (!tab || !!tab.isPinned === isPinned) return currentTabs;
+
+      const others = currentTabs.filter(t => t.id !== tabId);
+      const pinnedCount = countPinned(others);
+      return [...others.slice(0, pinnedCount), { ...tab, isPinned }, ...others.slice(pinnedCount)];
     });
-  }, [activeTabId, setTabs, setActiveTabId]);
+  }, [setTabs]);
 
   const updateTabName = useCallback((tabId: string, name: string) => {
     setTabs((currentTabs) =>
@@ -71,7 +159,103 @@ export function useTabs() {
   const updateTabCode = useCallback((tabId: string, code: string) => {
     setTabs((currentTabs) =>
       currentTabs.map(tab =>
-        tab.id === tabId ? { ...tab, code } : tab
+        tab.id === tabId
+          // Only file tabs have unsaved changes; scratch tabs are always persisted.
+          // Editing a tab that was opened from a link makes it the user's own.
+          ? {
+              ...tab,
+              code,
+              isDirty: tab.isDirty || (tab.filePath !== undefined && code !== tab.code),
+              isUntrusted: undefined,
+            }
+          : tab
+      )
+    );
+  }, [setTabs]);
+
+  // Opens files in new tabs in one update, switching to the last one. Files
+  // that are already open aren't opened again. Returns the paths of the
+  // files that didn't fit under the tab limit.
+  const openFileTabs = useCallback((files: { filePath: string; code: string }[]) => {
+    const newTabs: Tab[] = [];
+    const skipped: string[] = [];
+    let activeId: string | undefined;
+
+    for (const { filePath, code } of files) {
+      const existing = tabsRef.current.find(tab => tab.filePath === filePath)
+        ?? newTabs.find(tab => tab.filePath === filePath);
+      if (existing) {
+        activeId = existing.id;
+      } else if (tabsRef.current.length + newTabs.length >= maxTabs) {
+        skipped.push(filePath);
+      } else {
+        const newTab: Tab = {
+          id: nanoid(),
+          name: getFileName(filePath),
+          code,
+          language: getLanguageForPath(filePath) ?? 'js',
+          consoleOutput: [],
+          filePath,
+          isDirty: false,
+        };
+        newTabs.push(newTab);
+        activeId = newTab.id;
+      }
+    }
+
+    if (newTabs.length > 0) setTabs((currentTabs) => [...currentTabs, ...newTabs]);
+    if (activeId) setActiveTabId(activeId);
+    return skipped;
+  }, [maxTabs, setTabs, setActiveTabId]);
+
+  // `code` is what was written, which may be behind the tab if it was
+  // edited while saving
+  const markTabSaved = useCallback((tabId: string, filePath: string, code: string) => {
+    setTabs((currentTabs) =>
+      currentTabs.map(tab =>
+        tab.id === tabId
+          ? {
+              ...tab,
+              name: getFileName(filePath),
+              language: getLanguageForPath(filePath) ?? tab.language,
+              filePath,
+              isDirty: tab.code !== code,
+            }
+          : tab
+      )
+    );
+  }, [setTabs]);
+
+  // Replaces a file tab's code with what's on disk
+  const reloadTab = useCallback((tabId: string, code: string) => {
+    setTabs((currentTabs) =>
+      currentTabs.map(tab =>
+        tab.id === tabId ? { ...tab, code, isDirty: false } : tab
+      )
+    );
+  }, [setTabs]);
+
+  // Running a tab by hand allows it to auto-run from then on
+  const trustTab = useCallback((tabId: string) => {
+    setTabs((currentTabs) =>
+      currentTabs.map(tab =>
+        tab.id === tabId && tab.isUntrusted ? { ...tab, isUntrusted: undefined } : tab
+      )
+    );
+  }, [setTabs]);
+
+  const updateTabLanguage = useCallback((tabId: string, language: Language) => {
+    setTabs((currentTabs) =>
+      currentTabs.map(tab =>
+        tab.id === tabId ? { ...tab, language } : tab
+      )
+    );
+  }, [setTabs]);
+
+  const updateTabRuntime = useCallback((tabId: string, runtime: Runtime) => {
+    setTabs((currentTabs) =>
+      currentTabs.map(tab =>
+        tab.id === tabId ? { ...tab, runtime } : tab
       )
     );
   }, [setTabs]);
@@ -84,30 +268,112 @@ export function useTabs() {
     );
   }, [setTabs]);
 
+  const updateTabPackages = useCallback((tabId: string, packages: PackageInfo[]) => {
+    setTabs((currentTabs) =>
+      currentTabs.map(tab =>
+        tab.id === tabId ? { ...tab, packages } : tab
+      )
+    );
+  }, [setTabs]);
+
+  const addTabRun = useCallback((tabId: string, run: RunRecord) => {
+    const dropped = run.output.length - MAX_RUN_OUTPUT;
+    const kept: RunRecord = dropped > 0
+      ? {
+          ...run,
+          output: [
+            { type: 'warn', content: `${dropped.toLocaleString()} earlier messages weren't kept in history` },
+            ...run.output.slice(-MAX_RUN_OUTPUT),
+          ],
+        }
+      : run;
+    setTabs((currentTabs) =>
+      currentTabs.map(tab =>
+        tab.id === tabId
+          ? { ...tab, history: [...(tab.history ?? []), kept].slice(-MAX_HISTORY) }
+          : tab
+      )
+    );
+  }, [setTabs]);
+
+  const clearTabHistory = useCallback((tabId: string) => {
+    setTabs((currentTabs) =>
+      currentTabs.map(tab =>
+        tab.id === tabId ? { ...tab, history: [] } : tab
+      )
+    );
+  }, [setTabs]);
+
+  // Swaps every tab for new ones, e.g. from an imported workspace. Tabs past
+  // the limit are dropped; returns how many were kept.
+  const replaceTabs = useCallback((
+    newTabs: Pick<Tab, 'name' | 'code' | 'language' | 'runtime' | 'isUntrusted'>[],
+    activeIndex = 0
+  ) => {
+    const kept = newTabs.slice(0, maxTabs).map((tab): Tab => ({
+      ...tab,
+      id: nanoid(),
+      consoleOutput: [],
+    }));
+    setTabs(kept);
+    setActiveTabId(kept[Math.min(activeIndex, kept.length - 1)].id);
+    setClosedTabs([]);
+    return kept.length;
+  }, [maxTabs, setTabs, setActiveTabId]);
+
   const switchToTab = useCallback((tabId: string) => {
     setActiveTabId(tabId);
   }, [setActiveTabId]);
 
+  // Tabs only move among the pinned tabs or among the rest
   const reorderTabs = useCallback((fromIndex: number, toIndex: number) => {
     setTabs((currentTabs) => {
+      const moved = currentTabs[fromIndex];
+      if (!moved) return currentTabs;
+      const pinnedCount = countPinned(currentTabs);
+      const [first, last] = moved.isPinned ? [0, pinnedCount - 1] : [pinnedCount, currentTabs.length - 1];
+      const index = Math.min(Math.max(toIndex, first), last);
+      if (index === fromIndex) return currentTabs;
+
       const newTabs = [...currentTabs];
-      const [removed] = newTabs.splice(fromIndex, 1);
-      newTabs.splice(toIndex, 0, removed);
+      newTabs.splice(fromIndex, 1);
+      newTabs.splice(index, 0, moved);
       return newTabs;
     });
   }, [setTabs]);
 
+  const moveTab = useCallback((tabId: string, offset: number) => {
+    const index = tabs.findIndex(tab => tab.id === tabId);
+    if (index !== -1) reorderTabs(index, index + offset);
+  }, [tabs, reorderTabs]);
+
   return {
     tabs,
     activeTab,
     activeTabId,
     createTab,
     closeTab,
+    closeTabs,
+    reopenClosedTab,
+    canReopenTab: closedTabs.length > 0 && tabs.length < maxTabs,
+    duplicateTab,
+    pinTab,
     updateTabName,
     updateTabCode,
+    trustTab,
+    updateTabLanguage,
+    updateTabRuntime,
     updateTabConsole,
+    updateTabPackages,
+    addTabRun,
+    clearTabHistory,
+    openFileTabs,
+    markTabSaved,
+    reloadTab,
+    replaceTabs,
     switchToTab,
     reorderTabs,
-    canCreateTab: tabs.length < MAX_TABS,
+    moveTab,
+    canCreateTab: tabs.length < maxTabs,
   };
 }
@@ -0,0 +1,52 @@
+import { useCallback, useLayoutEffect, useMemo, useSyncExternalStore } from 'react';
+import { chooseThemeFile, showError } from '../utils/files';
+import { applyTheme, parseTheme, resolveTheme } from '../utils/themes';
+import type { Settings, Theme } from '../types';
+
+const darkQuery = window.matchMedia('(prefers-color-scheme: dark)');
+const contrastQuery = window.matchMedia('(prefers-contrast: more), (forced-colors: active)');
+
+const subscribeSystemTheme = (onChange: () => void) => {
+  darkQuery.addEventListener('change', onChange);
+  contrastQuery.addEventListener('change', onChange);
+  return () => {
+    darkQuery.removeEventListener('change', onChange);
+    contrastQuery.removeEventListener('change', onChange);
+  };
+};
+
+// One value so React can compare snapshots
+const getSystemTheme = () => `${darkQuery.matches ? 'dark' : 'light'}${contrastQuery.matches ? '+contrast' : ''}`;
+
+/**
+ * The theme the settings pick, following the OS for the system theme. Its
+ * colors are applied to the page as CSS variables for Tailwind.
+ */
+export function useTheme(settings: Pick<Settings, 'theme' | 'customThemes'>) {
+  const systemTheme = useSyncExternalStore(subscribeSystemTheme, getSystemTheme);
+  const { theme: themeId, customThemes } = settings;
+
+  const theme = useMemo(
+    () => resolveTheme(themeId, customThemes, {
+      prefersDark: systemTheme.startsWith('dark'),
+      prefersContrast: systemTheme.endsWith('+contrast'),
+    }),
+    [themeId, customThemes, systemTheme]
+  );
+
+  useLayoutEffect(() => applyTheme(theme), [theme]);
+
+  // Asks for a theme file and reads it. Resolves to null when cancelled or
+  // the file isn't a theme.
+  const chooseTheme = useCallback(async (): Promise<Theme | null> => {
+    try {
+      const text = await chooseThemeFile();
+      return text === null ? null : parseTheme(text);
+    } catch (error) {
+      await showError(`Can't import the theme: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }, []);
+
+  return { theme, chooseTheme };
+}
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import * as Comlink from 'comlink';
+import type { TypeScriptWorker } from '../workers/ts-language.worker';
+
+export type TypeScriptWorkerApi = Comlink.Remote<TypeScriptWorker>;
+
+/**
+ * Starts the TypeScript language service worker once for the app. Returns
+ * null until the environment is ready, and keeps returning null if it fails
+ * to start so the editor falls back to plain JavaScript support.
+ */
+export function useTypeScriptWorker() {
+  const [api, setApi] = useState<TypeScriptWorkerApi | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    const worker = new Worker(
+      new URL('../workers/ts-language.worker.ts', import.meta.url),
+      { type: 'module' }
+    );
+
+    worker.onerror = (error) => {
+      console.error('TypeScript worker error:', error);
+    };
+
+    const remote = Comlink.wrap<TypeScriptWorker>(worker);
+    remote.initialize().then(
+      () => {
+        if (!isCancelled) setApi(() => remote);
+      },
+      (error) => {
+        console.error('Failed to initialize TypeScript worker:', error);
+      }
+    );
+
+    return () => {
+      isCancelled = true;
+      worker.terminate();
+      setApi(null);
+    };
+  }, []);
+
+  return api;
+}
@@ -0,0 +1,102 @@
+import { useCallback, useState } from 'react';
+import { nanoid } from 'nanoid';
+import { usePersistentState } from './usePersistentState';
+import {
+  ACTIVE_WORKSPACE_KEY,
+  DEFAULT_WORKSPACE,
+  WORKSPACES_KEY,
+  copyWorkspace,
+  deleteWorkspace as deleteWorkspaceRecords,
+  openWorkspace,
+} from '../utils/storage';
+import type { Workspace } from '../types';
+
+/**
+ * Named sets of tabs. Only the active workspace is loaded; switching saves
+ * it, loads the next one from storage and lets the previous one go.
+ */
+export function useWorkspaces() {
+  const [workspaces, setWorkspaces] = usePersistentState<Workspace[]>(
+    WORKSPACES_KEY,
+    [DEFAULT_WORKSPACE]
+  );
+  // initStorage has opened this one and made sure it exists
+  const [activeWorkspaceId, setActiveWorkspaceId] = usePersistentState<string>(
+    ACTIVE_WORKSPACE_KEY,
+    DEFAULT_WORKSPACE.id
+  );
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  const activeWorkspace = workspaces.find(w => w.id === activeWorkspaceId) ?? workspaces[0];
+
+  const switchWorkspace = useCallback(async (workspaceId: string) => {
+    setIsSwitching(true);
+    try {
+      await openWorkspace(workspaceId);
+      setActiveWorkspaceId(workspaceId);
+    } finally {
+      setIsSwitching(false);
+    }
+  }, [setActiveWorkspaceId]);
+
+  // New workspaces start with one empty tab, like a fresh install
+  const createWorkspace = useCallback(async () => {
+    const workspace: Workspace = { id: nanoid(), name: `Workspace ${workspaces.length + 1}` };
+    setWorkspaces(current => [...current, workspace]);
+    await switchWorkspace(workspace.id);
+  }, [workspaces.length, setWorkspaces, switchWorkspace]);
+
+  const duplicateWorkspace = useCallback(async (workspaceId: string) => {
+    const source = workspaces.find(w => w.id === workspaceId);
+    if (!source) return;
+
+    const workspace: Workspace = { id: nanoid(), name: `${source.name} copy` };
+    setIsSwitching(true);
+    try {
+      await copyWorkspace(source.id, workspace.id);
+    } finally {
+      setIsSwitching(false);
+    }
+    setWorkspaces(current => {
+      const index = current.findIndex(w => w.id === source.id);
+      return [...current.slice(0, index + 1), workspace, ...current.slice(index + 1)];
+    });
+    await switchWorkspace(workspace.id);
+  }, [workspaces, setWorkspaces, switchWorkspace]);
+
+  const renameWorkspace = useCallback((workspaceId: string, name: string) => {
+    setWorkspaces(current =>
+      current.map((workspace, index) =>
+        workspace.id === workspaceId
+          ? { ...workspace, name: name.trim() || `Workspace ${index + 1}` }
+          : workspace
+      )
+    );
+  }, [setWorkspaces]);
+
+  // The last workspace can't be deleted. Deleting the active one switches to
+  // its neighbour first.
+  const deleteWorkspace = useCallback(async (workspaceId: string) => {
+    if (workspaces.length === 1) return;
+
+    if (workspaceId === activeWorkspace.id) {
+      const index = workspaces.findIndex(w => w.id === workspaceId);
+      await switchWorkspace(workspaces[index === 0 ? 1 : index - 1].id);
+    }
+    setWorkspaces(current => current.filter(w => w.id !== workspaceId));
+    await deleteWorkspaceRecords(workspaceId);
+  }, [workspaces, activeWorkspace.id, setWorkspaces, switchWorkspace]);
+
+  return {
+    workspaces,
+    activeWorkspace,
+    isSwitching,
+    switchWorkspace,
+    createWorkspace,
+    duplicateWorkspace,
+    renameWorkspace,
+    deleteWorkspace,
+  };
+}
+
+export type WorkspacesState = ReturnType<typeof useWorkspaces>;
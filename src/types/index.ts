@@ -1,21 +1,263 @@
+export type Language = 'js' | 'ts' | 'jsx' | 'tsx';
+
+// Where a tab's code runs: the browser worker, or a local process (desktop only)
+export type Runtime = 'browser' | 'node' | 'bun';
+
 export interface Tab {
   id: string;
   name: string;
   code: string;
+  language?: Language; // defaults to 'js' for tabs saved before languages existed
+  runtime?: Runtime; // defaults to 'browser'
+  // Grows in place while a run prints to it, so new output isn't copied.
+  // Only its last messages are stored.
   consoleOutput: ConsoleMessage[];
+  packages?: PackageInfo[]; // npm packages the last run imported
+  filePath?: string; // set for tabs opened from or saved to a file
+  isDirty?: boolean; // file tabs only: edited since the last save or load
+  isPinned?: boolean; // pinned tabs come first and aren't closed in bulk
+  // Opened from a share link or an imported workspace: not auto-run until
+  // it's edited or run by hand
+  isUntrusted?: boolean;
+  history?: RunRecord[]; // past runs, oldest first
+}
+
+// A named set of tabs. Its tabs, active tab and settings overrides are
+// stored under its id.
+export interface Workspace {
+  id: string;
+  name: string;
+}
+
+// One run of a tab's code, kept so its output can be looked at later
+export interface RunRecord {
+  id: string;
+  code: string;
+  language: Language;
+  startedAt: number;
+  duration: number; // ms from starting the code to it finishing
+  output: ConsoleMessage[];
+  timedOut: boolean;
+  stopped?: boolean; // stopped by the user before finishing
+  killed?: boolean; // ended by a sandbox limit
 }
 
 export interface ConsoleMessage {
   line?: number;
-  type: 'log' | 'error' | 'warn';
+  // 'result' is the value of a top-level expression statement or REPL input,
+  // 'input' is what was typed into the REPL, 'separator' starts a run's
+  // output when earlier output is preserved
+  type:
+    | 'input'
+    | 'separator'
+    | 'log'
+    | 'info'
+    | 'debug'
+    | 'warn'
+    | 'error'
+    | 'result'
+    | 'dir'
+    | 'table'
+    | 'group'
+    | 'groupEnd'
+    | 'time'
+    | 'trace';
+  // Plain-text preview of the message, used wherever a string is needed
   content: any;
+  // Structured form of each logged argument, rendered by the object inspector
+  args?: SerializedValue[];
+  table?: ConsoleTable; // for 'table'
+  collapsed?: boolean; // for 'group' started with console.groupCollapsed
+  stack?: string; // for 'trace' and thrown errors, frames mapped to source lines
+  thrown?: boolean; // an uncaught error rather than a console.error call
+}
+
+export interface ConsoleTable {
+  columns: string[];
+  rows: {
+    key: string;
+    cells: Record<string, SerializedValue>;
+  }[];
+}
+
+export interface SerializedEntry {
+  // Property name for objects and arrays, serialized key for maps, none for sets
+  key?: string | SerializedValue;
+  value: SerializedValue;
+}
+
+export type SerializedValue =
+  | { type: 'string'; value: string; length?: number } // length is set when truncated
+  | { type: 'number'; value: string } // kept as text so NaN, Infinity and -0 survive JSON
+  | { type: 'bigint'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'symbol'; value: string }
+  | { type: 'undefined' }
+  | { type: 'null' }
+  | { type: 'function'; name: string; isClass: boolean }
+  | { type: 'date'; value: string }
+  | { type: 'regexp'; value: string }
+  | { type: 'error'; name: string; message: string; stack?: string }
+  | { type: 'promise' }
+  | { type: 'getter' }
+  | { type: 'circular'; id: number }
+  | {
+      type: 'object' | 'array' | 'map' | 'set';
+      id: number;
+      className: string;
+      size: number;
+      // Omitted when the depth limit was reached
+      entries?: SerializedEntry[];
+      // Number of entries left out after the per-container limit
+      omitted?: number;
+    };
+
+export interface Snippet {
+  id: string;
+  name: string;
+  tags: string[];
+  code: string;
+  language: Language;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PackageInfo {
+  name: string;
+  version: string;
+}
+
+// A CommonJS module from an installed package, with the module path each of
+// its require() requests resolves to (null for Node built-ins)
+export interface BundledModule {
+  code: string;
+  deps: Record<string, string | null>;
+}
+
+// Everything a run's imports need, keyed by module path
+export interface ModuleBundle {
+  modules: Record<string, BundledModule>;
+  entries: Record<string, string>; // specifier imported by the tab -> module path
+  packages: PackageInfo[]; // packages the tab imports directly
+}
+
+export interface Command {
+  id: string;
+  title: string;
+  category: string;
+  // e.g. 'Mod+Shift+P' or the chord 'Mod+K Mod+C' (see ../utils/shortcuts.ts)
+  shortcuts?: string[];
+  run: () => void;
+  // Disabled commands are hidden from the palette and their shortcuts do nothing
+  isEnabled?: boolean;
 }
 
 export interface Settings {
   autoExecute: boolean;
   autoExecuteDelay: number; // milliseconds: 500, 1000, 1500, 2000
   executionTimeout: number;
+  maxLogs: number; // console messages kept per run
+  maxTabs: number; // open tabs per workspace
   splitRatio: number;
+  // Shortcuts per command id, replacing the command's defaults; [] unbinds it
+  keybindings: Record<string, string[]>;
+  sandbox: SandboxPolicy;
+  formatOptions: FormatOptions;
+  formatOnSave: boolean;
+  formatOnRun: boolean;
+  lintRules: LintRules;
+  editor: EditorOptions;
+  theme: string; // a theme id, or 'system' to follow the OS
+  customThemes: Theme[]; // imported themes
+}
+
+// Colors for the editor, the interface and the console. Values are CSS hex
+// colors; the interface colors must be opaque.
+export interface ThemeColors {
+  background: string;
+  foreground: string;
+  border: string;
+  hover: string;
+  accent: string; // links, focus rings and other highlights
+  success: string; // added lines in diffs
+  // Console levels
+  error: string;
+  warn: string;
+  info: string;
+  debug: string;
+  time: string;
+  // Editor
+  selection: string;
+  cursor: string;
+  lineHighlight: string;
+  gutter: string; // line numbers
+  // Syntax, also used for values in the console
+  keyword: string;
+  control: string; // if, return, import and friends
+  variable: string;
+  property: string;
+  function: string;
+  type: string;
+  string: string;
+  number: string;
+  regexp: string;
+  comment: string;
+  operator: string;
+}
+
+export interface Theme {
+  id: string;
+  name: string;
+  type: 'dark' | 'light';
+  highContrast?: boolean;
+  colors: ThemeColors;
+}
+
+// What code may use and how long and large it may get. Node and Bun runs get
+// the CPU and memory limits only.
+export interface SandboxPolicy {
+  allowNetwork: boolean; // fetch, XMLHttpRequest, WebSocket and friends
+  allowedGlobals: string[]; // names from HOST_GLOBALS the code may use
+  memoryLimit: number; // MB of heap, 0 for no limit; Node only
+  cpuLimit: number; // ms a loop may run without yielding
+}
+
+// The Prettier options the formatter exposes
+export interface FormatOptions {
+  printWidth: number;
+  tabWidth: number;
+  semi: boolean;
+  singleQuote: boolean;
+  trailingComma: 'all' | 'es5' | 'none';
+}
+
+export type EditorKeymap = 'default' | 'vim' | 'emacs';
+
+// How the code editor looks and behaves
+export interface EditorOptions {
+  fontFamily: string; // a CSS font list, '' for the default monospace fonts
+  fontSize: number; // px
+  tabSize: number;
+  insertSpaces: boolean; // indent with spaces rather than tabs
+  wordWrap: boolean;
+  lineNumbers: boolean;
+  minimap: boolean; // a zoomed-out overview of the code beside the editor
+  bracketColors: boolean; // color brackets by how deeply they're nested
+  keymap: EditorKeymap;
 }
 
+export type LintRuleId = 'no-unused-vars' | 'no-undef' | 'no-unreachable';
+export type LintSeverity = 'off' | 'warning' | 'error';
+export type LintRules = Record<LintRuleId, LintSeverity>;
+
 export type ExecutionMode = 'auto' | 'manual';
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+// How the console is filtered; the search text itself isn't kept
+export interface ConsoleFilters {
+  levels: Record<ConsoleLevel, boolean>; // false hides the level
+  isRegex: boolean;
+  preserveLog: boolean; // keep earlier runs' output above the next run's
+  collapseRepeats: boolean; // show identical consecutive messages once, with a count
+}
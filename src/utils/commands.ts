@@ -0,0 +1,423 @@
+import { EXECUTION_TIMEOUTS } from '../hooks/useSettings';
+import { LANGUAGES } from './language';
+import { DEFAULT_EDITOR_OPTIONS, EDITOR_KEYMAPS, clampFontSize } from './editorOptions';
+import { RUNTIMES } from './processRuntime';
+import { defaultShareLinkKind, type ShareLinkKind } from './share';
+import { BUILT_IN_THEMES, SYSTEM_THEME_ID } from './themes';
+import type { Command, EditorOptions, Language, Runtime, Settings, Snippet, Tab, Workspace } from '../types';
+
+// Everything commands can read or do; App provides it on every render
+export interface CommandContext {
+  tabs: Tab[];
+  activeTab: Tab;
+  settings: Settings;
+  snippets: Snippet[];
+  isRunning: boolean;
+  canCreateTab: boolean;
+  canUseFiles: boolean;
+  canUseProcessRuntimes: boolean;
+  run: () => void;
+  stop: () => void;
+  createTab: () => void;
+  closeTab: (tabId: string) => void;
+  closeOtherTabs: (tabId: string) => void;
+  closeTabsToRight: (tabId: string) => void;
+  canReopenTab: boolean;
+  reopenClosedTab: () => void;
+  duplicateTab: (tabId: string) => void;
+  pinTab: (tabId: string, isPinned: boolean) => void;
+  moveTab: (tabId: string, offset: number) => void;
+  renameTab: (tabId: string) => void;
+  switchToTab: (tabId: string) => void;
+  setLanguage: (language: Language) => void;
+  setRuntime: (runtime: Runtime) => void;
+  clearConsole: () => void;
+  format: () => void;
+  updateSettings: (updates: Partial<Settings>) => void;
+  openSettings: () => void;
+  openPalette: () => void;
+  toggleSnippets: () => void;
+  toggleHistory: () => void;
+  insertSnippet: (snippet: Snippet) => void;
+  openFiles: () => void;
+  saveTab: (tab: Tab) => void;
+  saveTabAs: (tab: Tab) => void;
+  shareTab: (tab: Tab, kind?: ShareLinkKind) => void;
+  exportWorkspace: () => void;
+  importWorkspace: () => void;
+  workspaces: Workspace[];
+  activeWorkspace: Workspace;
+  switchWorkspace: (workspaceId: string) => void;
+  createWorkspace: () => void;
+  duplicateWorkspace: (workspaceId: string) => void;
+  renameWorkspace: () => void;
+  deleteWorkspace: (workspaceId: string) => void;
+  importTheme: () => void;
+}
+
+const formatSeconds = (ms: number) => `${ms / 1000} second${ms === 1000 ? '' : 's'}`;
+
+/** Every action in the app, for keyboard shortcuts and the command palette. */
+export function buildCommands(context: CommandContext): Command[] {
+  const { activeTab, settings } = context;
+  const activeIndex = context.tabs.findIndex(tab => tab.id === activeTab.id);
+  const updateEditor = (updates: Partial<EditorOptions>) =>
+    context.updateSettings({ editor: { ...settings.editor, ...updates } });
+  const toggleTitle = (isOn: boolean, name: string) => `${isOn ? 'Turn Off' : 'Turn On'} ${name}`;
+  const tabAt = (offset: number) =>
+    context.tabs[(activeIndex + offset + context.tabs.length) % context.tabs.length];
+
+  return [
+    {
+      id: 'palette.show',
+      title: 'Show All Commands',
+      category: 'View',
+      shortcuts: ['Mod+Shift+P'],
+      run: context.openPalette,
+    },
+    {
+      id: 'run.execute',
+      title: 'Run Code',
+      category: 'Run',
+      shortcuts: ['Mod+R', 'Mod+Enter'],
+      run: context.run,
+    },
+    {
+      id: 'run.stop',
+      title: 'Stop Execution',
+      category: 'Run',
+      shortcuts: ['Mod+.'],
+      run: context.stop,
+      isEnabled: context.isRunning,
+    },
+    {
+      id: 'run.toggleAutoExecute',
+      title: settings.autoExecute ? 'Turn Off Auto-Execute' : 'Turn On Auto-Execute',
+      category: 'Run',
+      run: () => context.updateSettings({ autoExecute: !settings.autoExecute }),
+    },
+    ...EXECUTION_TIMEOUTS.map((timeout): Command => ({
+      id: `run.timeout.${timeout}`,
+      title: `Set Execution Timeout to ${formatSeconds(timeout)}`,
+      category: 'Run',
+      run: () => context.updateSettings({ executionTimeout: timeout }),
+      isEnabled: settings.executionTimeout !== timeout,
+    })),
+    {
+      id: 'run.toggleHistory',
+      title: 'Toggle Run History',
+      category: 'Run',
+      shortcuts: ['Mod+Shift+H'],
+      run: context.toggleHistory,
+    },
+    {
+      id: 'console.clear',
+      title: 'Clear Console',
+      category: 'Console',
+      shortcuts: ['Mod+K'],
+      run: context.clearConsole,
+    },
+    {
+      id: 'editor.format',
+      title: 'Format Document',
+      category: 'Editor',
+      shortcuts: ['Mod+Shift+F'],
+      run: context.format,
+    },
+    {
+      id: 'editor.toggleFormatOnSave',
+      title: settings.formatOnSave ? 'Turn Off Format on Save' : 'Turn On Format on Save',
+      category: 'Editor',
+      run: () => context.updateSettings({ formatOnSave: !settings.formatOnSave }),
+    },
+    {
+      id: 'editor.toggleFormatOnRun',
+      title: settings.formatOnRun ? 'Turn Off Format on Run' : 'Turn On Format on Run',
+      category: 'Editor',
+      run: () => context.updateSettings({ formatOnRun: !settings.formatOnRun }),
+    },
+    {
+      id: 'editor.zoomIn',
+      title: 'Increase Font Size',
+      category: 'Editor',
+      shortcuts: ['Mod+=', 'Mod+Shift++'],
+      run: () => updateEditor({ fontSize: clampFontSize(settings.editor.fontSize + 1) }),
+    },
+    {
+      id: 'editor.zoomOut',
+      title: 'Decrease Font Size',
+      category: 'Editor',
+      shortcuts: ['Mod+-'],
+      run: () => updateEditor({ fontSize: clampFontSize(settings.editor.fontSize - 1) }),
+    },
+    {
+      id: 'editor.resetZoom',
+      title: 'Reset Font Size',
+      category: 'Editor',
+      shortcuts: ['Mod+0'],
+      run: () => updateEditor({ fontSize: DEFAULT_EDITOR_OPTIONS.fontSize }),
+    },
+    {
+      id: 'editor.toggleWordWrap',
+      title: toggleTitle(settings.editor.wordWrap, 'Word Wrap'),
+      category: 'Editor',
+      shortcuts: ['Alt+Z'],
+      run: () => updateEditor({ wordWrap: !settings.editor.wordWrap }),
+    },
+    {
+      id: 'editor.toggleLineNumbers',
+      title: toggleTitle(settings.editor.lineNumbers, 'Line Numbers'),
+      category: 'Editor',
+      run: () => updateEditor({ lineNumbers: !settings.editor.lineNumbers }),
+    },
+    {
+      id: 'editor.toggleMinimap',
+      title: toggleTitle(settings.editor.minimap, 'Minimap'),
+      category: 'Editor',
+      run: () => updateEditor({ minimap: !settings.editor.minimap }),
+    },
+    {
+      id: 'editor.toggleBracketColors',
+      title: toggleTitle(settings.editor.bracketColors, 'Bracket Colors'),
+      category: 'Editor',
+      run: () => updateEditor({ bracketColors: !settings.editor.bracketColors }),
+    },
+    ...EDITOR_KEYMAPS.map(({ id, name }): Command => ({
+      id: `editor.keymap.${id}`,
+      title: `Use ${name} Keymap`,
+      category: 'Editor',
+      run: () => updateEditor({ keymap: id }),
+      isEnabled: settings.editor.keymap !== id,
+    })),
+    {
+      id: 'tabs.new',
+      title: 'New Tab',
+      category: 'Tabs',
+      shortcuts: ['Mod+T'],
+      run: context.createTab,
+      isEnabled: context.canCreateTab,
+    },
+    {
+      id: 'tabs.close',
+      title: 'Close Tab',
+      category: 'Tabs',
+      shortcuts: ['Mod+W'],
+      run: () => context.closeTab(activeTab.id),
+      // The last tab can't be closed
+      isEnabled: context.tabs.length > 1,
+    },
+    {
+      id: 'tabs.closeOthers',
+      title: 'Close Other Tabs',
+      category: 'Tabs',
+      run: () => context.closeOtherTabs(activeTab.id),
+      // Pinned tabs stay open
+      isEnabled: context.tabs.some(tab => tab.id !== activeTab.id && !tab.isPinned),
+    },
+    {
+      id: 'tabs.closeToRight',
+      title: 'Close Tabs to the Right',
+      category: 'Tabs',
+      run: () => context.closeTabsToRight(activeTab.id),
+      isEnabled: context.tabs.slice(activeIndex + 1).some(tab => !tab.isPinned),
+    },
+    {
+      id: 'tabs.reopen',
+      title: 'Reopen Closed Tab',
+      category: 'Tabs',
+      shortcuts: ['Mod+Shift+T'],
+      run: context.reopenClosedTab,
+      isEnabled: context.canReopenTab,
+    },
+    {
+      id: 'tabs.duplicate',
+      title: 'Duplicate Tab',
+      category: 'Tabs',
+      run: () => context.duplicateTab(activeTab.id),
+      isEnabled: context.canCreateTab,
+    },
+    {
+      id: 'tabs.togglePin',
+      title: activeTab.isPinned ? 'Unpin Tab' : 'Pin Tab',
+      category: 'Tabs',
+      run: () => context.pinTab(activeTab.id, !activeTab.isPinned),
+    },
+    {
+      id: 'tabs.moveLeft',
+      title: 'Move Tab Left',
+      category: 'Tabs',
+      shortcuts: ['Mod+Shift+PageUp'],
+      run: () => context.moveTab(activeTab.id, -1),
+      isEnabled: activeIndex > 0 && !!context.tabs[activeIndex - 1].isPinned === !!activeTab.isPinned,
+    },
+    {
+      id: 'tabs.moveRight',
+      title: 'Move Tab Right',
+      category: 'Tabs',
+      shortcuts: ['Mod+Shift+PageDown'],
+      run: () => context.moveTab(activeTab.id, 1),
+      isEnabled: activeIndex < context.tabs.length - 1
+        && !!context.tabs[activeIndex + 1].isPinned === !!activeTab.isPinned,
+    },
+    {
+      id: 'tabs.rename',
+      title: 'Rename Tab',
+      category: 'Tabs',
+      run: () => context.renameTab(activeTab.id),
+    },
+    {
+      id: 'tabs.next',
+      title: 'Next Tab',
+      category: 'Tabs',
+      run: () => context.switchToTab(tabAt(1).id),
+      isEnabled: context.tabs.length > 1,
+    },
+    {
+      id: 'tabs.previous',
+      title: 'Previous Tab',
+      category: 'Tabs',
+      run: () => context.switchToTab(tabAt(-1).id),
+      isEnabled: context.tabs.length > 1,
+    },
+    // By position, so a keybinding stays with the Nth tab
+    ...context.tabs.map((tab, index): Command => ({
+      id: `tabs.goto.${index + 1}`,
+      title: `Go to ${tab.name}`,
+      category: 'Tabs',
+      shortcuts: index < 9 ? [`Mod+${index + 1}`] : undefined,
+      run: () => context.switchToTab(tab.id),
+    })),
+    {
+      id: 'tabs.share',
+      title: 'Copy Share Link',
+      category: 'Tabs',
+      run: () => context.shareTab(activeTab),
+    },
+    {
+      id: 'tabs.shareDesktop',
+      title: 'Copy jspad:// Link',
+      category: 'Tabs',
+      run: () => context.shareTab(activeTab, 'app'),
+      // The desktop app's share links already are
+      isEnabled: defaultShareLinkKind !== 'app',
+    },
+    ...LANGUAGES.map(({ id, label }): Command => ({
+      id: `tabs.language.${id}`,
+      title: `Change Language to ${label}`,
+      category: 'Tabs',
+      run: () => context.setLanguage(id),
+      isEnabled: (activeTab.language ?? 'js') !== id,
+    })),
+    ...RUNTIMES.map(({ id, label }): Command => ({
+      id: `tabs.runtime.${id}`,
+      title: `Run in ${label}`,
+      category: 'Tabs',
+      run: () => context.setRuntime(id),
+      isEnabled: context.canUseProcessRuntimes && (activeTab.runtime ?? 'browser') !== id,
+    })),
+    {
+      id: 'file.open',
+      title: 'Open File…',
+      category: 'File',
+      shortcuts: ['Mod+O'],
+      run: context.openFiles,
+      isEnabled: context.canUseFiles,
+    },
+    {
+      id: 'file.save',
+      title: 'Save',
+      category: 'File',
+      shortcuts: ['Mod+S'],
+      run: () => context.saveTab(activeTab),
+      isEnabled: context.canUseFiles,
+    },
+    {
+      id: 'file.saveAs',
+      title: 'Save As…',
+      category: 'File',
+      shortcuts: ['Mod+Shift+S'],
+      run: () => context.saveTabAs(activeTab),
+      isEnabled: context.canUseFiles,
+    },
+    {
+      id: 'file.exportWorkspace',
+      title: 'Export Workspace…',
+      category: 'File',
+      run: context.exportWorkspace,
+    },
+    {
+      id: 'file.importWorkspace',
+      title: 'Import Workspace…',
+      category: 'File',
+      run: context.importWorkspace,
+    },
+    {
+      id: 'workspace.new',
+      title: 'New Workspace',
+      category: 'Workspace',
+      run: context.createWorkspace,
+    },
+    {
+      id: 'workspace.duplicate',
+      title: 'Duplicate Workspace',
+      category: 'Workspace',
+      run: () => context.duplicateWorkspace(context.activeWorkspace.id),
+    },
+    {
+      id: 'workspace.rename',
+      title: 'Rename Workspace',
+      category: 'Workspace',
+      run: context.renameWorkspace,
+    },
+    {
+      id: 'workspace.delete',
+      title: 'Delete Workspace…',
+      category: 'Workspace',
+      run: () => context.deleteWorkspace(context.activeWorkspace.id),
+      // The last workspace can't be deleted
+      isEnabled: context.workspaces.length > 1,
+    },
+    ...context.workspaces.map((workspace): Command => ({
+      id: `workspace.switch.${workspace.id}`,
+      title: `Switch to Workspace ${workspace.name}`,
+      category: 'Workspace',
+      run: () => context.switchWorkspace(workspace.id),
+      isEnabled: workspace.id !== context.activeWorkspace.id,
+    })),
+    {
+      id: 'snippets.toggle',
+      title: 'Toggle Snippets',
+      category: 'Snippets',
+      shortcuts: ['Mod+B'],
+      run: context.toggleSnippets,
+    },
+    ...context.snippets.map((snippet): Command => ({
+      id: `snippets.insert.${snippet.id}`,
+      title: `Insert ${snippet.name}`,
+      category: 'Snippets',
+      run: () => context.insertSnippet(snippet),
+    })),
+    ...[{ id: SYSTEM_THEME_ID, name: 'System' }, ...BUILT_IN_THEMES, ...settings.customThemes].map(
+      (theme): Command => ({
+        id: `theme.use.${theme.id}`,
+        title: `Use ${theme.name} Theme`,
+        category: 'Theme',
+        run: () => context.updateSettings({ theme: theme.id }),
+        isEnabled: theme.id !== settings.theme,
+      })
+    ),
+    {
+      id: 'theme.import',
+      title: 'Import Theme…',
+      category: 'Theme',
+      run: context.importTheme,
+    },
+    {
+      id: 'settings.open',
+      title: 'Open Settings',
+      category: 'Settings',
+      shortcuts: ['Mod+,'],
+      run: context.openSettings,
+    },
+  ];
+}
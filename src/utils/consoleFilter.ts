@@ -0,0 +1,89 @@
+import type { ConsoleFilters, ConsoleLevel, ConsoleMessage } from '../types';
+
+export const CONSOLE_LEVELS: { id: ConsoleLevel; label: string }[] = [
+  { id: 'log', label: 'Log' },
+  { id: 'info', label: 'Info' },
+  { id: 'warn', label: 'Warn' },
+  { id: 'error', label: 'Error' },
+  { id: 'debug', label: 'Debug' },
+];
+
+export const DEFAULT_CONSOLE_FILTERS: ConsoleFilters = {
+  levels: { log: true, info: true, warn: true, error: true, debug: true },
+  isRegex: false,
+  preserveLog: false,
+  collapseRepeats: true,
+};
+
+// Level a message is toggled with; groups and separators are structure,
+// not messages, so they have none
+export function getMessageLevel(message: ConsoleMessage): ConsoleLevel | null {
+  switch (message.type) {
+    case 'info':
+    case 'warn':
+    case 'error':
+    case 'debug':
+      return message.type;
+    case 'group':
+    case 'groupEnd':
+    case 'separator':
+      return null;
+    default:
+      return 'log';
+  }
+}
+
+/** The text search matches against and copying produces. */
+export function getMessageText(message: ConsoleMessage): string {
+  const content = String(message.content ?? '');
+  return message.stack ? `${content}\n${message.stack}` : content;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The pattern to search with, or null when there's no query. Invalid regular
+ * expressions come back as an error to show instead.
+ */
+export function createSearchPattern(
+  query: string,
+  isRegex: boolean
+): { pattern: RegExp | null; error?: string } {
+  if (!query) return { pattern: null };
+  try {
+    return { pattern: new RegExp(isRegex ? query : escapeRegExp(query), 'gi') };
+  } catch (error) {
+    return { pattern: null, error: (error as Error).message };
+  }
+}
+
+export function matchesSearch(message: ConsoleMessage, pattern: RegExp | null): boolean {
+  return !pattern || getMessageText(message).search(pattern) !== -1;
+}
+
+/** Plain text of the output, one message per line and groups indented. */
+export function formatConsoleText(output: ConsoleMessage[]): string {
+  let depth = 0;
+  const lines: string[] = [];
+  for (const message of output) {
+    if (message.type === 'groupEnd') {
+      depth = Math.max(0, depth - 1);
+      continue;
+    }
+
+    const indent = '  '.repeat(depth);
+    const level = getMessageLevel(message);
+    const prefix = level && level !== 'log' ? `[${level}] ` : '';
+    const suffix = message.line !== undefined ? `  (line ${message.line})` : '';
+    const text = message.type === 'separator'
+      ? [`--- ${message.content} ---`]
+      : [
+          `${prefix}${String(message.content ?? '')}${suffix}`,
+          ...(message.stack?.split('\n').map(frame => `  ${frame}`) ?? []),
+        ];
+    lines.push(text.join('\n').split('\n').map(line => indent + line).join('\n'));
+
+    if (message.type === 'group') depth++;
+  }
+  return lines.join('\n');
+}
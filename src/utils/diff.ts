@@ -0,0 +1,51 @@
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/** Line-by-line diff from `before` to `after`, via longest common subsequence. */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Only the middle that differs needs the quadratic table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const rows = endA - start;
+  const cols = endB - start;
+  // lengths[i][j]: LCS length of a[start + i..endA) and b[start + j..endB)
+  const lengths = Array.from({ length: rows + 1 }, () => new Uint32Array(cols + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] = a[start + i] === b[start + j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && a[start + i] === b[start + j]) {
+      lines.push({ type: 'same', text: a[start + i] });
+      i++;
+      j++;
+    } else if (i < rows && (j === cols || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      lines.push({ type: 'removed', text: a[start + i] });
+      i++;
+    } else {
+      lines.push({ type: 'added', text: b[start + j] });
+      j++;
+    }
+  }
+  for (const text of a.slice(endA)) lines.push({ type: 'same', text });
+  return lines;
+}
@@ -0,0 +1,27 @@
+import type { EditorKeymap, EditorOptions } from '../types';
+
+export const DEFAULT_FONT_FAMILY = 'Menlo, Monaco, Consolas, "Andale Mono", "Ubuntu Mono", "Courier New", monospace';
+export const TAB_SIZES = [2, 4, 8];
+export const MIN_FONT_SIZE = 8;
+export const MAX_FONT_SIZE = 32;
+
+export const EDITOR_KEYMAPS: { id: EditorKeymap; name: string }[] = [
+  { id: 'default', name: 'Default' },
+  { id: 'vim', name: 'Vim' },
+  { id: 'emacs', name: 'Emacs' },
+];
+
+export const DEFAULT_EDITOR_OPTIONS: EditorOptions = {
+  fontFamily: '',
+  fontSize: 14,
+  tabSize: 2,
+  insertSpaces: true,
+  wordWrap: false,
+  lineNumbers: true,
+  minimap: false,
+  bracketColors: false,
+  keymap: 'default',
+};
+
+export const clampFontSize = (size: number) =>
+  Math.min(MAX_FONT_SIZE, Math.max(MIN_FONT_SIZE, Math.round(size)));
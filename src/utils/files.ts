@@ -0,0 +1,132 @@
+import { isTauri } from '@tauri-apps/api/core';
+import { ask, message, open, save } from '@tauri-apps/plugin-dialog';
+import { readTextFile, watch, writeTextFile } from '@tauri-apps/plugin-fs';
+
+// Opening and saving real files needs the desktop app
+export const canUseFiles = isTauri();
+
+const SOURCE_FILTERS = [
+  { name: 'JavaScript / TypeScript', extensions: ['js', 'mjs', 'cjs', 'ts', 'mts', 'cts', 'jsx', 'tsx'] },
+];
+
+export function getFileName(path: string): string {
+  return path.split(/[\\/]/).pop() ?? path;
+}
+
+export function getDirectory(path: string): string {
+  return path.slice(0, Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\')));
+}
+
+/** Asks for files to open. Returns an empty list when cancelled. */
+export async function chooseFilesToOpen(): Promise<string[]> {
+  const selected = await open({ multiple: true, directory: false, filters: SOURCE_FILTERS });
+  return selected ?? [];
+}
+
+const JSON_FILTERS = [{ name: 'JSON', extensions: ['json'] }];
+
+/** Asks where to save a file. Returns null when cancelled. */
+export function chooseSavePath(defaultPath: string, filters = SOURCE_FILTERS): Promise<string | null> {
+  return save({ defaultPath, filters });
+}
+
+export const readFile = (path: string) => readTextFile(path);
+
+export const writeFile = (path: string, contents: string) => writeTextFile(path, contents);
+
+/**
+ * Calls back with a file's new contents whenever it changes on disk. Returns
+ * a function that stops watching.
+ */
+export async function watchFile(
+  path: string,
+  onChange: (contents: string) => void
+): Promise<() => void> {
+  return watch(path, async (event) => {
+    if (typeof event.type === 'object' && 'remove' in event.type) return;
+    try {
+      onChange(await readTextFile(path));
+    } catch (error) {
+      // Editors often replace files by deleting and recreating them; the
+      // next event has the new contents
+      console.error(`Failed to reload ${path}:`, error);
+    }
+  }, { delayMs: 300 });
+}
+
+const TEXT_FILTERS = [{ name: 'Text', extensions: ['txt', 'log'] }];
+const WORKSPACE_FILTERS = [{ name: 'JSPad Workspace', extensions: ['jspad'] }];
+const THEME_FILTERS = [{ name: 'Theme', extensions: ['json', 'jsonc'] }];
+
+/**
+ * Saves generated contents where the user picks, or as a download outside
+ * the desktop app.
+ */
+async function exportFile(
+  defaultName: string,
+  contents: string,
+  { mimeType, filters }: { mimeType: string; filters: typeof JSON_FILTERS }
+) {
+  if (!canUseFiles) {
+    const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = defaultName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  const filePath = await chooseSavePath(defaultName, filters);
+  if (filePath) await writeTextFile(filePath, contents);
+}
+
+export const exportJsonFile = (defaultName: string, contents: string) =>
+  exportFile(defaultName, contents, { mimeType: 'application/json', filters: JSON_FILTERS });
+
+export const exportTextFile = (defaultName: string, contents: string) =>
+  exportFile(defaultName, contents, { mimeType: 'text/plain', filters: TEXT_FILTERS });
+
+export const exportWorkspaceFile = (defaultName: string, contents: string) =>
+  exportFile(defaultName, contents, { mimeType: 'application/json', filters: WORKSPACE_FILTERS });
+
+/**
+ * Asks for a text file and reads it, picking from the browser's file input
+ * outside the desktop app. Returns null when cancelled.
+ */
+async function chooseTextFile(filters: typeof JSON_FILTERS, accept: string): Promise<string | null> {
+  if (canUseFiles) {
+    const filePath = await open({ multiple: false, directory: false, filters });
+    return filePath ? readTextFile(filePath) : null;
+  }
+
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (file) {
+        file.text().then(resolve, reject);
+      } else {
+        resolve(null);
+      }
+    };
+    input.oncancel = () => resolve(null);
+    input.click();
+  });
+}
+
+export const chooseWorkspaceFile = () => chooseTextFile(WORKSPACE_FILTERS, '.jspad,application/json');
+
+// VS Code themes are often .jsonc
+export const chooseThemeFile = () => chooseTextFile(THEME_FILTERS, '.json,.jsonc,application/json');
+
+// The dialog plugin needs the desktop app; browsers get their own dialogs
+export const confirm = (text: string) => canUseFiles
+  ? ask(text, { title: 'JSPad', kind: 'warning' })
+  : Promise.resolve(window.confirm(text));
+
+export const showError = (text: string) => canUseFiles
+  ? message(text, { title: 'JSPad', kind: 'error' })
+  : Promise.resolve(window.alert(text));
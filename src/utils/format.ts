@@ -0,0 +1,39 @@
+import type { FormatOptions, Language } from '../types';
+import { isTypeScript } from './language';
+
+export const PRINT_WIDTHS = [80, 100, 120];
+export const TAB_WIDTHS = [2, 4];
+
+export const DEFAULT_FORMAT_OPTIONS: FormatOptions = {
+  printWidth: 80,
+  tabWidth: 2,
+  semi: true,
+  singleQuote: false,
+  trailingComma: 'all',
+};
+
+/**
+ * Formats code with Prettier, which is loaded the first time it's needed.
+ * Also returns where the cursor at `cursorOffset` ends up.
+ */
+export async function formatCode(
+  code: string,
+  language: Language,
+  options: FormatOptions,
+  cursorOffset = 0
+): Promise<{ formatted: string; cursorOffset: number }> {
+  const typescript = isTypeScript(language);
+  const [prettier, ...plugins] = await Promise.all([
+    import('prettier/standalone'),
+    import('prettier/plugins/estree'),
+    typescript ? import('prettier/plugins/typescript') : import('prettier/plugins/babel'),
+  ]);
+  return prettier.formatWithCursor(code, {
+    ...options,
+    cursorOffset,
+    parser: typescript ? 'typescript' : 'babel',
+    // Tells the TypeScript parser whether to expect JSX
+    filepath: `input.${language}`,
+    plugins,
+  });
+}
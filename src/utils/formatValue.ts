@@ -0,0 +1,92 @@
+import type { SerializedEntry, SerializedValue } from '../types';
+
+const PREVIEW_ENTRIES = 5;
+
+type Container = Extract<SerializedValue, { entries?: SerializedEntry[] }>;
+
+export function isContainer(value: SerializedValue): value is Container {
+  return (
+    value.type === 'object' ||
+    value.type === 'array' ||
+    value.type === 'map' ||
+    value.type === 'set'
+  );
+}
+
+/** Short label for a container, e.g. `Array(3)`, `Map(2)` or `Person`. */
+export function describeContainer(value: Container): string {
+  switch (value.type) {
+    case 'array':
+    case 'map':
+    case 'set':
+      return `${value.className}(${value.size})`;
+    default:
+      return value.className === 'Object' ? '' : value.className;
+  }
+}
+
+function formatEntry(entry: SerializedEntry, container: Container): string {
+  const value = formatValue(entry.value, { nested: true });
+  if (container.type === 'map' && entry.key !== undefined) {
+    const key = typeof entry.key === 'string' ? entry.key : formatValue(entry.key, { nested: true });
+    return `${key} => ${value}`;
+  }
+  if (container.type === 'array' || entry.key === undefined) {
+    return value;
+  }
+  return `${entry.key}: ${value}`;
+}
+
+function formatContainer(value: Container): string {
+  const label = describeContainer(value);
+  const [open, close] = value.type === 'array' ? ['[', ']'] : ['{', '}'];
+
+  if (!value.entries) {
+    return `${label ? `${label} ` : ''}${open}…${close}`;
+  }
+
+  const shown = value.entries.slice(0, PREVIEW_ENTRIES).map(entry => formatEntry(entry, value));
+  if (value.size > shown.length) shown.push('…');
+
+  const prefix = value.type === 'array' ? `(${value.size}) ` : label ? `${label} ` : '';
+  return `${prefix}${open}${shown.join(', ')}${close}`;
+}
+
+/**
+ * One-line, DevTools-style preview of a serialized value. Top-level strings
+ * are shown without quotes, like console.log prints them.
+ */
+export function formatValue(value: SerializedValue, { nested = false } = {}): string {
+  switch (value.type) {
+    case 'string': {
+      const text = value.length !== undefined ? `${value.value}…` : value.value;
+      return nested ? `'${text}'` : text;
+    }
+    case 'number':
+    case 'boolean':
+    case 'symbol':
+    case 'date':
+    case 'regexp':
+      return String(value.value);
+    case 'bigint':
+      return `${value.value}n`;
+    case 'undefined':
+    case 'null':
+      return value.type;
+    case 'function':
+      return value.isClass ? `class ${value.name}` : `ƒ ${value.name}()`;
+    case 'error':
+      return nested || !value.stack ? `${value.name}: ${value.message}` : value.stack;
+    case 'promise':
+      return 'Promise {<pending>}';
+    case 'getter':
+      return '(...)';
+    case 'circular':
+      return `[Circular *${value.id}]`;
+    default:
+      if (nested) {
+        return describeContainer(value) || '{…}';
+      }
+      return formatContainer(value);
+  }
+}
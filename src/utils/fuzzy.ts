@@ -0,0 +1,55 @@
+/**
+ * Scores how well `query` matches `text` as a case-insensitive subsequence,
+ * or returns null if it doesn't match. Consecutive characters and matches at
+ * the start of words score higher.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.toLowerCase();
+  const haystack = text.toLowerCase();
+  if (!needle) return 0;
+
+  let score = 0;
+  let position = 0;
+  let previousMatch = -2;
+
+  for (const char of needle) {
+    const index = haystack.indexOf(char, position);
+    if (index === -1) return null;
+
+    score += 1;
+    if (index === previousMatch + 1) score += 2;
+    if (index === 0 || /[\s\-_./]/.test(haystack[index - 1])) score += 3;
+
+    previousMatch = index;
+    position = index + 1;
+  }
+
+  // Prefer shorter texts among equal matches
+  return score - haystack.length / 1000;
+}
+
+/**
+ * Items that match the query, best first. Each item can be matched through
+ * several fields; the best-scoring one counts, scaled by its weight.
+ */
+export function fuzzyFilter<T>(
+  items: T[],
+  query: string,
+  fields: (item: T) => { text: string; weight?: number }[]
+): T[] {
+  if (!query.trim()) return items;
+
+  const scored: { item: T; score: number }[] = [];
+  for (const item of items) {
+    let best: number | null = null;
+    for (const { text, weight = 1 } of fields(item)) {
+      const score = fuzzyScore(query.trim(), text);
+      if (score !== null && (best === null || score * weight > best)) {
+        best = score * weight;
+      }
+    }
+    if (best !== null) scored.push({ item, score: best });
+  }
+
+  return scored.sort((a, b) => b.score - a.score).map(({ item }) => item);
+}
@@ -0,0 +1,465 @@
+import { parser } from '@lezer/javascript';
+import type { SyntaxNode, Tree } from '@lezer/common';
+import type { Language } from '../types';
+import { isJsx, isTypeScript } from './language';
+import {
+  CONSOLE_HOOK,
+  CONST_HOOK,
+  DYNAMIC_IMPORT_HOOK,
+  EXPRESSION_HOOK,
+  IMPORT_HOOK,
+  LOOP_GUARD_HOOK,
+} from './runtimeHooks';
+
+interface Replacement {
+  from: number;
+  to: number;
+  text: string;
+}
+
+export function getLineStarts(code: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < code.length; i++) {
+    if (code[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+/** 1-based line of `pos`, given the offsets lines start at. */
+export function lineAt(lineStarts: number[], pos: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid] <= pos) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low + 1;
+}
+
+function parseCode(code: string, language: Language) {
+  const dialect = [isTypeScript(language) && 'ts', isJsx(language) && 'jsx']
+    .filter(Boolean)
+    .join(' ');
+  return parser.configure({ dialect }).parse(code);
+}
+
+// Text of a string literal node without its quotes
+const stringValue = (code: string, node: SyntaxNode) => code.slice(node.from + 1, node.to - 1);
+
+// `{ a, b as c, type T }` -> ['a', 'b: c'], as destructuring properties
+function readImportGroup(group: SyntaxNode, code: string): string[] {
+  const bindings: string[] = [];
+  let specifier: SyntaxNode[] = [];
+
+  const flush = () => {
+    // Type-only specifiers are erased by the compiler
+    const isTypeOnly = specifier[0]?.name === 'type' && specifier.length > 1;
+    if (specifier.length > 0 && !isTypeOnly) {
+      const imported = code.slice(specifier[0].from, specifier[0].to);
+      const local = code.slice(specifier[specifier.length - 1].from, specifier[specifier.length - 1].to);
+      bindings.push(imported === local ? local : `${imported}: ${local}`);
+    }
+    specifier = [];
+  };
+
+  for (let child = group.firstChild; child; child = child.nextSibling) {
+    if (child.name === '{') continue;
+    if (child.name === ',' || child.name === '}') {
+      flush();
+    } else if (child.name !== 'as') {
+      specifier.push(child);
+    }
+  }
+  return bindings;
+}
+
+/**
+ * `import x, { a } from 'pkg'` -> `const { default: x, a } = __jspadImport('pkg');`.
+ * The declaration keeps its line count. Returns null for declarations that
+ * should be left alone: type-only imports and ones that don't parse.
+ */
+function rewriteImport(node: SyntaxNode, code: string): string | null {
+  let source: string | undefined;
+  let defaultName: string | undefined;
+  let namespaceName: string | undefined;
+  const named: string[] = [];
+
+  for (let child = node.firstChild; child; child = child.nextSibling) {
+    if (child.type.isError || child.name === 'type') return null;
+
+    const text = code.slice(child.from, child.to);
+    if (child.name === 'VariableDefinition') {
+      if (child.prevSibling?.name === 'as') {
+        namespaceName = text;
+      } else {
+        defaultName = text;
+      }
+    } else if (child.name === 'ImportGroup') {
+      named.push(...readImportGroup(child, code));
+    } else if (child.name === 'String') {
+      source = text;
+    }
+  }
+  if (!source) return null;
+
+  const module = `${IMPORT_HOOK}(${source})`;
+  const bindings = [...(defaultName ? [`default: ${defaultName}`] : []), ...named].join(', ');
+  const newlines = '\n'.repeat(code.slice(node.from, node.to).split('\n').length - 1);
+
+  if (namespaceName) {
+    return `const ${namespaceName} = ${module}${bindings ? `, { ${bindings} } = ${namespaceName}` : ''};${newlines}`;
+  }
+  return (bindings ? `const { ${bindings} } = ${module};` : `${module};`) + newlines;
+}
+
+/**
+ * Module specifiers the code imports, through import declarations, dynamic
+ * import() or require() calls with a string literal, in order of appearance.
+ */
+export function findImports(code: string, language: Language = 'js'): string[] {
+  const specifiers = new Set<string>();
+
+  parseCode(code, language).iterate({
+    enter: (node) => {
+      if (node.name === 'ImportDeclaration' || node.name === 'DynamicImport') {
+        if (node.node.getChild('type')) return false;
+        const source = node.node.getChild('String');
+        if (source) specifiers.add(stringValue(code, source));
+      } else if (node.name === 'CallExpression') {
+        const callee = node.node.firstChild;
+        const args = node.node.getChild('ArgList');
+        const source = args?.getChild('String');
+        if (
+          callee?.name === 'VariableName' &&
+          code.slice(callee.from, callee.to) === 'require' &&
+          source
+        ) {
+          specifiers.add(stringValue(code, source));
+        }
+      }
+    },
+  });
+
+  return [...specifiers];
+}
+
+/**
+ * Line of the first syntax error the editor's parser sees. Engines don't say
+ * where a SyntaxError in evaluated code is, so this stands in for it.
+ */
+export function findSyntaxErrorLine(code: string, language: Language = 'js'): number | undefined {
+  let errorPos: number | undefined;
+  parseCode(code, language).iterate({
+    enter: (node) => {
+      if (errorPos !== undefined) return false;
+      if (node.type.isError) errorPos = node.from;
+    },
+  });
+  return errorPos === undefined ? undefined : lineAt(getLineStarts(code), errorPos);
+}
+
+const LOOP_NODES = new Set(['ForStatement', 'WhileStatement', 'DoStatement']);
+
+// `while (x) y()` -> `while (x) {__jspadLoop(line);y()}`
+function guardLoop(node: SyntaxNode, line: number): Replacement[] {
+  const body = node.name === 'DoStatement' ? node.firstChild?.nextSibling : node.lastChild;
+  if (!body || body.type.isError) return [];
+
+  const guard = `${LOOP_GUARD_HOOK}(${line});`;
+  if (body.name === 'Block') {
+    return [{ from: body.from + 1, to: body.from + 1, text: guard }];
+  }
+  return [
+    { from: body.from, to: body.from, text: `{${guard}` },
+    { from: body.to, to: body.to, text: '}' },
+  ];
+}
+
+const SCOPE_NODES = new Set([
+  'Script',
+  'Block',
+  'ArrowFunction',
+  'FunctionDeclaration',
+  'FunctionExpression',
+  'MethodDeclaration',
+  'ForStatement',
+  'CatchClause',
+]);
+const FUNCTION_SCOPE_NODES = new Set([
+  'Script',
+  'ArrowFunction',
+  'FunctionDeclaration',
+  'FunctionExpression',
+  'MethodDeclaration',
+]);
+
+// Ranges of the scopes where the code declares its own `console`, so
+// calls on it are left alone
+function findConsoleShadows(tree: Tree, code: string): { from: number; to: number }[] {
+  const scopes: { from: number; to: number }[] = [];
+  tree.iterate({
+    enter: (node) => {
+      if (node.name !== 'VariableDefinition' || code.slice(node.from, node.to) !== 'console') return;
+
+      let parent = node.node.parent;
+      // `function console() {}` binds its name in the enclosing scope
+      if (parent && (parent.name === 'FunctionDeclaration' || parent.name === 'ClassDeclaration')) {
+        parent = parent.parent;
+      }
+      // `var` is scoped to the function, not the block
+      const isVar = parent?.name === 'VariableDeclaration' && parent.firstChild?.name === 'var';
+      const scopeNodes = isVar ? FUNCTION_SCOPE_NODES : SCOPE_NODES;
+      while (parent && !scopeNodes.has(parent.name)) parent = parent.parent;
+      if (parent) scopes.push({ from: parent.from, to: parent.to });
+    },
+  });
+  return scopes;
+}
+
+/**
+ * Rewrites user code so console calls and top-level expression statements
+ * report the source line they came from, loops can be killed when they
+ * don't yield, and imports load from the bundled
+ * packages. Replacements never add or remove newlines, so line numbers in the
+ * output match the original code, and they survive transpiling because the
+ * line is passed as a literal. Node and Bun load imports themselves, so for
+ * them `rewriteImports` is off.
+ */
+export function instrumentCode(
+  code: string,
+  language: Language = 'js',
+  { rewriteImports = true }: { rewriteImports?: boolean } = {}
+): string {
+  const tree = parseCode(code, language);
+  const lineStarts = getLineStarts(code);
+  const replacements: Replacement[] = [];
+  const consoleShadows = findConsoleShadows(tree, code);
+
+  tree.iterate({
+    enter: (node) => {
+      if (node.name === 'ImportDeclaration') {
+        if (!rewriteImports) return false;
+        const text = rewriteImport(node.node, code);
+        if (text !== null) replacements.push({ from: node.from, to: node.to, text });
+        return false;
+      }
+
+      if (LOOP_NODES.has(node.name)) {
+        replacements.push(...guardLoop(node.node, lineAt(lineStarts, node.from)));
+      }
+
+      // `import('pkg')` -> `__jspadDynamicImport('pkg')`
+      if (rewriteImports && node.name === 'import' && node.node.parent?.name === 'DynamicImport') {
+        replacements.push({ from: node.from, to: node.to, text: DYNAMIC_IMPORT_HOOK });
+      }
+
+      // `console.x(...)` -> `__jspadConsole(line).x(...)`
+      if (
+        node.name === 'VariableName' &&
+        node.node.parent?.name === 'MemberExpression' &&
+        node.node.prevSibling === null &&
+        code.slice(node.from, node.to) === 'console' &&
+        !consoleShadows.some(scope => scope.from <= node.from && node.to <= scope.to)
+      ) {
+        replacements.push({
+          from: node.from,
+          to: node.to,
+          text: `${CONSOLE_HOOK}(${lineAt(lineStarts, node.from)})`,
+        });
+      }
+    },
+  });
+
+  // Wrap top-level expression statements so their value can be reported,
+  // past the directive prologue, since a wrapped "use strict" does nothing
+  let isPrologue = true;
+  for (let child = tree.topNode.firstChild; child; child = child.nextSibling) {
+    if (child.name === 'LineComment' || child.name === 'BlockComment') continue;
+    const expression = child.name === 'ExpressionStatement' ? child.firstChild : null;
+    if (isPrologue && expression?.name === 'String') continue;
+    isPrologue = false;
+    if (!expression || expression.type.isError) continue;
+
+    const line = lineAt(lineStarts, expression.from);
+    replacements.push(
+      { from: expression.from, to: expression.from, text: `${EXPRESSION_HOOK}(${line}, (` },
+      { from: expression.to, to: expression.to, text: '))' }
+    );
+  }
+
+  // Insertions at a position go before a replacement starting there
+  const ordered = replacements
+    .map((replacement, index) => ({ ...replacement, index }))
+    .sort((a, b) =>
+      a.from - b.from ||
+      Number(a.to > a.from) - Number(b.to > b.from) ||
+      a.index - b.index
+    );
+
+  let result = '';
+  let cursor = 0;
+  for (const { from, to, text } of ordered) {
+    result += code.slice(cursor, from) + text;
+    cursor = to;
+  }
+  return result + code.slice(cursor);
+}
+
+const PATTERN_NODES = new Set(['ObjectPattern', 'ArrayPattern', 'PatternProperty', 'ImportGroup']);
+const FUNCTION_NODES = new Set([
+  'ArrowFunction',
+  'FunctionDeclaration',
+  'FunctionExpression',
+  'ClassDeclaration',
+  'ClassExpression',
+]);
+
+// Names a top-level declaration binds
+function declaredNames(node: SyntaxNode, code: string): string[] {
+  const names: string[] = [];
+  const visit = (parent: SyntaxNode) => {
+    for (let child = parent.firstChild; child; child = child.nextSibling) {
+      if (child.name === 'VariableDefinition') {
+        names.push(code.slice(child.from, child.to));
+      } else if (child.name === 'PatternProperty' && !child.getChild(':')) {
+        // Shorthand `{ a }` or `{ a = 1 }`
+        const property = child.getChild('PropertyName');
+        if (property) names.push(code.slice(property.from, property.to));
+      }
+      if (PATTERN_NODES.has(child.name)) visit(child);
+    }
+  };
+  visit(node);
+  return names;
+}
+
+const isDeclaration = (node: SyntaxNode) =>
+  node.name === 'VariableDeclaration' ||
+  node.name === 'FunctionDeclaration' ||
+  node.name === 'ClassDeclaration' ||
+  node.name === 'ImportDeclaration';
+
+/** Names the code declares at its top level, for autocomplete. */
+export function findTopLevelNames(code: string, language: Language = 'js'): string[] {
+  const names: string[] = [];
+  for (let child = parseCode(code, language).topNode.firstChild; child; child = child.nextSibling) {
+    if (isDeclaration(child)) names.push(...declaredNames(child, code));
+  }
+  return names;
+}
+
+export interface ReplInput {
+  code: string;
+  // Evaluates to a promise of the input's value
+  isAsync: boolean;
+}
+
+/**
+ * Rewrites a REPL input for direct eval in the scope of the last run.
+ * Declarations would only live as long as the eval, so they become
+ * assignments: to the run's binding of the same name, or else to a new
+ * global, which later inputs see too. Constants become read-only globals.
+ * Imports load from the bundled packages, and inputs that use top-level
+ * await run in an async function.
+ */
+export function prepareReplInput(code: string, language: Language = 'js'): ReplInput {
+  // Like browser consoles, `{ a: 1 }` is an object rather than a block
+  const trimmed = code.trim();
+  if (trimmed.startsWith('{') && trimmed.endsWith('}')) {
+    const wrapped = `(${code})`;
+    if (findSyntaxErrorLine(wrapped, language) === undefined) {
+      return { code: wrapped, isAsync: false };
+    }
+  }
+
+  const tree = parseCode(code, language);
+  let isAsync = false;
+  tree.iterate({
+    enter: (node) => {
+      if (isAsync || FUNCTION_NODES.has(node.name)) return false;
+      if (node.name === 'await') isAsync = true;
+    },
+  });
+
+  const replacements: Replacement[] = [];
+  let lastStatement: SyntaxNode | null = null;
+
+  for (let child = tree.topNode.firstChild; child; child = child.nextSibling) {
+    lastStatement = child;
+
+    if (child.name === 'VariableDeclaration' && child.firstChild?.name === 'const') {
+      // `const { a } = b;` -> `;__jspadConst((() => { const { a } = b; return { a }; })());`
+      const end = child.lastChild?.name === ';' ? child.lastChild.from : child.to;
+      const names = declaredNames(child, code).join(', ');
+      replacements.push(
+        { from: child.from, to: child.from, text: `;${CONST_HOOK}(${isAsync ? 'await (async () => { ' : '(() => { '}` },
+        { from: end, to: end, text: `; return { ${names} }; })())` }
+      );
+    } else if (child.name === 'VariableDeclaration') {
+      // `let { a } = b;` -> `;({ a } = b);`, guarded against joining the
+      // previous line
+      const keyword = child.firstChild!;
+      const end = child.lastChild?.name === ';' ? child.lastChild.from : child.to;
+      replacements.push(
+        { from: keyword.from, to: keyword.to, text: ';(' },
+        { from: end, to: end, text: ')' }
+      );
+    } else if (child.name === 'ClassDeclaration' || child.name === 'FunctionDeclaration') {
+      const name = child.getChild('VariableDefinition');
+      if (!name) continue;
+      replacements.push(
+        { from: child.from, to: child.from, text: `;${code.slice(name.from, name.to)} = ` },
+        { from: child.to, to: child.to, text: ';' }
+      );
+    } else if (child.name === 'ImportDeclaration') {
+      const text = rewriteImport(child, code);
+      if (text === null) continue;
+      replacements.push({
+        from: child.from,
+        to: child.to,
+        text: text.replace(/^const /, ';(').replace(/;(\n*)$/, ');$1'),
+      });
+    }
+  }
+
+  // A final expression is the input's value; declarations have none
+  const expression = lastStatement?.name === 'ExpressionStatement' ? lastStatement.firstChild : null;
+  if (isAsync && expression && !expression.type.isError) {
+    replacements.push(
+      { from: expression.from, to: expression.from, text: 'return (' },
+      { from: expression.to, to: expression.to, text: ')' }
+    );
+  } else if (!isAsync && lastStatement && isDeclaration(lastStatement)) {
+    replacements.push({ from: code.length, to: code.length, text: '\nvoid 0' });
+  }
+
+  replacements.sort((a, b) => a.from - b.from || Number(a.to > a.from) - Number(b.to > b.from));
+  let result = '';
+  let cursor = 0;
+  for (const { from, to, text } of replacements) {
+    result += code.slice(cursor, from) + text;
+    cursor = to;
+  }
+  result += code.slice(cursor);
+
+  return { code: isAsync ? `(async () => { ${result}\n})()` : result, isAsync };
+}
+
+/**
+ * Whether the code breaks off midway, e.g. with an unclosed bracket, so a
+ * REPL should keep reading lines rather than evaluate it.
+ */
+export function isIncompleteInput(code: string, language: Language = 'js'): boolean {
+  const end = code.trimEnd().length;
+  let isIncomplete = false;
+  parseCode(code, language).iterate({
+    enter: (node) => {
+      if (node.type.isError && node.from >= end) isIncomplete = true;
+    },
+  });
+  return isIncomplete;
+}
@@ -0,0 +1,150 @@
+import type { KeyBinding } from '@codemirror/view';
+import { defaultKeymap, historyKeymap, indentWithTab } from '@codemirror/commands';
+import { searchKeymap } from '@codemirror/search';
+import { foldKeymap } from '@codemirror/language';
+import { closeBracketsKeymap, completionKeymap } from '@codemirror/autocomplete';
+import { lintKeymap } from '@codemirror/lint';
+import { emacsKeys } from '@replit/codemirror-emacs';
+import { isMac, parseShortcut } from './shortcuts';
+import type { Command, EditorKeymap } from '../types';
+
+// The keymaps editorSetup installs in the editor (see ../extensions/setup.ts)
+const EDITOR_KEYMAPS: (readonly KeyBinding[])[] = [
+  closeBracketsKeymap,
+  defaultKeymap,
+  searchKeymap,
+  historyKeymap,
+  foldKeymap,
+  completionKeymap,
+  lintKeymap,
+  [indentWithTab],
+];
+
+// 'Shift-Mod-k' -> 'Mod+Shift+K'. App shortcuts treat Cmd and Ctrl alike, so
+// both count as Mod here.
+function fromCodeMirrorKey(name: string): string {
+  const strokes = name.split(/ (?!$)/).map((stroke) => {
+    const parts = stroke.split(/-(?!$)/);
+    const key = parts.pop()!;
+    const modifiers = parts.map((modifier) => {
+      if (/^(mod|cmd|meta|m|ctrl|control|c)$/i.test(modifier)) return 'Mod';
+      if (/^(alt|a)$/i.test(modifier)) return 'Alt';
+      if (/^(shift|s)$/i.test(modifier)) return 'Shift';
+      return modifier;
+    });
+    return [...modifiers, key].join('+');
+  });
+  return parseShortcut(strokes.join(' ')).join(' ');
+}
+
+let editorShortcuts: Set<string> | undefined;
+
+// Single keystrokes the editor handles itself
+function getEditorShortcuts(): Set<string> {
+  editorShortcuts ??= new Set(
+    EDITOR_KEYMAPS.flat().flatMap((binding) => {
+      const key = (isMac ? binding.mac : undefined) ?? binding.key;
+      return key ? [fromCodeMirrorKey(key)] : [];
+    })
+  );
+  return editorShortcuts;
+}
+
+// Ctrl keystrokes of @replit/codemirror-vim's default keymap, which doesn't
+// export it
+const VIM_SHORTCUTS = [
+  'A', 'B', 'C', 'D', 'E', 'F', 'I', 'N', 'O', 'P', 'Q', 'R', 'T', 'U', 'V', 'W', 'X', 'Y', '[',
+  'Space', 'Backspace', 'Escape',
+].map(key => `Mod+${key}`);
+
+const EMACS_KEY_NAMES: Record<string, string> = {
+  Left: 'ArrowLeft',
+  Right: 'ArrowRight',
+  Up: 'ArrowUp',
+  Down: 'ArrowDown',
+  Esc: 'Escape',
+  Return: 'Enter',
+};
+
+// 'S-C-p' -> 'Mod+Shift+P'. In Emacs keys C is Ctrl, which app shortcuts
+// count as Mod, and M is Alt.
+function fromEmacsKey(name: string): string {
+  const parts = name.split(/-(?!$)/);
+  const key = parts.pop()!;
+  const modifiers = parts.map(modifier => ({ C: 'Mod', M: 'Alt', S: 'Shift' })[modifier] ?? modifier);
+  return parseShortcut([...modifiers, EMACS_KEY_NAMES[key] ?? key].join('+'))[0];
+}
+
+let keymapShortcuts: Record<EditorKeymap, Set<string>> | undefined;
+
+// First keystrokes the Vim and Emacs keymaps handle with a modifier
+function getKeymapShortcuts(keymap: EditorKeymap): Set<string> {
+  keymapShortcuts ??= {
+    default: new Set(),
+    vim: new Set(VIM_SHORTCUTS),
+    emacs: new Set(
+      Object.keys(emacsKeys)
+        .flatMap(keys => keys.split('|'))
+        .map(keys => fromEmacsKey(keys.split(' ')[0]))
+        .filter(stroke => /^(Mod|Alt)\+/.test(stroke))
+    ),
+  };
+  return keymapShortcuts[keymap];
+}
+
+const isPrefixOf = (prefix: string[], strokes: string[]) =>
+  prefix.length <= strokes.length && prefix.every((stroke, i) => stroke === strokes[i]);
+
+/** Commands with their shortcuts replaced by the user's keybindings. */
+export function applyKeybindings(
+  commands: Command[],
+  keybindings: Record<string, string[]>
+): Command[] {
+  return commands.map((command) =>
+    command.id in keybindings ? { ...command, shortcuts: keybindings[command.id] } : command
+  );
+}
+
+/**
+ * Commands whose shortcuts start with a keystroke the Vim or Emacs keymap
+ * handles too. In the editor, Vim keeps these keys from the app and Emacs
+ * runs both (see ../extensions/editorOptions.ts).
+ */
+export function findKeymapConflicts(keymap: EditorKeymap, commands: Command[]): Command[] {
+  const shortcuts = getKeymapShortcuts(keymap);
+  return commands.filter(command =>
+    command.shortcuts?.some(shortcut => shortcuts.has(parseShortcut(shortcut)[0]))
+  );
+}
+
+/**
+ * Why a command's shortcut may not work as expected: other commands using it
+ * or starting a chord with it, or the editor handling the same keys.
+ */
+export function findConflicts(
+  shortcut: string,
+  commandId: string,
+  commands: Command[],
+  keymap: EditorKeymap = 'default'
+): string[] {
+  const strokes = parseShortcut(shortcut);
+  const conflicts: string[] = [];
+
+  for (const command of commands) {
+    if (command.id === commandId) continue;
+    for (const other of command.shortcuts ?? []) {
+      const otherStrokes = parseShortcut(other);
+      if (isPrefixOf(strokes, otherStrokes) || isPrefixOf(otherStrokes, strokes)) {
+        conflicts.push(`${command.category}: ${command.title}`);
+        break;
+      }
+    }
+  }
+
+  if (getKeymapShortcuts(keymap).has(strokes[0])) {
+    conflicts.push(`the ${keymap === 'vim' ? 'Vim' : 'Emacs'} keymap`);
+  } else if (getEditorShortcuts().has(strokes[0])) {
+    conflicts.push('an editor shortcut');
+  }
+  return conflicts;
+}
@@ -0,0 +1,45 @@
+import type { Language, Tab } from '../types';
+
+export const LANGUAGES: { id: Language; label: string }[] = [
+  { id: 'js', label: 'JavaScript' },
+  { id: 'ts', label: 'TypeScript' },
+  { id: 'jsx', label: 'JSX' },
+  { id: 'tsx', label: 'TSX' },
+];
+
+export const isLanguage = (value: unknown): value is Language =>
+  LANGUAGES.some(({ id }) => id === value);
+
+export function getTabLanguage(tab: Tab): Language {
+  return tab.language ?? 'js';
+}
+
+export function isTypeScript(language: Language): boolean {
+  return language === 'ts' || language === 'tsx';
+}
+
+export function isJsx(language: Language): boolean {
+  return language === 'jsx' || language === 'tsx';
+}
+
+/** Virtual file the TypeScript language service knows this tab as. */
+export function getTabFileName(tab: Tab): string {
+  return `/tab-${tab.id}.${getTabLanguage(tab)}`;
+}
+
+const EXTENSION_LANGUAGES: Record<string, Language> = {
+  js: 'js',
+  mjs: 'js',
+  cjs: 'js',
+  ts: 'ts',
+  mts: 'ts',
+  cts: 'ts',
+  jsx: 'jsx',
+  tsx: 'tsx',
+};
+
+/** Language for a file on disk, from its extension. */
+export function getLanguageForPath(path: string): Language | undefined {
+  const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+  return EXTENSION_LANGUAGES[extension];
+}
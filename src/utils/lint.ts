@@ -0,0 +1,478 @@
+import type { SyntaxNode, Tree } from '@lezer/common';
+import type { Language, LintRuleId, LintRules, Runtime } from '../types';
+import { getLineStarts, lineAt } from './instrument';
+import { isTypeScript } from './language';
+
+export const LINT_RULES: { id: LintRuleId; description: string }[] = [
+  { id: 'no-unused-vars', description: 'Variables, functions and imports that are never used' },
+  { id: 'no-undef', description: 'Names that aren’t declared or global (JavaScript only)' },
+  { id: 'no-unreachable', description: 'Code after return, throw, break or continue' },
+];
+
+export const DEFAULT_LINT_RULES: LintRules = {
+  'no-unused-vars': 'warning',
+  'no-undef': 'error',
+  'no-unreachable': 'warning',
+};
+
+export interface LintFix {
+  title: string;
+  changes: { from: number; to: number; insert?: string }[];
+}
+
+export interface LintProblem {
+  rule: LintRuleId;
+  severity: 'warning' | 'error';
+  from: number;
+  to: number;
+  message: string;
+  fixes: LintFix[];
+}
+
+interface LintOptions {
+  language: Language;
+  runtime: Runtime;
+  rules: LintRules;
+}
+
+// Language globals, then the ones the executor worker has, some of which
+// it defines itself; Node and Bun have their own
+const LANGUAGE_GLOBALS = [
+  'globalThis', 'Infinity', 'NaN', 'undefined', 'arguments', 'eval', 'isFinite', 'isNaN', 'parseFloat',
+  'parseInt', 'decodeURI', 'decodeURIComponent', 'encodeURI', 'encodeURIComponent', 'escape', 'unescape',
+  'Object', 'Function', 'Boolean', 'Symbol', 'Number', 'BigInt', 'Math', 'Date', 'String', 'RegExp', 'Array',
+  'Error', 'AggregateError', 'EvalError', 'RangeError', 'ReferenceError', 'SyntaxError', 'TypeError', 'URIError',
+  'Int8Array', 'Uint8Array', 'Uint8ClampedArray', 'Int16Array', 'Uint16Array', 'Int32Array', 'Uint32Array',
+  'Float16Array', 'Float32Array', 'Float64Array', 'BigInt64Array', 'BigUint64Array',
+  'Map', 'Set', 'WeakMap', 'WeakSet', 'WeakRef', 'FinalizationRegistry', 'ArrayBuffer', 'SharedArrayBuffer',
+  'DataView', 'Atomics', 'JSON', 'Promise', 'Proxy', 'Reflect', 'Iterator', 'Intl', 'WebAssembly',
+];
+// Web APIs that Node has too
+const WEB_GLOBALS = [
+  'console', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask', 'structuredClone',
+  'atob', 'btoa', 'fetch', 'Request', 'Response', 'Headers', 'FormData', 'URL', 'URLSearchParams',
+  'AbortController', 'AbortSignal', 'Blob', 'File', 'TextEncoder', 'TextDecoder', 'TextEncoderStream',
+  'TextDecoderStream', 'ReadableStream', 'WritableStream', 'TransformStream', 'CompressionStream',
+  'DecompressionStream', 'Event', 'EventTarget', 'CustomEvent', 'MessageChannel', 'MessagePort', 'MessageEvent',
+  'BroadcastChannel', 'WebSocket', 'DOMException', 'crypto', 'Crypto', 'CryptoKey', 'SubtleCrypto',
+  'performance', 'navigator',
+];
+const BROWSER_GLOBALS = new Set([
+  ...LANGUAGE_GLOBALS,
+  ...WEB_GLOBALS,
+  'self', 'name', 'location', 'origin', 'isSecureContext', 'postMessage', 'close', 'importScripts',
+  'addEventListener', 'removeEventListener', 'dispatchEvent', 'onmessage', 'onerror', 'reportError',
+  'requestAnimationFrame', 'cancelAnimationFrame', 'XMLHttpRequest', 'FileReader', 'ImageData',
+  'OffscreenCanvas', 'createImageBitmap', 'indexedDB', 'caches', 'Worker',
+  'global', 'process', 'require', 'React', 'alert', 'confirm', 'prompt',
+]);
+const NODE_GLOBALS = new Set([
+  ...LANGUAGE_GLOBALS,
+  ...WEB_GLOBALS,
+  'process', 'Buffer', 'global', 'module', 'exports', 'require', '__dirname', '__filename',
+  'setImmediate', 'clearImmediate', 'Bun',
+]);
+
+// Nodes that start a function scope, which `var` and parameters belong to
+const FUNCTION_NODES = new Set(['FunctionDeclaration', 'FunctionExpression', 'ArrowFunction', 'MethodDeclaration']);
+// Nodes that start a scope for `let`, `const` and `class`
+const BLOCK_NODES = new Set(['Block', 'ForStatement', 'CatchClause', 'SwitchBody', 'ClassExpression']);
+// Destructuring between a name and the declaration it's part of
+const PATTERN_NODES = new Set(['ObjectPattern', 'ArrayPattern', 'PatternProperty']);
+const TERMINATORS = new Set(['ReturnStatement', 'ThrowStatement', 'BreakStatement', 'ContinueStatement']);
+
+interface Binding {
+  node: SyntaxNode; // the name where it's declared
+  declaration: SyntaxNode; // what the name is part of, e.g. a ParamList
+  isImport: boolean;
+  isRead: boolean;
+  isWritten: boolean;
+  isIgnored: boolean; // exported, or otherwise used from outside the code
+}
+
+interface Scope {
+  parent: Scope | null;
+  isFunction: boolean;
+  bindings: Map<string, Binding>;
+}
+
+interface Reference {
+  node: SyntaxNode;
+  name: string;
+  scope: Scope;
+  isWrite: boolean;
+  canBeUndefined: boolean; // types, `typeof x` and JSX tags aren't reported
+}
+
+const children = (node: SyntaxNode) => {
+  const nodes: SyntaxNode[] = [];
+  for (let child = node.firstChild; child; child = child.nextSibling) nodes.push(child);
+  return nodes;
+};
+
+// What a declared name is part of, past any destructuring
+const getDeclaration = (node: SyntaxNode) => {
+  let parent = node.parent!;
+  while (PATTERN_NODES.has(parent.name)) parent = parent.parent!;
+  return parent;
+};
+
+// Whether `node` is only written: the target of `=`, or of `count++` or
+// `count += 1` whose result goes unused, as a statement or a for loop's update
+const isWriteOnly = (node: SyntaxNode, code: string) => {
+  const parent = node.parent!;
+  if (parent.name === 'AssignmentExpression' && parent.from === node.from) {
+    if (node.nextSibling?.name === 'Equals') return true;
+  } else if (parent.name === 'PostfixExpression' || parent.name === 'UnaryExpression') {
+    const operator = parent.getChild('ArithOp');
+    if (!operator || !['++', '--'].includes(code.slice(operator.from, operator.to))) return false;
+  } else {
+    return false;
+  }
+  const outer = parent.parent;
+  if (outer?.name === 'ExpressionStatement') return true;
+  if (outer?.name !== 'ForSpec') return false;
+  // A declaration in the loop's init ends with its own semicolon
+  let semicolons = 0;
+  for (let sibling = parent.prevSibling; sibling; sibling = sibling.prevSibling) {
+    if (sibling.name === ';' || sibling.name === 'VariableDeclaration') semicolons++;
+  }
+  // Not the loop's condition
+  return semicolons !== 1;
+};
+
+const isExported = (node: SyntaxNode) =>
+  node.parent?.name === 'ExportDeclaration' || node.parent?.name === 'AmbientDeclaration';
+
+const hasBody = (fn: SyntaxNode | null) =>
+  !!fn && (fn.name === 'ArrowFunction' || fn.getChild('Block') !== null);
+
+const findBindings = (tree: Tree, code: string) => {
+  const scopes: Scope[] = [];
+  const createScope = (parent: Scope | null, isFunction: boolean) => {
+    const scope: Scope = { parent, isFunction, bindings: new Map() };
+    scopes.push(scope);
+    return scope;
+  };
+  const root = createScope(null, true);
+  const references: Reference[] = [];
+  const text = (node: SyntaxNode) => code.slice(node.from, node.to);
+  let hasJsx = false;
+
+  const declare = (node: SyntaxNode, scope: Scope) => {
+    const declaration = getDeclaration(node);
+    let target = scope;
+    if (declaration.getChild('var')) {
+      while (!target.isFunction) target = target.parent!;
+    }
+    const binding: Binding = {
+      node,
+      declaration,
+      isImport: declaration.name === 'ImportDeclaration' || declaration.name === 'ImportGroup',
+      isRead: false,
+      isWritten: false,
+      isIgnored: isExported(declaration)
+        // Parameter properties are class fields
+        || node.prevSibling?.name === 'Privacy'
+        || ['FunctionExpression', 'ClassExpression', 'NamespaceDeclaration'].includes(declaration.name),
+    };
+    // Redeclarations, like overloads, share the first declaration
+    const name = text(node);
+    if (!target.bindings.has(name)) target.bindings.set(name, binding);
+  };
+
+  const reference = (node: SyntaxNode, scope: Scope, canBeUndefined = false) => {
+    const parent = node.parent!;
+    references.push({
+      node,
+      name: text(node),
+      scope,
+      isWrite: isWriteOnly(node, code),
+      canBeUndefined: canBeUndefined || (parent.name === 'UnaryExpression' && parent.firstChild?.name === 'typeof'),
+    });
+  };
+
+  const visit = (node: SyntaxNode, scope: Scope): void => {
+    switch (node.name) {
+      case 'VariableDefinition':
+        declare(node, scope);
+        return;
+      case 'VariableName':
+        reference(node, scope);
+        return;
+      case 'TypeName':
+        reference(node, scope, true);
+        return;
+      case 'JSXIdentifier': {
+        hasJsx = true;
+        const isTag = node.parent!.name !== 'JSXAttribute' && node.parent!.name !== 'JSXBuiltin';
+        if (isTag && (node.parent!.name !== 'JSXMemberExpression' || !node.prevSibling)) {
+          reference(node, scope, true);
+        }
+        return;
+      }
+      case 'ImportGroup':
+        // `{ a as b }` declares b; a names the export
+        node.getChildren('VariableDefinition').forEach(child => declare(child, scope));
+        return;
+      case 'ExportGroup': {
+        // Names re-exported from another module aren't local
+        if (node.parent!.getChild('from')) return;
+        node.getChildren('VariableName')
+          .filter(child => child.prevSibling?.name !== 'as')
+          .forEach(child => reference(child, scope));
+        return;
+      }
+      case 'PatternProperty': {
+        // `{ a }` and `{ a = 1 }` declare a
+        const key = node.firstChild;
+        if (key?.name === 'PropertyName' && !node.getChild(':')) declare(key, scope);
+        break;
+      }
+      case 'Property': {
+        // `{ a }` uses a
+        const key = node.firstChild;
+        if (key?.name === 'PropertyDefinition' && !key.nextSibling) {
+          reference(key, scope);
+          return;
+        }
+        if (node.getChild('ParamList')) {
+          const inner = createScope(scope, true);
+          children(node).forEach(child => visit(child, inner));
+          return;
+        }
+        break;
+      }
+      case 'ParamList': {
+        // Parameters of signatures without a body, like overloads and
+        // function types, aren't variables; only their types are visited
+        if (hasBody(node.parent)) break;
+        children(node)
+          .filter(child => child.name !== 'VariableDefinition')
+          .forEach(child => visit(child, scope));
+        return;
+      }
+      case 'ClassDeclaration': {
+        // The class's name is declared where the class is
+        children(node).forEach(child =>
+          child.name === 'VariableDefinition' ? declare(child, scope) : visit(child, scope)
+        );
+        return;
+      }
+    }
+
+    if (FUNCTION_NODES.has(node.name)) {
+      const inner = createScope(scope, true);
+      children(node).forEach((child) => {
+        // A function declaration's name is declared where the function is
+        const isOwnName = child.name === 'VariableDefinition' && node.name === 'FunctionDeclaration';
+        if (isOwnName) {
+          declare(child, scope);
+        } else {
+          visit(child, inner);
+        }
+      });
+      return;
+    }
+
+    const inner = BLOCK_NODES.has(node.name) ? createScope(scope, false) : scope;
+    children(node).forEach(child => visit(child, inner));
+  };
+
+  visit(tree.topNode, root);
+
+  // The classic JSX transform turns tags into React.createElement calls
+  if (hasJsx) {
+    references.push({ node: tree.topNode, name: 'React', scope: root, isWrite: false, canBeUndefined: true });
+  }
+
+  const undefinedReferences: Reference[] = [];
+  for (const ref of references) {
+    let scope: Scope | null = ref.scope;
+    while (scope && !scope.bindings.has(ref.name)) scope = scope.parent;
+    const binding = scope?.bindings.get(ref.name);
+    if (!binding) {
+      if (!ref.canBeUndefined) undefinedReferences.push(ref);
+    } else if (ref.isWrite) {
+      binding.isWritten = true;
+    } else {
+      binding.isRead = true;
+    }
+  }
+
+  const bindings = scopes.flatMap(scope => [...scope.bindings.values()]);
+  return { bindings, undefinedReferences };
+};
+
+// Statements after a return, throw, break or continue in the same block.
+// Each range comes with where the code before it ends, for removing it.
+const findUnreachable = (tree: Tree) => {
+  const ranges: { from: number; to: number; after: number }[] = [];
+  tree.iterate({
+    enter: ({ name, node }) => {
+      if (name !== 'Script' && name !== 'Block' && name !== 'SwitchBody') return;
+      let after: number | null = null;
+      let range: { from: number; to: number; after: number } | null = null;
+      const flush = () => {
+        if (range) ranges.push(range);
+        range = null;
+      };
+      for (const child of children(node)) {
+        if (child.name === 'CaseLabel') {
+          flush();
+          after = null;
+        } else if (!child.type.is('Statement') || child.name === ';') {
+          continue;
+        } else if (after === null) {
+          if (TERMINATORS.has(child.name)) after = child.to;
+        } else if (child.name === 'FunctionDeclaration') {
+          // Hoisted, so still reachable
+          flush();
+          after = child.to;
+        } else if (range) {
+          range.to = child.to;
+        } else {
+          range = { from: child.from, to: child.to, after };
+        }
+      }
+      flush();
+    },
+  });
+  return ranges;
+};
+
+// The fix for an unused import: its specifier and a comma next to it, or
+// the whole declaration when it imports nothing else
+const removeImport = (node: SyntaxNode, code: string): LintFix | null => {
+  const group = node.parent!.name === 'ImportGroup' ? node.parent! : null;
+  const declaration = group ? group.parent! : node.parent!;
+  const count = declaration.getChildren('VariableDefinition').length
+    + (declaration.getChild('ImportGroup')?.getChildren('VariableDefinition').length ?? 0);
+  const title = 'Remove unused import';
+
+  if (count === 1) {
+    const to = code[declaration.to] === '\n' ? declaration.to + 1 : declaration.to;
+    return { title, changes: [{ from: declaration.from, to }] };
+  }
+  // `* as ns` next to a default import
+  if (!group && node.prevSibling?.name === 'as') return null;
+
+  let from = group && node.prevSibling?.name === 'as' ? node.prevSibling.prevSibling!.from : node.from;
+  let to = node.to;
+  const before = code.slice(0, from).trimEnd();
+  if (node.nextSibling?.name === ',') {
+    to = node.nextSibling.to;
+    while (code[to] === ' ') to++;
+  } else if (before.endsWith(',')) {
+    from = before.length - 1;
+  }
+  return { title, changes: [{ from, to }] };
+};
+
+/**
+ * Problems the enabled rules find, with fixes. Like ESLint, names starting
+ * with `_` may go unused and `// eslint-disable-next-line rule` or
+ * `// eslint-disable-line rule` comments silence a line.
+ */
+export function lintCode(code: string, tree: Tree, { language, runtime, rules }: LintOptions): LintProblem[] {
+  const problems: Omit<LintProblem, 'severity'>[] = [];
+  const text = (node: SyntaxNode) => code.slice(node.from, node.to);
+  const { bindings, undefinedReferences } = findBindings(tree, code);
+
+  if (rules['no-unused-vars'] !== 'off') {
+    // Parameters before a used one can't be left out, so they may go unused
+    const isBeforeUsedParam = (binding: Binding) =>
+      bindings.some(other =>
+        other.declaration.from === binding.declaration.from &&
+        other.declaration.name === 'ParamList' &&
+        other.node.from > binding.node.from &&
+        other.isRead
+      );
+
+    for (const binding of bindings) {
+      const { node, declaration } = binding;
+      const name = text(node);
+      if (binding.isRead || binding.isIgnored || name.startsWith('_')) continue;
+      if (declaration.name === 'ParamList' && isBeforeUsedParam(binding)) continue;
+
+      const isAssigned = binding.isWritten || declaration.getChild('Equals') !== null;
+      const fixes: LintFix[] = [];
+      if (binding.isImport) {
+        const fix = removeImport(node, code);
+        if (fix) fixes.push(fix);
+      } else if (!binding.isWritten) {
+        // Renaming a shorthand `{ a }` would change the property it reads
+        fixes.push({
+          title: `Rename to _${name}`,
+          changes: [node.name === 'PropertyName'
+            ? { from: node.to, to: node.to, insert: `: _${name}` }
+            : { from: node.from, to: node.from, insert: '_' }],
+        });
+      }
+      problems.push({
+        rule: 'no-unused-vars',
+        from: node.from,
+        to: node.to,
+        message: `'${name}' is ${isAssigned ? 'assigned a value' : 'defined'} but never used.`,
+        fixes,
+      });
+    }
+  }
+
+  // TypeScript's checker reports undeclared names itself
+  if (rules['no-undef'] !== 'off' && !isTypeScript(language)) {
+    const globals = runtime === 'browser' ? BROWSER_GLOBALS : NODE_GLOBALS;
+    for (const { node, name } of undefinedReferences) {
+      if (globals.has(name)) continue;
+      problems.push({
+        rule: 'no-undef',
+        from: node.from,
+        to: node.to,
+        message: `'${name}' is not defined.`,
+        fixes: [],
+      });
+    }
+  }
+
+  if (rules['no-unreachable'] !== 'off') {
+    for (const { from, to, after } of findUnreachable(tree)) {
+      problems.push({
+        rule: 'no-unreachable',
+        from,
+        to,
+        message: 'Unreachable code.',
+        fixes: [{ title: 'Remove unreachable code', changes: [{ from: after, to }] }],
+      });
+    }
+  }
+
+  const lineStarts = getLineStarts(code);
+  const lineOf = (pos: number) => lineAt(lineStarts, pos);
+
+  // Rules silenced per line; an empty list silences all of them
+  const disabled = new Map<number, string[]>();
+  for (const match of code.matchAll(/\/\/\s*eslint-disable-(next-line|line)\b([^\n]*)/g)) {
+    const line = lineOf(match.index) + (match[1] === 'next-line' ? 1 : 0);
+    const ruleIds = match[2].split('--')[0].split(',').map(id => id.trim()).filter(Boolean);
+    disabled.set(line, ruleIds);
+  }
+
+  return problems
+    .filter((problem) => {
+      const ruleIds = disabled.get(lineOf(problem.from));
+      return !ruleIds || (ruleIds.length > 0 && !ruleIds.includes(problem.rule));
+    })
+    .map((problem) => {
+      const lineStart = lineStarts[lineOf(problem.from) - 1];
+      const indent = /^[ \t]*/.exec(code.slice(lineStart))![0];
+      return {
+        ...problem,
+        severity: rules[problem.rule] as LintProblem['severity'],
+        fixes: [...problem.fixes, {
+          title: `Disable ${problem.rule} for this line`,
+          changes: [{ from: lineStart, to: lineStart, insert: `${indent}// eslint-disable-next-line ${problem.rule}\n` }],
+        }],
+      };
+    })
+    .sort((a, b) => a.from - b.from);
+}
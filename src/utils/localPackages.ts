@@ -0,0 +1,13 @@
+import { invoke, isTauri } from '@tauri-apps/api/core';
+import type { LocalPackageSource } from '../workers/package-manager';
+
+/**
+ * Tarballs in the app's `packages` data folder, which the desktop app can
+ * install imports from without network access. Not available in a browser.
+ */
+export const localPackageSource: LocalPackageSource | undefined = isTauri()
+  ? {
+      list: () => invoke<string[]>('list_local_packages'),
+      read: (fileName) => invoke<ArrayBuffer>('read_local_package', { fileName }),
+    }
+  : undefined;
@@ -0,0 +1,65 @@
+/**
+ * Upgrades stored records between schema versions: MIGRATIONS[n] takes the
+ * records from version n to n + 1, editing the map in place. It may return a
+ * cleanup to run once the upgraded records have been saved.
+ *
+ * Add a migration here whenever a stored shape changes, rather than coping
+ * with old shapes wherever the data is read. New settings are the exception:
+ * missing ones are filled in from their defaults when settings are read (see
+ * useSettings), so adding one needs no migration. Renaming or restructuring
+ * one does.
+ */
+export type Migration = (records: Map<string, unknown>) => (() => void) | void;
+
+// Where versions before the storage layer kept everything
+const LEGACY_KEYS: Record<string, string> = {
+  'jspad-settings': 'settings',
+  'jspad-snippets': 'snippets',
+  'jspad-recent-commands': 'recentCommands',
+  'jspad-active-tab': 'activeTabId',
+};
+const LEGACY_TABS_KEY = 'jspad-tabs';
+
+function readLegacy(key: string): unknown {
+  try {
+    const item = window.localStorage.getItem(key);
+    return item ? JSON.parse(item) : undefined;
+  } catch (error) {
+    console.error(`Error loading ${key} from localStorage:`, error);
+    return undefined;
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  // 0 → 1: move everything out of localStorage, splitting tabs into one
+  // record each
+  (records) => {
+    const tabs = readLegacy(LEGACY_TABS_KEY);
+    if (Array.isArray(tabs)) {
+      records.set('tabOrder', tabs.map(tab => tab.id));
+      for (const tab of tabs) records.set(`tab/${tab.id}`, tab);
+    }
+    for (const [legacyKey, key] of Object.entries(LEGACY_KEYS)) {
+      const value = readLegacy(legacyKey);
+      if (value !== undefined) records.set(key, value);
+    }
+
+    return () => {
+      for (const key of [LEGACY_TABS_KEY, ...Object.keys(LEGACY_KEYS)]) {
+        window.localStorage.removeItem(key);
+      }
+    };
+  },
+
+  // 1 → 2: tabs and the active tab move into a default workspace
+  (records) => {
+    for (const [key, value] of [...records]) {
+      if (key === 'tabOrder' || key === 'activeTabId' || key.startsWith('tab/')) {
+        records.set(`workspace/default/${key}`, value);
+        records.delete(key);
+      }
+    }
+    records.set('workspaces', [{ id: 'default', name: 'Default' }]);
+    records.set('activeWorkspaceId', 'default');
+  },
+];
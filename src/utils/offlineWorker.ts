@@ -0,0 +1,67 @@
+// Workers don't get the page's Content Security Policy. A worker started
+// from a blob URL takes the policy of the document that made it, though, so
+// workers without network access are started from a hidden blank frame
+// whose policy blocks it. That covers what removing globals can't, like
+// `import('https://…')` built at run time with eval. Chromium doesn't count
+// blob URLs as 'self', so worker-src allows them.
+const OFFLINE_POLICY =
+  "default-src 'none'; script-src 'self' 'unsafe-eval'; worker-src blob:; connect-src 'none'";
+
+// Posted once the worker's script has loaded
+const READY_MESSAGE = 'jspad-worker-ready';
+
+let offlineFrame: Promise<Window> | null = null;
+
+const getOfflineFrame = () =>
+  offlineFrame ??= new Promise<Window>((resolve) => {
+    const frame = document.createElement('iframe');
+    frame.hidden = true;
+    frame.srcdoc = `<meta http-equiv="Content-Security-Policy" content="${OFFLINE_POLICY}">`;
+    frame.onload = () => resolve(frame.contentWindow!);
+    document.body.append(frame);
+  });
+
+/**
+ * Starts a module worker, without network access unless `allowNetwork` is
+ * set. Rejects when the offline worker can't load, e.g. because the frame's
+ * policy blocks it.
+ */
+export async function startWorker(scriptUrl: string, allowNetwork: boolean): Promise<Worker> {
+  const url = new URL(scriptUrl, location.href).href;
+  if (allowNetwork) return new Worker(url, { type: 'module' });
+
+  const frame = (await getOfflineFrame()) as Window & typeof globalThis;
+  const blobUrl = frame.URL.createObjectURL(new frame.Blob(
+    [`import ${JSON.stringify(url)};\npostMessage(${JSON.stringify(READY_MESSAGE)});`],
+    { type: 'text/javascript' }
+  ));
+  const failure = () => new Error('It was blocked from loading without network access.');
+
+  let worker: Worker;
+  try {
+    worker = new frame.Worker(blobUrl, { type: 'module' });
+  } catch {
+    frame.URL.revokeObjectURL(blobUrl);
+    throw failure();
+  }
+
+  return new Promise<Worker>((resolve, reject) => {
+    const settle = (error?: Error) => {
+      worker.removeEventListener('message', handleMessage);
+      worker.removeEventListener('error', handleError);
+      frame.URL.revokeObjectURL(blobUrl);
+      if (error) {
+        worker.terminate();
+        reject(error);
+      } else {
+        resolve(worker);
+      }
+    };
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data === READY_MESSAGE) settle();
+    };
+    const handleError = () => settle(failure());
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleError);
+  });
+}
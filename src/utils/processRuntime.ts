@@ -0,0 +1,274 @@
+import { invoke, isTauri } from '@tauri-apps/api/core';
+import { listen } from '@tauri-apps/api/event';
+import { nanoid } from 'nanoid';
+import { CONSOLE_HOOK, EXPRESSION_HOOK, LOOP_GUARD_HOOK } from './runtimeHooks';
+import { KILLED_PREFIX } from './sandbox';
+import type { ConsoleMessage, Runtime, Tab } from '../types';
+
+export const RUNTIMES: { id: Runtime; label: string }[] = [
+  { id: 'browser', label: 'Browser' },
+  { id: 'node', label: 'Node' },
+  { id: 'bun', label: 'Bun' },
+];
+
+// Node and Bun are started by the desktop app, so a browser only has its worker
+export const canUseProcessRuntimes = isTauri();
+
+export function getTabRuntime(tab: Tab): Runtime {
+  return canUseProcessRuntimes ? tab.runtime ?? 'browser' : 'browser';
+}
+
+// Starts the stdout lines the preamble writes as JSON console messages
+const MESSAGE_MARKER = '\u001e';
+const BATCH_DELAY = 16;
+// The line the preamble writes just before a limit ends the process. The
+// exit code can't tell, since the code could exit with any code itself.
+const KILLED_MARKER = '\u001f';
+// What Node prints when it runs out of heap
+const HEAP_LIMIT_ERROR = /heap out of memory|Reached heap limit/;
+
+/**
+ * Loaded before the tab's code. Defines the hooks instrumented code calls
+ * and reports console calls, expression values and uncaught errors in the
+ * same shape the browser worker does, minus the structured `args`.
+ */
+const createPreamble = (cpuLimit: number) => `
+import { writeSync } from 'node:fs';
+import * as nodeModule from 'node:module';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { format, inspect } from 'node:util';
+
+const write = (message) => {
+  process.stdout.write('${MESSAGE_MARKER}' + JSON.stringify(message) + '\\n');
+};
+
+// Frames in the tab's code; TypeScript is mapped back to its source
+const USER_FRAME = /(?:main\\.mjs|input\\.[jt]sx?):(\\d+):\\d+\\)?$/;
+const userFrames = (stack = '') => stack.split('\\n').slice(1).flatMap((frame) => {
+  const match = USER_FRAME.exec(frame);
+  if (!match) return [];
+  const name = /^\\s*at (?:async )?([^\\s(]+) \\(/.exec(frame);
+  return [{ name: name ? name[1] : '<anonymous>', line: Number(match[1]) }];
+});
+const formatStack = (frames) =>
+  frames.map(({ name, line }) => 'at ' + name + ' (line ' + line + ')').join('\\n') || undefined;
+
+const methods = (line) => {
+  const emit = (type) => (...args) => write({ type, content: format(...args), line });
+  return {
+    log: emit('log'),
+    info: emit('info'),
+    debug: emit('debug'),
+    warn: emit('warn'),
+    error: emit('error'),
+    dir: (value) => write({ type: 'dir', content: inspect(value), line }),
+    trace: (...args) => write({
+      type: 'trace',
+      content: format(...args) || 'console.trace',
+      stack: formatStack(userFrames(new Error().stack)),
+      line,
+    }),
+    group: (...args) => write({ type: 'group', content: format(...args) || 'console.group', line }),
+    groupCollapsed: (...args) =>
+      write({ type: 'group', content: format(...args) || 'console.group', collapsed: true, line }),
+    groupEnd: () => write({ type: 'groupEnd', content: '', line }),
+  };
+};
+
+// Node's own table, count, time and assert call these, so they're reported too
+Object.assign(console, methods());
+const consoles = new Map();
+globalThis.${CONSOLE_HOOK} = (line) => {
+  if (!consoles.has(line)) consoles.set(line, Object.assign(Object.create(console), methods(line)));
+  return consoles.get(line);
+};
+globalThis.${EXPRESSION_HOOK} = (line, value) => {
+  if (value !== undefined) write({ type: 'result', content: inspect(value), line });
+  return value;
+};
+
+// The code runs from a temp folder, so packages resolve from the working
+// folder instead
+const base = pathToFileURL(join(process.cwd(), 'index.js')).href;
+globalThis.require = nodeModule.createRequire(base);
+if (!process.versions.bun && nodeModule.register) {
+  nodeModule.register('data:text/javascript,' + encodeURIComponent(
+    'export async function resolve(specifier, context, next) {' +
+    '  try { return await next(specifier, context); }' +
+    '  catch (error) {' +
+    '    if (!context.parentURL?.endsWith("/main.mjs")) throw error;' +
+    '    return next(specifier, { ...context, parentURL: ' + JSON.stringify(base) + ' });' +
+    '  }' +
+    '}'
+  ));
+}
+
+const report = (prefix) => (error) => {
+  const frames = error instanceof Error ? userFrames(error.stack) : [];
+  write({
+    type: 'error',
+    thrown: true,
+    content: prefix + ' ' + (error instanceof Error ? error.name + ': ' + error.message : inspect(error)),
+    line: frames[0]?.line,
+    stack: formatStack(frames),
+  });
+  process.exitCode = 1;
+};
+process.on('uncaughtException', report('Uncaught'));
+process.on('unhandledRejection', report('Uncaught (in promise)'));
+
+// Loops that don't yield within the CPU limit end the process. The message
+// is written synchronously so it isn't lost on exit.
+let iterations = 0;
+let sliceStart = null;
+globalThis.${LOOP_GUARD_HOOK} = (line) => {
+  if (++iterations % 100 !== 0) return;
+  const now = performance.now();
+  if (sliceStart === null) {
+    sliceStart = now;
+    setTimeout(() => { sliceStart = null; }, 0).unref();
+  } else if (now - sliceStart > ${cpuLimit}) {
+    writeSync(1, '${MESSAGE_MARKER}' + JSON.stringify({
+      type: 'error',
+      thrown: true,
+      content: '${KILLED_PREFIX} the loop on line ' + line + ' ran for over ${cpuLimit / 1000}s without yielding',
+      line,
+    }) + '\\n${KILLED_MARKER}\\n');
+    process.exit(1);
+  }
+};
+`;
+
+interface OutputEvent {
+  runId: string;
+  stream: 'stdout' | 'stderr';
+  text: string;
+}
+
+interface ExitEvent {
+  runId: string;
+  code: number | null;
+  timedOut: boolean;
+}
+
+export interface ProcessRunRequest {
+  runtime: Exclude<Runtime, 'browser'>;
+  code: string;
+  // Folder the process runs in, e.g. the tab's file's folder
+  cwd?: string;
+  timeout: number;
+  cpuLimit: number;
+  // MB of heap, 0 for no limit; only Node supports one
+  memoryLimit: number;
+  maxLogs: number; // messages shown before further output is dropped
+  onOutput: (messages: ConsoleMessage[]) => void;
+  onExit: (result: { exitCode: number | null; timedOut: boolean; killed: boolean }) => void;
+}
+
+const parseLine = ({ stream, text }: OutputEvent): ConsoleMessage => {
+  if (stream === 'stdout' && text.startsWith(MESSAGE_MARKER)) {
+    try {
+      return JSON.parse(text.slice(MESSAGE_MARKER.length));
+    } catch {
+      // Something else printed the marker; show the line as is
+    }
+  }
+  return { type: stream === 'stderr' ? 'error' : 'log', content: text };
+};
+
+/** Lets the process map TypeScript frames back to the tab's source. */
+export function inlineSourceMap(code: string, sourceMap: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(sourceMap)) binary += String.fromCharCode(byte);
+  return `${code}\n//# sourceMappingURL=data:application/json;base64,${btoa(binary)}`;
+}
+
+/**
+ * Runs code in a Node or Bun process, which is killed once the timeout
+ * passes. Output arrives in batches like the browser worker's. Resolves with
+ * a function that kills the process once it has started.
+ */
+export async function runInProcess({
+  runtime,
+  code,
+  cwd,
+  timeout,
+  cpuLimit,
+  memoryLimit,
+  maxLogs,
+  onOutput,
+  onExit,
+}: ProcessRunRequest): Promise<() => void> {
+  const runId = nanoid();
+  let batch: ConsoleMessage[] = [];
+  let batchTimer: ReturnType<typeof setTimeout> | undefined;
+  let count = 0;
+  let isOutOfMemory = false;
+  let isKilled = false;
+
+  const flush = () => {
+    clearTimeout(batchTimer);
+    batchTimer = undefined;
+    if (batch.length > 0) onOutput(batch);
+    batch = [];
+  };
+
+  const stopOutput = await listen<OutputEvent>('process-output', ({ payload }) => {
+    if (payload.runId !== runId) return;
+    if (payload.stream === 'stdout' && payload.text === KILLED_MARKER) {
+      isKilled = true;
+      return;
+    }
+    if (count > maxLogs) return;
+    count++;
+    if (payload.stream === 'stderr' && memoryLimit > 0 && HEAP_LIMIT_ERROR.test(payload.text)) {
+      isOutOfMemory = true;
+      batch.push({
+        type: 'error',
+        thrown: true,
+        content: `${KILLED_PREFIX} memory use passed the ${memoryLimit} MB limit`,
+      });
+    } else {
+      batch.push(count > maxLogs
+        ? { type: 'warn', content: `Output limit reached (${maxLogs} messages)` }
+        : parseLine(payload));
+    }
+    batchTimer ??= setTimeout(flush, BATCH_DELAY);
+  });
+  const stopExit = await listen<ExitEvent>('process-exit', ({ payload }) => {
+    if (payload.runId !== runId) return;
+    stopOutput();
+    stopExit();
+    flush();
+    onExit({
+      exitCode: payload.code,
+      timedOut: payload.timedOut,
+      killed: isOutOfMemory || isKilled,
+    });
+  });
+
+  try {
+    await invoke('run_process', {
+      runId,
+      runtime,
+      code,
+      preamble: createPreamble(cpuLimit),
+      cwd,
+      timeoutMs: timeout,
+      memoryLimit: memoryLimit || null,
+      // One past the limit, so the limit warning shows
+      maxLines: maxLogs + 1,
+    });
+  } catch (error) {
+    stopOutput();
+    stopExit();
+    throw new Error(String(error));
+  }
+
+  return () => {
+    invoke('kill_process', { runId }).catch((error) => {
+      console.error('Error stopping process:', error);
+    });
+  };
+}
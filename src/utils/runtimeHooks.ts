@@ -0,0 +1,11 @@
+// Globals the executor worker defines and instrumented code calls into
+export const CONSOLE_HOOK = '__jspadConsole';
+export const EXPRESSION_HOOK = '__jspadExpr';
+export const IMPORT_HOOK = '__jspadImport';
+export const DYNAMIC_IMPORT_HOOK = '__jspadDynamicImport';
+// Called at the top of every loop body, so loops that don't yield can be killed
+export const LOOP_GUARD_HOOK = '__jspadLoop';
+// Set by every run to evaluate REPL input in the run's top-level scope
+export const SCOPE_HOOK = '__jspadScope';
+// Defines REPL const declarations as read-only globals
+export const CONST_HOOK = '__jspadConst';
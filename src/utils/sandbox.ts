@@ -0,0 +1,28 @@
+import type { SandboxPolicy } from '../types';
+
+// Blocked when the sandbox's network access is off
+export const NETWORK_GLOBALS = ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'WebTransport'];
+
+// Worker APIs code can only use when they're in the policy's allowlist
+export const HOST_GLOBALS: { name: string; description: string }[] = [
+  { name: 'importScripts', description: 'Load and run scripts from URLs' },
+  { name: 'indexedDB', description: 'Databases that outlive the run' },
+  { name: 'caches', description: 'Cache storage' },
+  { name: 'BroadcastChannel', description: 'Messages to other workers' },
+  { name: 'Worker', description: 'Starting more workers' },
+  { name: 'navigator', description: 'Browser and device details' },
+  { name: 'location', description: 'The app’s URL' },
+];
+
+export const MEMORY_LIMITS = [0, 128, 256, 512, 1024];
+export const CPU_LIMITS = [1000, 2000, 5000, 10000];
+
+export const DEFAULT_SANDBOX_POLICY: SandboxPolicy = {
+  allowNetwork: true,
+  allowedGlobals: ['navigator', 'location'],
+  memoryLimit: 0,
+  cpuLimit: 2000,
+};
+
+// Starts the console message of a run a limit ended
+export const KILLED_PREFIX = '⛔ Execution killed:';
@@ -0,0 +1,211 @@
+import { isTauri } from '@tauri-apps/api/core';
+import { DEFAULT_SETTINGS } from '../hooks/useSettings';
+import { isLanguage } from './language';
+import { HOST_GLOBALS } from './sandbox';
+import { parseCustomTheme } from './themes';
+import type { Language, Settings, Tab } from '../types';
+
+const SHARE_VERSION = 1;
+const WORKSPACE_FORMAT = 'jspad-workspace';
+const WORKSPACE_VERSION = 1;
+export const WORKSPACE_EXTENSION = 'jspad';
+
+// The settings that change how shared code behaves when it runs
+export type SharedSettings = Pick<Settings, 'executionTimeout' | 'sandbox'>;
+
+/**
+ * What a share link or workspace file carries for each tab. There's no
+ * runtime: shared code always opens in the browser sandbox, never as a local
+ * Node or Bun process.
+ */
+export interface SharedTab {
+  name: string;
+  code: string;
+  language: Language;
+}
+
+interface ShareLinkData extends SharedTab {
+  version: number;
+  settings: SharedSettings;
+}
+
+interface WorkspaceFile {
+  format: typeof WORKSPACE_FORMAT;
+  version: number;
+  activeIndex: number;
+  tabs: SharedTab[];
+  settings: Settings;
+}
+
+export type ShareLinkKind = 'web' | 'app';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toSharedTab = (tab: Tab): SharedTab => ({
+  name: tab.name,
+  code: tab.code,
+  language: tab.language ?? 'js',
+});
+
+function parseSharedTab(item: unknown, index = 0): SharedTab {
+  if (!isPlainObject(item) || typeof item.name !== 'string' || typeof item.code !== 'string') {
+    throw new Error(`Tab ${index + 1} needs a name and code`);
+  }
+  return {
+    name: item.name,
+    code: item.code,
+    language: isLanguage(item.language) ? item.language : 'js',
+  };
+}
+
+/**
+ * Keeps the values that have the same shape as the defaults, so a file from
+ * another version can't put bad settings in place.
+ */
+function mergeValid<T>(defaults: T, value: unknown): T {
+  if (isPlainObject(defaults)) {
+    if (!isPlainObject(value)) return defaults;
+    // Records like keybindings start empty and take any key
+    if (Object.keys(defaults).length === 0) return value as T;
+    const merged: Record<string, unknown> = { ...defaults };
+    for (const key of Object.keys(defaults)) {
+      if (key in value) merged[key] = mergeValid(defaults[key], value[key]);
+    }
+    return merged as T;
+  }
+  if (Array.isArray(defaults)) {
+    return Array.isArray(value) ? value as T : defaults;
+  }
+  return typeof value === typeof defaults ? value as T : defaults;
+}
+
+// mergeValid only checks that arrays are arrays, so their items are checked
+// here, dropping the ones that don't fit
+const validSandbox = (value: unknown): Settings['sandbox'] => {
+  const sandbox = mergeValid(DEFAULT_SETTINGS.sandbox, value);
+  return {
+    ...sandbox,
+    allowedGlobals: sandbox.allowedGlobals.filter(name => HOST_GLOBALS.some(global => global.name === name)),
+  };
+};
+
+const validSettings = (value: unknown): Settings => {
+  const settings = mergeValid(DEFAULT_SETTINGS, value);
+  const isShortcutList = (shortcuts: unknown) =>
+    Array.isArray(shortcuts) && shortcuts.every(shortcut => typeof shortcut === 'string');
+  return {
+    ...settings,
+    keybindings: Object.fromEntries(
+      Object.entries(settings.keybindings).filter(([, shortcuts]) => isShortcutList(shortcuts))
+    ),
+    sandbox: validSandbox(settings.sandbox),
+    customThemes: settings.customThemes.flatMap((theme) => {
+      const valid = parseCustomTheme(theme);
+      return valid ? [valid] : [];
+    }),
+  };
+};
+
+async function transform(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream) {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+/**
+ * A link that opens the tab, with its settings, as a new tab: a `#share=`
+ * fragment on this page for browsers or a `jspad://` link for the desktop app.
+ * The code is compressed into the link, so nothing is uploaded anywhere.
+ */
+export async function createShareLink(tab: Tab, settings: Settings, kind: ShareLinkKind): Promise<string> {
+  const data: ShareLinkData = {
+    version: SHARE_VERSION,
+    ...toSharedTab(tab),
+    settings: { executionTimeout: settings.executionTimeout, sandbox: settings.sandbox },
+  };
+  const bytes = new TextEncoder().encode(JSON.stringify(data));
+  const encoded = toBase64Url(await transform(bytes, new CompressionStream('deflate-raw')));
+  return kind === 'app'
+    ? `jspad://share/${encoded}`
+    : `${location.origin}${location.pathname}#share=${encoded}`;
+}
+
+// The desktop app's pages aren't reachable from anywhere else
+export const defaultShareLinkKind: ShareLinkKind = isTauri() ? 'app' : 'web';
+
+/** The encoded tab in a link from createShareLink, or null for other links. */
+export function getShareData(link: string): string | null {
+  return /(?:#share=|^jspad:\/\/share\/)([\w-]+)/.exec(link)?.[1] ?? null;
+}
+
+/** Throws when the link was cut short or isn't one of ours. */
+export async function decodeShareData(encoded: string): Promise<{ tab: SharedTab; settings: SharedSettings }> {
+  let data: unknown;
+  try {
+    const bytes = await transform(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+    data = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error('The link is incomplete or damaged');
+  }
+  if (!isPlainObject(data) || typeof data.version !== 'number' || data.version > SHARE_VERSION) {
+    throw new Error('The link was made by a newer version of JSPad');
+  }
+
+  const settings = isPlainObject(data.settings) ? data.settings : {};
+  return {
+    tab: parseSharedTab(data),
+    settings: {
+      executionTimeout: mergeValid(DEFAULT_SETTINGS.executionTimeout, settings.executionTimeout),
+      sandbox: validSandbox(settings.sandbox),
+    },
+  };
+}
+
+/** Every tab's code plus the settings, as the contents of a `.jspad` file. */
+export function exportWorkspace(tabs: Tab[], activeTabId: string, settings: Settings): string {
+  const data: WorkspaceFile = {
+    format: WORKSPACE_FORMAT,
+    version: WORKSPACE_VERSION,
+    activeIndex: Math.max(0, tabs.findIndex(tab => tab.id === activeTabId)),
+    // Output, history and file paths only make sense on this machine
+    tabs: tabs.map(toSharedTab),
+    settings,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+/** Reads a `.jspad` file, throwing when it isn't one. */
+export function parseWorkspace(json: string): Omit<WorkspaceFile, 'format' | 'version'> {
+  const data = JSON.parse(json) as unknown;
+  if (!isPlainObject(data) || data.format !== WORKSPACE_FORMAT) {
+    throw new Error('Not a JSPad workspace file');
+  }
+  if (typeof data.version !== 'number' || data.version > WORKSPACE_VERSION) {
+    throw new Error('The workspace was saved by a newer version of JSPad');
+  }
+  if (!Array.isArray(data.tabs) || data.tabs.length === 0) {
+    throw new Error('The workspace has no tabs');
+  }
+
+  const tabs = data.tabs.map(parseSharedTab);
+  return {
+    tabs,
+    activeIndex: typeof data.activeIndex === 'number'
+      ? Math.min(Math.max(0, Math.floor(data.activeIndex)), tabs.length - 1)
+      : 0,
+    settings: validSettings(data.settings),
+  };
+}
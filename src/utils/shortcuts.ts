@@ -0,0 +1,79 @@
+// A shortcut is one or more keystrokes separated by spaces, e.g. 'Mod+Shift+P'
+// or the chord 'Mod+K Mod+C'. Mod is Cmd on macOS and Ctrl elsewhere.
+
+export const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const KEY_SYMBOLS: Record<string, string> = {
+  Enter: '↵',
+  Escape: 'Esc',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Backspace: '⌫',
+  PageUp: 'PgUp',
+  PageDown: 'PgDn',
+};
+
+const MODIFIER_KEYS = new Set(['Meta', 'Control', 'Shift', 'Alt']);
+
+interface Keystroke {
+  key: string;
+  mod: boolean;
+  shift: boolean;
+  alt: boolean;
+}
+
+function parseKeystroke(stroke: string): Keystroke {
+  const parts = stroke.split('+');
+  // A trailing '+' is the plus key itself
+  const key = stroke.endsWith('++') ? '+' : parts[parts.length - 1];
+  const modifiers = new Set(parts.slice(0, -1));
+  return {
+    key: key.length === 1 ? key.toUpperCase() : key,
+    mod: modifiers.has('Mod'),
+    shift: modifiers.has('Shift'),
+    alt: modifiers.has('Alt'),
+  };
+}
+
+const keystrokeToString = ({ key, mod, shift, alt }: Keystroke) =>
+  [mod && 'Mod', alt && 'Alt', shift && 'Shift', key].filter(Boolean).join('+');
+
+/** Keystrokes of a shortcut, each in canonical form. */
+export function parseShortcut(shortcut: string): string[] {
+  return shortcut.trim().split(/\s+/).map(stroke => keystrokeToString(parseKeystroke(stroke)));
+}
+
+/**
+ * The keystroke a key event makes, or null for a lone modifier key. Letters
+ * and digits come from the physical key, so Shift+1 stays '1' rather than '!'.
+ */
+export function eventToKeystroke(event: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+
+  let key = event.key === ' ' ? 'Space' : event.key;
+  if (/^Key[A-Z]$/.test(event.code)) key = event.code.slice(3);
+  if (/^Digit\d$/.test(event.code)) key = event.code.slice(5);
+
+  return keystrokeToString({
+    key: key.length === 1 ? key.toUpperCase() : key,
+    mod: event.metaKey || event.ctrlKey,
+    shift: event.shiftKey,
+    alt: event.altKey,
+  });
+}
+
+/** How a shortcut is shown in menus, e.g. '⌘⇧P' on macOS. */
+export function formatShortcut(shortcut: string): string {
+  return parseShortcut(shortcut)
+    .map((stroke) => {
+      const { key, mod, shift, alt } = parseKeystroke(stroke);
+      const label = KEY_SYMBOLS[key] ?? key;
+      if (isMac) {
+        return `${mod ? '⌘' : ''}${alt ? '⌥' : ''}${shift ? '⇧' : ''}${label}`;
+      }
+      return [mod && 'Ctrl', alt && 'Alt', shift && 'Shift', label].filter(Boolean).join('+');
+    })
+    .join(' ');
+}
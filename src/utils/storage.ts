@@ -0,0 +1,425 @@
+import { nanoid } from 'nanoid';
+import { MIGRATIONS } from './migrations';
+import { createBackend, type StorageBackend } from './storageBackends';
+import type { Tab, Workspace } from '../types';
+
+// Persisted records are loaded into memory before the app renders, so reads
+// are synchronous. Writes update memory right away and reach the backend in
+// batches. Records under `workspace/<id>/` belong to one workspace and are
+// only in memory while it's open.
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+const VERSION_KEY = 'schemaVersion';
+export const WORKSPACES_KEY = 'workspaces';
+export const ACTIVE_WORKSPACE_KEY = 'activeWorkspaceId';
+export const DEFAULT_WORKSPACE: Workspace = { id: 'default', name: 'Default' };
+
+const WORKSPACE_PREFIX = 'workspace/';
+/** Key of a record that belongs to one workspace. */
+export const workspaceKey = (workspaceId: string, key: string) =>
+  `${WORKSPACE_PREFIX}${workspaceId}/${key}`;
+const inWorkspace = (workspaceId: string) => (key: string) =>
+  key.startsWith(workspaceKey(workspaceId, ''));
+const tabOrderKey = (workspaceId: string) => workspaceKey(workspaceId, 'tabOrder');
+const tabKey = (workspaceId: string, id: string) => workspaceKey(workspaceId, `tab/${id}`);
+const TAB_KEY = /^workspace\/[^/]+\/tab\/(.+)$/;
+
+// Typing shouldn't write on every keystroke
+const WRITE_DELAY = 300;
+
+// Console output is stored for a glance after reopening a tab, not as a log:
+// runs can print far more than is worth writing
+const STORED_OUTPUT_LIMIT = 200;
+
+// Tabs edited since their last successful write, kept in localStorage because
+// it writes synchronously and survives a crash while a batch is written
+const RECOVERY_KEY = 'jspad-recovery';
+type RecoveryEntry = Pick<Tab, 'id' | 'name' | 'code' | 'language' | 'filePath' | 'isDirty'> & {
+  workspaceId?: string; // missing from entries journaled before workspaces
+};
+// Journal changes waiting for the next batch, by tab id; null removes the
+// tab's entry
+const pendingJournal = new Map<string, RecoveryEntry | null>();
+
+export interface StorageStatus {
+  // Why changes aren't being saved, if they aren't
+  error: string | null;
+  // Tabs whose unsaved code was recovered at startup
+  recoveredTabs: string[];
+}
+
+let backend: StorageBackend | null = null;
+const records = new Map<string, unknown>();
+// Undefined values are deletes
+const pendingWrites = new Map<string, unknown>();
+let writeTimer: ReturnType<typeof setTimeout> | undefined;
+let lastWrite: Promise<boolean> = Promise.resolve(true);
+
+// The tab objects last written, by record key. Stored tabs are copies with
+// their output cut down, so they can't be compared with the tabs directly.
+const savedTabs = new Map<string, Tab>();
+
+let status: StorageStatus = { error: null, recoveredTabs: [] };
+const statusListeners = new Set<() => void>();
+
+function setStatus(updates: Partial<StorageStatus>) {
+  status = { ...status, ...updates };
+  statusListeners.forEach(listener => listener());
+}
+
+export const getStorageStatus = () => status;
+
+export function subscribeStorageStatus(listener: () => void) {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+export const dismissRecoveredTabs = () => setStatus({ recoveredTabs: [] });
+
+function describeError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const isFull = (error instanceof DOMException && error.name === 'QuotaExceededError')
+    || /quota|no space left|disk full/i.test(message);
+  return isFull
+    ? 'Storage is full, so changes aren’t being saved. Clear run history or close tabs to free up space.'
+    : `Changes aren’t being saved: ${message}`;
+}
+
+function readRecoveryJournal(): Record<string, RecoveryEntry> {
+  try {
+    return JSON.parse(window.localStorage.getItem(RECOVERY_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+function updateRecoveryJournal(update: (journal: Record<string, RecoveryEntry>) => void) {
+  const journal = readRecoveryJournal();
+  update(journal);
+  try {
+    if (Object.keys(journal).length > 0) {
+      window.localStorage.setItem(RECOVERY_KEY, JSON.stringify(journal));
+    } else {
+      window.localStorage.removeItem(RECOVERY_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving the recovery journal:', error);
+  }
+}
+
+/**
+ * Writes everything waiting to be written. Returns false if it failed; the
+ * writes stay queued and are retried with the next change.
+ */
+export function flushWrites(): Promise<boolean> {
+  clearTimeout(writeTimer);
+  writeTimer = undefined;
+
+  if (pendingJournal.size > 0) {
+    updateRecoveryJournal((journal) => {
+      pendingJournal.forEach((entry, id) => {
+        if (entry) {
+          journal[id] = entry;
+        } else {
+          delete journal[id];
+        }
+      });
+    });
+    pendingJournal.clear();
+  }
+
+  // One batch at a time, so batches land in order
+  lastWrite = lastWrite.then(async () => {
+    if (!backend || pendingWrites.size === 0) return true;
+
+    const batch = new Map(pendingWrites);
+    pendingWrites.clear();
+    try {
+      await backend.write(batch);
+    } catch (error) {
+      console.error('Error saving to storage:', error);
+      // Keep the failed writes unless something newer replaced them
+      batch.forEach((value, key) => {
+        if (!pendingWrites.has(key)) pendingWrites.set(key, value);
+      });
+      setStatus({ error: describeError(error) });
+      return false;
+    }
+
+    // Tabs written with nothing newer queued are safe on disk now
+    const savedTabIds = [...batch.keys()]
+      .filter(key => !pendingWrites.has(key))
+      .map(key => TAB_KEY.exec(key)?.[1])
+      .filter((id): id is string => id !== undefined);
+    if (savedTabIds.length > 0) {
+      updateRecoveryJournal(journal => savedTabIds.forEach(id => delete journal[id]));
+    }
+    if (status.error) setStatus({ error: null });
+    return true;
+  });
+  return lastWrite;
+}
+
+function queueWrite(key: string, value: unknown) {
+  if (value === undefined) {
+    records.delete(key);
+  } else {
+    records.set(key, value);
+  }
+  pendingWrites.set(key, value);
+  clearTimeout(writeTimer);
+  writeTimer = setTimeout(flushWrites, WRITE_DELAY);
+}
+
+export const readRecord = <T>(key: string) => records.get(key) as T | undefined;
+
+/** Stores a value. Values must not be mutated afterwards, like React state. */
+export function writeRecord(key: string, value: unknown) {
+  if (records.get(key) !== value) queueWrite(key, value);
+}
+
+export function loadTabs(workspaceId: string): Tab[] {
+  const order = readRecord<string[]>(tabOrderKey(workspaceId)) ?? [];
+  const tabs = order
+    .map(id => readRecord<Tab>(tabKey(workspaceId, id)))
+    .filter((tab): tab is Tab => tab !== undefined);
+  tabs.forEach(tab => savedTabs.set(tabKey(workspaceId, tab.id), tab));
+  return tabs;
+}
+
+// What's written for a tab; its output is a copy, since the tab's own array
+// keeps growing while code runs. Only the last run's output is kept, not
+// earlier runs' that preserve log shows above it.
+const toStoredTab = (tab: Tab): Tab => {
+  const output = tab.consoleOutput;
+  let start = Math.max(output.length - STORED_OUTPUT_LIMIT, 0);
+  for (let i = output.length - 1; i >= start; i--) {
+    if (output[i].type === 'separator') {
+      start = i + 1;
+      break;
+    }
+  }
+  return { ...tab, consoleOutput: output.slice(start) };
+};
+
+/** Writes the tabs that changed since the last call, and the tab order. */
+export function saveTabs(workspaceId: string, tabs: Tab[]) {
+  const ids = tabs.map(tab => tab.id);
+  const order = readRecord<string[]>(tabOrderKey(workspaceId));
+  if (order?.join('\n') !== ids.join('\n')) {
+    writeRecord(tabOrderKey(workspaceId), ids);
+  }
+
+  const changed = tabs.filter(tab => savedTabs.get(tabKey(workspaceId, tab.id)) !== tab);
+  changed.forEach((tab) => {
+    const key = tabKey(workspaceId, tab.id);
+    // Only edits are worth recovering; output and history come back on the
+    // next run
+    const previous = savedTabs.get(key);
+    if (previous?.code !== tab.code || previous.name !== tab.name) {
+      const { id, name, code, language, filePath, isDirty } = tab;
+      pendingJournal.set(id, { id, name, code, language, filePath, isDirty, workspaceId });
+    }
+    savedTabs.set(key, tab);
+    writeRecord(key, toStoredTab(tab));
+  });
+
+  const tabPrefix = tabKey(workspaceId, '');
+  const removedIds = [...records.keys()]
+    .filter(key => key.startsWith(tabPrefix))
+    .map(key => key.slice(tabPrefix.length))
+    .filter(id => !ids.includes(id));
+  removedIds.forEach((id) => {
+    savedTabs.delete(tabKey(workspaceId, id));
+    pendingJournal.set(id, null);
+    writeRecord(tabKey(workspaceId, id), undefined);
+  });
+}
+
+// Puts back a workspace's tab edits that were journaled but never written,
+// e.g. because the app crashed or was closed mid-batch
+function recoverTabs(workspaceId: string) {
+  const journal = readRecoveryJournal();
+  const order = readRecord<string[]>(tabOrderKey(workspaceId)) ?? [];
+  const missingIds: string[] = [];
+  const recovered: string[] = [];
+  const upToDateIds: string[] = [];
+
+  for (const { workspaceId: entryWorkspaceId, ...entry } of Object.values(journal)) {
+    if ((entryWorkspaceId ?? DEFAULT_WORKSPACE.id) !== workspaceId) continue;
+
+    const stored = readRecord<Tab>(tabKey(workspaceId, entry.id));
+    if (stored?.code === entry.code && stored.name === entry.name) {
+      upToDateIds.push(entry.id);
+      continue;
+    }
+
+    writeRecord(tabKey(workspaceId, entry.id), { consoleOutput: [], ...stored, ...entry });
+    if (!order.includes(entry.id)) missingIds.push(entry.id);
+    if (stored?.code !== entry.code) recovered.push(entry.name);
+  }
+
+  if (missingIds.length > 0) writeRecord(tabOrderKey(workspaceId), [...order, ...missingIds]);
+  if (upToDateIds.length > 0) {
+    updateRecoveryJournal(journal => upToDateIds.forEach(id => delete journal[id]));
+  }
+  if (recovered.length > 0) setStatus({ recoveredTabs: [...status.recoveredTabs, ...recovered] });
+}
+
+// A workspace's records as they'll be once pending writes land
+async function readWorkspace(workspaceId: string): Promise<Map<string, unknown>> {
+  const isInWorkspace = inWorkspace(workspaceId);
+  const workspaceRecords = backend ? await backend.load(isInWorkspace) : new Map<string, unknown>();
+  records.forEach((value, key) => {
+    if (isInWorkspace(key)) workspaceRecords.set(key, value);
+  });
+  pendingWrites.forEach((value, key) => {
+    if (value === undefined && isInWorkspace(key)) workspaceRecords.delete(key);
+  });
+  return workspaceRecords;
+}
+
+/**
+ * Loads a workspace's records and drops the other workspaces' from memory.
+ * Resolves once the workspace can be read synchronously.
+ */
+export async function openWorkspace(workspaceId: string) {
+  // Dropped records must be saved first, and a batch still being written
+  // would otherwise be read back stale
+  const isSaved = await flushWrites();
+  const isInWorkspace = inWorkspace(workspaceId);
+
+  const loaded = await readWorkspace(workspaceId);
+  loaded.forEach((value, key) => records.set(key, value));
+  if (isSaved && backend) {
+    for (const key of [...records.keys()]) {
+      if (key.startsWith(WORKSPACE_PREFIX) && !isInWorkspace(key) && !pendingWrites.has(key)) {
+        records.delete(key);
+        savedTabs.delete(key);
+      }
+    }
+  }
+  recoverTabs(workspaceId);
+}
+
+/** Copies a workspace's tabs and settings into a new one, with new tab ids. */
+export async function copyWorkspace(fromId: string, toId: string) {
+  await flushWrites();
+  const fromPrefix = workspaceKey(fromId, '');
+  const source = new Map(
+    [...await readWorkspace(fromId)].map(([key, value]) => [key.slice(fromPrefix.length), value])
+  );
+
+  const newIds = new Map<string, string>();
+  const order = (source.get('tabOrder') as string[] | undefined) ?? [];
+  order.forEach(id => newIds.set(id, nanoid()));
+  source.forEach((value, key) => {
+    if (key === 'tabOrder') {
+      writeRecord(tabOrderKey(toId), order.map(id => newIds.get(id)));
+    } else if (key === 'activeTabId') {
+      writeRecord(workspaceKey(toId, key), newIds.get(value as string) ?? value);
+    } else if (key.startsWith('tab/')) {
+      const id = newIds.get(key.slice('tab/'.length));
+      // Tabs left out of the order were closed
+      if (id) writeRecord(tabKey(toId, id), { ...(value as Tab), id });
+    } else {
+      writeRecord(workspaceKey(toId, key), value);
+    }
+  });
+  await flushWrites();
+}
+
+/** Deletes every record of a workspace, open or not. */
+export async function deleteWorkspace(workspaceId: string) {
+  const isInWorkspace = inWorkspace(workspaceId);
+  const keys = new Set([...records.keys()].filter(isInWorkspace));
+  if (backend) (await backend.keys()).filter(isInWorkspace).forEach(key => keys.add(key));
+  keys.forEach((key) => {
+    savedTabs.delete(key);
+    queueWrite(key, undefined);
+  });
+
+  pendingJournal.forEach((entry, id) => {
+    if (entry?.workspaceId === workspaceId) pendingJournal.delete(id);
+  });
+  updateRecoveryJournal((journal) => {
+    for (const [id, entry] of Object.entries(journal)) {
+      if (entry.workspaceId === workspaceId) delete journal[id];
+    }
+  });
+  await flushWrites();
+}
+
+// The workspace the app opens with: the last one open, if it still exists
+function getStartupWorkspaceId(): string {
+  const workspaces = readRecord<Workspace[]>(WORKSPACES_KEY) ?? [DEFAULT_WORKSPACE];
+  const activeId = readRecord<string>(ACTIVE_WORKSPACE_KEY);
+  return workspaces.some(workspace => workspace.id === activeId)
+    ? activeId!
+    : workspaces[0]?.id ?? DEFAULT_WORKSPACE.id;
+}
+
+/**
+ * Loads and upgrades stored data, then opens the last workspace. Never
+ * rejects: if storage can't be used, the app runs from memory and the status
+ * says why.
+ */
+export async function initStorage(): Promise<void> {
+  let version: number;
+  try {
+    backend = createBackend();
+    (await backend.load(key => !key.startsWith(WORKSPACE_PREFIX)))
+      .forEach((value, key) => records.set(key, value));
+    version = readRecord<number>(VERSION_KEY) ?? 0;
+    // Migrations see every record; openWorkspace drops the rest again
+    if (version < SCHEMA_VERSION) {
+      (await backend.load(key => key.startsWith(WORKSPACE_PREFIX)))
+        .forEach((value, key) => records.set(key, value));
+    }
+  } catch (error) {
+    console.error('Error opening storage:', error);
+    backend = null;
+    setStatus({ error: `Couldn’t open storage, so changes won’t be saved: ${String(error)}` });
+    return;
+  }
+
+  if (version > SCHEMA_VERSION) {
+    await openWorkspace(getStartupWorkspaceId());
+    // Writing would clobber data the newer version still needs
+    backend = null;
+    pendingWrites.clear();
+    setStatus({ error: 'Your data was saved by a newer version of JSPad, so changes made here won’t be saved.' });
+    return;
+  }
+
+  if (version < SCHEMA_VERSION) {
+    const before = new Map(records);
+    const cleanups = MIGRATIONS.slice(version).map(migrate => migrate(records));
+    records.set(VERSION_KEY, SCHEMA_VERSION);
+
+    records.forEach((value, key) => {
+      if (before.get(key) !== value) pendingWrites.set(key, value);
+    });
+    before.forEach((_, key) => {
+      if (!records.has(key)) pendingWrites.set(key, undefined);
+    });
+    if (await flushWrites()) {
+      cleanups.forEach(cleanup => cleanup?.());
+    }
+  }
+
+  const startupWorkspaceId = getStartupWorkspaceId();
+  writeRecord(ACTIVE_WORKSPACE_KEY, startupWorkspaceId);
+  await openWorkspace(startupWorkspaceId);
+
+  // Ask the browser not to evict our data under storage pressure
+  navigator.storage?.persist?.().catch(() => {});
+
+  // Get queued writes out before the page goes away
+  window.addEventListener('pagehide', () => flushWrites());
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flushWrites();
+  });
+}
@@ -0,0 +1,144 @@
+import { isTauri } from '@tauri-apps/api/core';
+import {
+  BaseDirectory,
+  exists,
+  mkdir,
+  readDir,
+  readTextFile,
+  remove,
+  rename,
+  writeTextFile,
+} from '@tauri-apps/plugin-fs';
+
+/** Where persisted records live. Values are plain JSON data. */
+export interface StorageBackend {
+  keys(): Promise<string[]>;
+  // Reads only the records whose keys pass `include`
+  load(include: (key: string) => boolean): Promise<Map<string, unknown>>;
+  // An undefined value deletes the record
+  write(changes: Map<string, unknown>): Promise<void>;
+}
+
+const DB_NAME = 'jspad';
+const STORE_NAME = 'records';
+
+function createIndexedDbBackend(): StorageBackend {
+  let database: Promise<IDBDatabase> | undefined;
+
+  const openDatabase = () => {
+    database ??= new Promise((resolve, reject) => {
+      const open = indexedDB.open(DB_NAME, 1);
+      open.onupgradeneeded = () => open.result.createObjectStore(STORE_NAME);
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => reject(open.error);
+    });
+    return database;
+  };
+
+  // Resolves once the transaction has committed; quota errors abort it
+  const transact = async (
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => void
+  ) => {
+    const db = await openDatabase();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      action(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+
+  return {
+    async keys() {
+      let keys: IDBValidKey[] = [];
+      await transact('readonly', (store) => {
+        const request = store.getAllKeys();
+        request.onsuccess = () => {
+          keys = request.result;
+        };
+      });
+      return keys.map(String);
+    },
+
+    async load(include) {
+      const records = new Map<string, unknown>();
+      await transact('readonly', (store) => {
+        const request = store.getAllKeys();
+        request.onsuccess = () => {
+          for (const key of request.result) {
+            if (!include(String(key))) continue;
+            const get = store.get(key);
+            get.onsuccess = () => records.set(String(key), get.result);
+          }
+        };
+      });
+      return records;
+    },
+
+    // One transaction, so a batch is saved entirely or not at all
+    write: (changes) =>
+      transact('readwrite', (store) => {
+        changes.forEach((value, key) => {
+          if (value === undefined) {
+            store.delete(key);
+          } else {
+            store.put(value, key);
+          }
+        });
+      }),
+  };
+}
+
+const STORAGE_DIR = 'storage';
+const dirOptions = { baseDir: BaseDirectory.AppData };
+
+const recordPath = (key: string) => `${STORAGE_DIR}/${encodeURIComponent(key)}.json`;
+
+// One JSON file per record in the app's data folder
+function createFileBackend(): StorageBackend {
+  const keys = async () => {
+    await mkdir(STORAGE_DIR, { ...dirOptions, recursive: true });
+    return (await readDir(STORAGE_DIR, dirOptions))
+      .filter(entry => entry.isFile && entry.name.endsWith('.json'))
+      .map(entry => decodeURIComponent(entry.name.slice(0, -'.json'.length)));
+  };
+
+  return {
+    keys,
+
+    async load(include) {
+      const records = new Map<string, unknown>();
+      for (const key of await keys()) {
+        if (!include(key)) continue;
+        try {
+          records.set(key, JSON.parse(await readTextFile(recordPath(key), dirOptions)));
+        } catch (error) {
+          console.error(`Skipping unreadable record ${key}:`, error);
+        }
+      }
+      return records;
+    },
+
+    async write(changes) {
+      for (const [key, value] of changes) {
+        const path = recordPath(key);
+        if (value === undefined) {
+          if (await exists(path, dirOptions)) await remove(path, dirOptions);
+          continue;
+        }
+        // Renaming over the old file is atomic, so a crash mid-write leaves
+        // either the old record or the new one
+        await writeTextFile(`${path}.tmp`, JSON.stringify(value), dirOptions);
+        await rename(`${path}.tmp`, path, {
+          oldPathBaseDir: BaseDirectory.AppData,
+          newPathBaseDir: BaseDirectory.AppData,
+        });
+      }
+    },
+  };
+}
+
+export const createBackend = (): StorageBackend =>
+  isTauri() ? createFileBackend() : createIndexedDbBackend();
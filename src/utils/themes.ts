@@ -0,0 +1,362 @@
+import { nanoid } from 'nanoid';
+import type { Theme, ThemeColors } from '../types';
+
+// Follows the OS: light or dark, or high contrast when asked for more contrast
+export const SYSTEM_THEME_ID = 'system';
+
+export const DARK_THEME: Theme = {
+  id: 'dark',
+  name: 'Dark',
+  type: 'dark',
+  colors: {
+    background: '#1e1e1e',
+    foreground: '#d4d4d4',
+    border: '#3e3e42',
+    hover: '#2a2d2e',
+    accent: '#60a5fa',
+    success: '#86efac',
+    error: '#f87171',
+    warn: '#facc15',
+    info: '#93c5fd',
+    debug: '#6b7280',
+    time: '#5eead4',
+    selection: '#6199ff2f',
+    cursor: '#c6c6c6',
+    lineHighlight: '#ffffff0f',
+    gutter: '#838383',
+    keyword: '#569cd6',
+    control: '#c586c0',
+    variable: '#9cdcfe',
+    property: '#9cdcfe',
+    function: '#dcdcaa',
+    type: '#4ec9b0',
+    string: '#ce9178',
+    number: '#b5cea8',
+    regexp: '#d16969',
+    comment: '#6a9955',
+    operator: '#d4d4d4',
+  },
+};
+
+export const LIGHT_THEME: Theme = {
+  id: 'light',
+  name: 'Light',
+  type: 'light',
+  colors: {
+    background: '#ffffff',
+    foreground: '#1f2328',
+    border: '#d0d7de',
+    hover: '#eef1f4',
+    accent: '#0969da',
+    success: '#1a7f37',
+    error: '#cf222e',
+    warn: '#9a6700',
+    info: '#0550ae',
+    debug: '#6e7781',
+    time: '#116329',
+    selection: '#add6ff80',
+    cursor: '#000000',
+    lineHighlight: '#0000000a',
+    gutter: '#6e7781',
+    keyword: '#0000ff',
+    control: '#af00db',
+    variable: '#001080',
+    property: '#001080',
+    function: '#795e26',
+    type: '#267f99',
+    string: '#a31515',
+    number: '#098658',
+    regexp: '#811f3f',
+    comment: '#008000',
+    operator: '#000000',
+  },
+};
+
+export const HIGH_CONTRAST_THEME: Theme = {
+  id: 'high-contrast',
+  name: 'High Contrast',
+  type: 'dark',
+  highContrast: true,
+  colors: {
+    background: '#000000',
+    foreground: '#ffffff',
+    border: '#6fc3df',
+    hover: '#1f1f1f',
+    accent: '#f38518',
+    success: '#89d185',
+    error: '#f48771',
+    warn: '#ffd700',
+    info: '#75beff',
+    debug: '#bfbfbf',
+    time: '#4ec9b0',
+    selection: '#ffffff40',
+    cursor: '#ffffff',
+    lineHighlight: '#ffffff1f',
+    gutter: '#ffffff',
+    keyword: '#569cd6',
+    control: '#c586c0',
+    variable: '#9cdcfe',
+    property: '#9cdcfe',
+    function: '#dcdcaa',
+    type: '#4ec9b0',
+    string: '#ce9178',
+    number: '#b5cea8',
+    regexp: '#d16969',
+    comment: '#7ca668',
+    operator: '#ffffff',
+  },
+};
+
+export const BUILT_IN_THEMES = [DARK_THEME, LIGHT_THEME, HIGH_CONTRAST_THEME];
+
+export interface SystemPreferences {
+  prefersDark: boolean;
+  prefersContrast: boolean;
+}
+
+/**
+ * The theme to show for a theme id. Custom themes are completed from the
+ * built-in theme of their type, and unknown ids fall back to Dark.
+ */
+export function resolveTheme(themeId: string, customThemes: Theme[], system: SystemPreferences): Theme {
+  if (themeId === SYSTEM_THEME_ID) {
+    if (system.prefersContrast) return HIGH_CONTRAST_THEME;
+    return system.prefersDark ? DARK_THEME : LIGHT_THEME;
+  }
+
+  const builtIn = BUILT_IN_THEMES.find(theme => theme.id === themeId);
+  if (builtIn) return builtIn;
+
+  const custom = customThemes.find(theme => theme.id === themeId);
+  if (!custom) return DARK_THEME;
+  const base = custom.type === 'light' ? LIGHT_THEME : DARK_THEME;
+  return { ...custom, colors: { ...base.colors, ...custom.colors } };
+}
+
+// --- CSS variables ---
+
+type Rgba = [number, number, number, number];
+
+const HEX_COLOR = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+export const isColor = (value: unknown): value is string =>
+  typeof value === 'string' && HEX_COLOR.test(value);
+
+function parseColor(color: string): Rgba {
+  let hex = color.slice(1);
+  if (hex.length <= 4) hex = [...hex].map(digit => digit + digit).join('');
+  const channels = hex.match(/../g)!.map(pair => parseInt(pair, 16));
+  return [channels[0], channels[1], channels[2], channels.length === 4 ? channels[3] / 255 : 1];
+}
+
+// `amount` of the first color over the second, ignoring the second's alpha
+function mix(color: Rgba, background: Rgba, amount: number): Rgba {
+  const weight = amount * color[3];
+  return [0, 1, 2].map(i => Math.round(color[i] * weight + background[i] * (1 - weight))).concat(1) as Rgba;
+}
+
+// Tailwind reads the variables as "r g b" so classes can add their own alpha
+const toChannels = ([r, g, b]: Rgba) => `${r} ${g} ${b}`;
+
+// How far each gray shade is from the background towards the text color
+const GRAY_SHADES = { 300: 0.95, 400: 0.7, 500: 0.45, 600: 0.3 };
+const HIGH_CONTRAST_GRAY_SHADES = { 300: 1, 400: 0.9, 500: 0.8, 600: 0.6 };
+
+/**
+ * The CSS variables the Tailwind config's theme colors read. Grays are
+ * mixed from the text and background colors so they suit light themes too.
+ */
+export function getThemeVariables(theme: Theme): Record<string, string> {
+  const { colors } = theme;
+  const background = parseColor(colors.background);
+  // Translucent colors, e.g. from VS Code themes, are shown over the background
+  const opaque = (color: string) => toChannels(mix(parseColor(color), background, 1));
+
+  const variables: Record<string, string> = {
+    '--theme-bg': opaque(colors.background),
+    '--theme-text': opaque(colors.foreground),
+    '--theme-border': opaque(colors.border),
+    '--theme-hover': opaque(colors.hover),
+    '--theme-accent': opaque(colors.accent),
+    '--theme-success': opaque(colors.success),
+  };
+  const shades = theme.highContrast ? HIGH_CONTRAST_GRAY_SHADES : GRAY_SHADES;
+  for (const [shade, amount] of Object.entries(shades)) {
+    variables[`--gray-${shade}`] = toChannels(mix(parseColor(colors.foreground), background, amount));
+  }
+  for (const level of ['error', 'warn', 'info', 'debug', 'time'] as const) {
+    variables[`--console-${level}`] = opaque(colors[level]);
+  }
+  for (const token of ['keyword', 'control', 'variable', 'property', 'function', 'string', 'number', 'regexp'] as const) {
+    variables[`--syntax-${token}`] = opaque(colors[token]);
+  }
+  return variables;
+}
+
+export function applyTheme(theme: Theme) {
+  const root = document.documentElement;
+  for (const [name, value] of Object.entries(getThemeVariables(theme))) {
+    root.style.setProperty(name, value);
+  }
+  // Native controls and scrollbars follow the theme too
+  root.style.colorScheme = theme.type;
+}
+
+// --- Importing ---
+
+// Removes comments and trailing commas, which VS Code themes often have
+function stripJsonComments(text: string): string {
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      const start = i;
+      for (i++; i < text.length && text[i] !== '"'; i++) {
+        if (text[i] === '\\') i++;
+      }
+      result += text.slice(start, i + 1);
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      result += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else {
+      result += char;
+    }
+  }
+  return result.replace(/,(\s*[}\]])/g, '$1');
+}
+
+// VS Code workbench colors for each theme color, in order of preference
+const VSCODE_COLORS: Partial<Record<keyof ThemeColors, string[]>> = {
+  background: ['editor.background'],
+  foreground: ['editor.foreground', 'foreground'],
+  border: ['panel.border', 'editorGroup.border', 'contrastBorder'],
+  hover: ['list.hoverBackground', 'toolbar.hoverBackground'],
+  accent: ['textLink.foreground', 'focusBorder'],
+  success: ['gitDecoration.addedResourceForeground', 'terminal.ansiGreen'],
+  error: ['errorForeground', 'editorError.foreground'],
+  warn: ['editorWarning.foreground'],
+  info: ['editorInfo.foreground'],
+  debug: ['descriptionForeground'],
+  time: ['terminal.ansiCyan'],
+  selection: ['editor.selectionBackground'],
+  cursor: ['editorCursor.foreground'],
+  lineHighlight: ['editor.lineHighlightBackground'],
+  gutter: ['editorLineNumber.foreground'],
+};
+
+// A TextMate scope typical of each syntax color; the theme's most specific
+// rule for it wins, as in VS Code
+const VSCODE_SCOPES: Partial<Record<keyof ThemeColors, string>> = {
+  keyword: 'storage.type.js',
+  control: 'keyword.control.flow.js',
+  variable: 'variable.other.readwrite.js',
+  property: 'variable.other.property.js',
+  function: 'entity.name.function.js',
+  type: 'entity.name.type.class.js',
+  string: 'string.quoted.double.js',
+  number: 'constant.numeric.decimal.js',
+  regexp: 'string.regexp.js',
+  comment: 'comment.line.double-slash.js',
+  operator: 'keyword.operator.arithmetic.js',
+};
+
+interface TokenColor {
+  scope?: string | string[];
+  settings?: { foreground?: unknown };
+}
+
+function findTokenColor(tokenColors: TokenColor[], scope: string): string | undefined {
+  let best: { color: string; length: number } | undefined;
+  for (const rule of tokenColors) {
+    const color = rule.settings?.foreground;
+    if (!isColor(color) || !rule.scope) continue;
+    const selectors = Array.isArray(rule.scope) ? rule.scope : rule.scope.split(',');
+    for (const selector of selectors.map(s => s.trim())) {
+      const matches = scope === selector || scope.startsWith(selector + '.');
+      // Later rules win ties, like in VS Code
+      if (matches && (!best || selector.length >= best.length)) {
+        best = { color, length: selector.length };
+      }
+    }
+  }
+  return best?.color;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function fromVSCodeTheme(data: Record<string, unknown>): Omit<Theme, 'id'> {
+  const workbench = isObject(data.colors) ? data.colors : {};
+  const tokenColors = Array.isArray(data.tokenColors) ? data.tokenColors.filter(isObject) as TokenColor[] : [];
+  const type = data.type === 'light' || data.type === 'hcLight' ? 'light' : 'dark';
+  const colors: Partial<ThemeColors> = {};
+
+  for (const [key, names] of Object.entries(VSCODE_COLORS)) {
+    const color = names.map(name => workbench[name]).find(isColor);
+    if (color) colors[key as keyof ThemeColors] = color;
+  }
+  for (const [key, scope] of Object.entries(VSCODE_SCOPES)) {
+    const color = findTokenColor(tokenColors, scope);
+    if (color) colors[key as keyof ThemeColors] = color;
+  }
+
+  const base = type === 'light' ? LIGHT_THEME : DARK_THEME;
+  return {
+    name: typeof data.name === 'string' && data.name.trim() ? data.name.trim() : 'Imported Theme',
+    type,
+    highContrast: data.type === 'hc' || data.type === 'hcLight' || undefined,
+    colors: { ...base.colors, ...colors },
+  };
+}
+
+// JSPad's own format: a name, a type and any of the theme colors
+function fromJSPadTheme(data: Record<string, unknown>): Omit<Theme, 'id'> {
+  const type = data.type === 'light' ? 'light' : 'dark';
+  const base = type === 'light' ? LIGHT_THEME : DARK_THEME;
+  const colors = isObject(data.colors) ? data.colors : {};
+  const validColors = Object.fromEntries(
+    Object.keys(base.colors).filter(key => isColor(colors[key])).map(key => [key, colors[key]])
+  );
+  return {
+    name: typeof data.name === 'string' && data.name.trim() ? data.name.trim() : 'Imported Theme',
+    type,
+    highContrast: data.highContrast === true || undefined,
+    colors: { ...base.colors, ...validColors },
+  };
+}
+
+/**
+ * A custom theme from settings that came from elsewhere, like a workspace
+ * file, checked the way theme files are. Null when it isn't a theme.
+ */
+export function parseCustomTheme(value: unknown): Theme | null {
+  if (!isObject(value) || typeof value.id !== 'string' || !isObject(value.colors)) return null;
+  return { id: value.id, ...fromJSPadTheme(value) };
+}
+
+/**
+ * Reads a theme file: JSPad's format, or a VS Code color theme. Colors the
+ * file doesn't set come from the built-in theme of its type. Throws when the
+ * file isn't a theme.
+ */
+export function parseTheme(text: string): Theme {
+  let data: unknown;
+  try {
+    data = JSON.parse(stripJsonComments(text));
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isObject(data) || (!isObject(data.colors) && !Array.isArray(data.tokenColors))) {
+    throw new Error('The file has no theme colors.');
+  }
+
+  // VS Code's color names are dotted, e.g. "editor.background"
+  const isVSCodeTheme =
+    Array.isArray(data.tokenColors) ||
+    (isObject(data.colors) && Object.keys(data.colors).some(key => key.includes('.')));
+  const theme = isVSCodeTheme ? fromVSCodeTheme(data) : fromJSPadTheme(data);
+  return { id: `custom-${nanoid()}`, ...theme };
+}
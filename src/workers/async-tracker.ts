@@ -0,0 +1,172 @@
+type TaskKind = 'setTimeout' | 'setInterval' | 'requestAnimationFrame' | 'queueMicrotask' | 'fetch';
+
+interface AsyncTrackerOptions {
+  // Errors thrown by callbacks of tracked work
+  onError: (error: unknown) => void;
+  // Called whenever a piece of tracked work finishes
+  onSettle: () => void;
+}
+
+const ANIMATION_FRAME_INTERVAL = 16;
+
+// The worker's own timers must not be tracked, so keep the originals around
+export const originalSetTimeout = self.setTimeout.bind(self);
+export const originalClearTimeout = self.clearTimeout.bind(self);
+export const originalSetInterval = self.setInterval.bind(self);
+export const originalClearInterval = self.clearInterval.bind(self);
+const originalQueueMicrotask = self.queueMicrotask.bind(self);
+const originalFetch = self.fetch.bind(self);
+const NativePromise = Promise;
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+/**
+ * Replaces the worker's async APIs with versions that keep a record of the
+ * work user code has scheduled, so the executor knows when a run is really
+ * finished and what was still outstanding when it had to be cut off.
+ */
+export function installAsyncTracker({ onError, onSettle }: AsyncTrackerOptions) {
+  const tasks = new Map<unknown, TaskKind>();
+  let unsettledPromises = 0;
+
+  const start = (id: unknown, kind: TaskKind) => {
+    tasks.set(id, kind);
+  };
+
+  const finish = (id: unknown) => {
+    if (tasks.delete(id)) onSettle();
+  };
+
+  const run = (callback: unknown, args: any[]) => {
+    try {
+      if (typeof callback === 'function') callback(...args);
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  (self as any).setTimeout = (callback: unknown, delay?: number, ...args: any[]) => {
+    const id = originalSetTimeout(() => {
+      run(callback, args);
+      finish(id);
+    }, delay || 0);
+    start(id, 'setTimeout');
+    return id;
+  };
+
+  // An interval stays outstanding until it is cleared
+  (self as any).setInterval = (callback: unknown, delay?: number, ...args: any[]) => {
+    const id = originalSetInterval(() => run(callback, args), delay || 0);
+    start(id, 'setInterval');
+    return id;
+  };
+
+  // Timeouts and intervals share ids, so either function clears both
+  const clearTimer = (id: any) => {
+    originalClearTimeout(id);
+    originalClearInterval(id);
+    finish(id);
+  };
+  (self as any).clearTimeout = clearTimer;
+  (self as any).clearInterval = clearTimer;
+
+  // Workers have no real frames to sync to, so frames are just short timeouts
+  (self as any).requestAnimationFrame = (callback: FrameRequestCallback) => {
+    const id = originalSetTimeout(() => {
+      run(callback, [performance.now()]);
+      finish(id);
+    }, ANIMATION_FRAME_INTERVAL);
+    start(id, 'requestAnimationFrame');
+    return id;
+  };
+  (self as any).cancelAnimationFrame = clearTimer;
+
+  (self as any).queueMicrotask = (callback: VoidFunction) => {
+    const id = {};
+    start(id, 'queueMicrotask');
+    originalQueueMicrotask(() => {
+      run(callback, []);
+      finish(id);
+    });
+  };
+
+  (self as any).fetch = (...args: Parameters<typeof fetch>) => {
+    const id = {};
+    start(id, 'fetch');
+    return originalFetch(...args).finally(() => finish(id));
+  };
+
+  // Count promises built with `new Promise` that haven't settled yet. Promises
+  // from async functions and `.then` are native and untracked; they can only
+  // be stuck if one of these, or other tracked work, is.
+  (self as any).Promise = new Proxy(NativePromise, {
+    construct(target, [executor], newTarget) {
+      if (typeof executor !== 'function') {
+        return Reflect.construct(target, [executor], newTarget);
+      }
+
+      let isSettled = false;
+      const settle = () => {
+        if (!isSettled) {
+          isSettled = true;
+          unsettledPromises--;
+        }
+      };
+
+      unsettledPromises++;
+      return Reflect.construct(
+        target,
+        [(resolve: (value: unknown) => void, reject: (reason?: unknown) => void) => {
+          try {
+            executor(
+              (value: unknown) => {
+                settle();
+                resolve(value);
+              },
+              (reason?: unknown) => {
+                settle();
+                reject(reason);
+              }
+            );
+          } catch (error) {
+            settle();
+            reject(error);
+          }
+        }],
+        newTarget
+      );
+    },
+  });
+
+  return {
+    get pendingCount() {
+      return tasks.size;
+    },
+
+    get unsettledPromises() {
+      return unsettledPromises;
+    },
+
+    /** Human-readable summary like `1 setInterval, 2 fetch requests`. */
+    describePending(): string {
+      const counts = new Map<TaskKind, number>();
+      tasks.forEach((kind) => counts.set(kind, (counts.get(kind) ?? 0) + 1));
+
+      const parts = [...counts].map(([kind, count]) =>
+        kind === 'fetch' ? plural(count, 'fetch request') : `${count} ${kind}`
+      );
+      if (unsettledPromises > 0) {
+        parts.push(plural(unsettledPromises, 'unsettled promise'));
+      }
+      return parts.join(', ');
+    },
+
+    cancelAll() {
+      tasks.forEach((_kind, id) => {
+        originalClearTimeout(id as number);
+        originalClearInterval(id as number);
+      });
+      tasks.clear();
+    },
+  };
+}
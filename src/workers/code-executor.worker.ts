@@ -1,95 +1,192 @@
+import {
+  CONSOLE_HOOK,
+  CONST_HOOK,
+  DYNAMIC_IMPORT_HOOK,
+  EXPRESSION_HOOK,
+  IMPORT_HOOK,
+  LOOP_GUARD_HOOK,
+  SCOPE_HOOK,
+} from '../utils/runtimeHooks';
+import { KILLED_PREFIX } from '../utils/sandbox';
+import { createConsoleRuntime } from './console';
+import { createModuleLoader } from './module-loader';
+import { installAsyncTracker, originalClearTimeout, originalSetTimeout } from './async-tracker';
+import { createErrorMessage, createPositionMapper, wrapUserCode } from './errors';
+import { serializeValue } from './serialize';
+import { ExecutionKilled, applySandboxPolicy, enforceLimits } from './sandbox';
+import { formatValue } from '../utils/formatValue';
+import type { ConsoleMessage, ModuleBundle, SandboxPolicy } from '../types';
+
 interface ExecuteMessage {
   type: 'execute';
   code: string;
   timeout: number;
+  sourceMap?: string; // when the code was transpiled
+  syntaxErrorLine?: number; // where the editor's parser found a syntax error, if anywhere
+  bundle?: ModuleBundle; // packages the code imports
+  policy: SandboxPolicy;
+  maxLogs: number;
+}
+
+// REPL input, prepared by prepareReplInput in ../utils/instrument.ts
+interface EvaluateMessage {
+  type: 'evaluate';
+  id: number;
+  code: string;
+  isAsync: boolean;
+  bundle?: ModuleBundle; // packages the input imports
+}
+
+// Property names of `target`, a property path like `a.b`, or of the global
+// scope when it's empty
+interface GetCompletionsMessage {
+  type: 'getCompletions';
+  id: number;
+  target: string;
 }
 
 interface TerminateMessage {
   type: 'terminate';
 }
 
-type WorkerMessage = ExecuteMessage | TerminateMessage;
+type WorkerMessage = ExecuteMessage | EvaluateMessage | GetCompletionsMessage | TerminateMessage;
 
-interface ConsoleMessage {
-  type: 'log' | 'error' | 'warn';
-  content: string;
-}
+// Messages the worker posts back while and after running
+export type ExecutorEvent =
+  | { type: 'output'; logs: ConsoleMessage[] }
+  | { type: 'clear' }
+  | { type: 'complete'; timedOut: boolean; killed: boolean }
+  | { type: 'evaluated'; id: number }
+  | { type: 'completions'; id: number; names: string[] };
+
+// Kept before the sandbox policy can take them away from user code
+const postMessage = self.postMessage.bind(self);
+const close = self.close.bind(self);
+const post = (event: ExecutorEvent) => postMessage(event);
+
+const IDLE_CHECK_DELAY = 10;
+// Output is streamed to the UI in batches, at most once per frame
+const FLUSH_INTERVAL = 16;
 
-const MAX_LOGS = 1000;
-let logs: ConsoleMessage[] = [];
+let logCount = 0;
+let maxLogs = Infinity; // set by each run
+let pendingLogs: ConsoleMessage[] = [];
+let isFlushScheduled = false;
 
 // Override console methods
 const originalConsoleLog = console.log;
 const originalConsoleError = console.error;
 const originalConsoleWarn = console.warn;
-const originalSetTimeout = self.setTimeout.bind(self);
-const originalSetInterval = self.setInterval.bind(self);
-const originalClearTimeout = self.clearTimeout.bind(self);
-const originalClearInterval = self.clearInterval.bind(self);
 
-let pendingTimers = new Set<number>();
+let mapPosition = createPositionMapper();
 
-console.log = (...args: any[]) => {
-  if (logs.length >= MAX_LOGS) {
-    if (logs.length === MAX_LOGS) {
-      logs.push({
+const flushLogs = () => {
+  isFlushScheduled = false;
+  if (pendingLogs.length === 0) return;
+
+  post({ type: 'output', logs: pendingLogs });
+  pendingLogs = [];
+};
+
+// REPL results don't count towards the limit: the input was typed by hand,
+// and its result must show even after a run filled the console
+const queueLog = (message: ConsoleMessage, isCounted = true) => {
+  if (isCounted) logCount++;
+  pendingLogs.push(message);
+  if (!isFlushScheduled) {
+    isFlushScheduled = true;
+    originalSetTimeout(flushLogs, FLUSH_INTERVAL);
+  }
+};
+
+const pushLog = (message: ConsoleMessage) => {
+  if (logCount >= maxLogs) {
+    if (logCount === maxLogs) {
+      queueLog({
         type: 'warn',
-        content: `⚠️ Log limit reached (${MAX_LOGS} lines). Further logs will be ignored.`,
+        content: `⚠️ Log limit reached (${maxLogs} lines). Further logs will be ignored.`,
       });
     }
-    return;
+    return false;
   }
 
-  const content = args.map(arg => {
-    // Check if it's a Promise
-    if (arg && typeof arg === 'object' && typeof arg.then === 'function') {
-      // It's a Promise, track its state
-      const initialContent = `Promise { <pending> }`;
-
-      // Track the promise resolution
-      arg.then(
-        (value: any) => {
-          const resolvedContent = typeof value === 'object'
-            ? JSON.stringify(value, null, 2)
-            : String(value);
-          console.log(`Promise resolved: ${resolvedContent}`);
-        },
-        (error: any) => {
-          console.error(`Promise rejected: ${String(error)}`);
-        }
-      );
+  queueLog(message);
+  if (message.type === 'error') {
+    originalConsoleError('[User Code Error]', message.content);
+  } else if (message.type === 'warn') {
+    originalConsoleWarn('[User Code Warn]', message.content);
+  } else {
+    originalConsoleLog('[User Code]', message.content);
+  }
+  return true;
+};
 
-      return initialContent;
-    }
+const reportError = (error: unknown, options?: Parameters<typeof createErrorMessage>[2]) => {
+  // The kill was already reported
+  if (error instanceof ExecutionKilled) return;
+  pushLog(createErrorMessage(error, mapPosition, options));
+};
 
-    if (typeof arg === 'object') {
-      try {
-        return JSON.stringify(arg, null, 2);
-      } catch {
-        return String(arg);
-      }
-    }
-    return String(arg);
-  }).join(' ');
+const consoleRuntime = createConsoleRuntime({
+  push: pushLog,
+  clear: () => {
+    logCount = 0;
+    pendingLogs = [];
+    post({ type: 'clear' });
+  },
+});
 
-  logs.push({ type: 'log', content });
-  originalConsoleLog('[User Code]', content);
-};
+Object.assign(console, consoleRuntime.createMethods());
 
-console.error = (...args: any[]) => {
-  if (logs.length >= MAX_LOGS + 1) return;
+// Instrumented code calls these with the source line of each console call
+// and top-level expression (see ../utils/instrument.ts)
+const lineConsoles = new Map<number, Console>();
 
-  const content = args.map(arg => String(arg)).join(' ');
-  logs.push({ type: 'error', content });
-  originalConsoleError('[User Code Error]', content);
+(self as any)[CONSOLE_HOOK] = (line: number): Console => {
+  let lineConsole = lineConsoles.get(line);
+  if (!lineConsole) {
+    lineConsole = Object.assign(Object.create(console), consoleRuntime.createMethods(line));
+    lineConsoles.set(line, lineConsole!);
+  }
+  return lineConsole!;
+};
+
+(self as any)[EXPRESSION_HOOK] = (line: number, value: any) => {
+  if (value !== undefined) {
+    const args = [serializeValue(value)];
+    pushLog({ type: 'result', content: formatValue(args[0]), args, line });
+  }
+  return value;
 };
 
-console.warn = (...args: any[]) => {
-  if (logs.length >= MAX_LOGS + 1) return;
+// Like a const, assigning throws and so does declaring the name again
+(self as any)[CONST_HOOK] = (values: Record<string, unknown>) => {
+  for (const [name, value] of Object.entries(values)) {
+    if (Object.getOwnPropertyDescriptor(self, name)?.configurable === false) {
+      throw new SyntaxError(`Identifier '${name}' has already been declared`);
+    }
+    Object.defineProperty(self, name, {
+      get: () => value,
+      set: () => {
+        throw new TypeError('Assignment to constant variable.');
+      },
+      enumerable: true,
+      configurable: false,
+    });
+  }
+};
 
-  const content = args.map(arg => String(arg)).join(' ');
-  logs.push({ type: 'warn', content });
-  originalConsoleWarn('[User Code Warn]', content);
+// Packages commonly expect these Node globals
+(self as any).global = self;
+(self as any).process ??= { env: { NODE_ENV: 'development' }, browser: true };
+
+// Minimal JSX runtime so JSX/TSX tabs run without importing React
+(self as any).React = {
+  Fragment: 'Fragment',
+  createElement: (type: any, props: any, ...children: any[]) => ({
+    type: typeof type === 'function' ? type.name : type,
+    props: { ...props, children },
+  }),
 };
 
 // Polyfill DOM APIs
@@ -108,39 +205,89 @@ console.warn = (...args: any[]) => {
   return value;
 };
 
-// Track timers
-(self as any).setTimeout = (callback: any, delay?: number, ...args: any[]) => {
-  const wrappedCallback = () => {
-    try {
-      callback(...args);
-    } finally {
-      pendingTimers.delete(id);
-      originalConsoleLog('[WORKER] Timer completed, pending:', pendingTimers.size);
-    }
-  };
-  const id = originalSetTimeout(wrappedCallback, delay || 0);
-  pendingTimers.add(id);
-  originalConsoleLog('[WORKER] Timer added, pending:', pendingTimers.size);
-  return id;
+// Track async work, so a run ends once everything it started has finished
+let onAsyncSettle = () => {};
+const asyncTracker = installAsyncTracker({
+  onError: (error) => reportError(error),
+  onSettle: () => onAsyncSettle(),
+});
+
+// Errors that escape user code anywhere else, e.g. in promise callbacks
+self.addEventListener('unhandledrejection', (event) => {
+  event.preventDefault();
+  reportError(event.reason, { inPromise: true });
+});
+
+self.addEventListener('error', (event) => {
+  event.preventDefault();
+  reportError(event.error ?? event.message);
+});
+
+const EMPTY_BUNDLE: ModuleBundle = { modules: {}, entries: {}, packages: [] };
+let modules = createModuleLoader(EMPTY_BUNDLE);
+
+// Direct eval in the last run's top level. Before the run defines the hook,
+// e.g. when its code had a syntax error, input sees only globals.
+const evaluateInScope = (code: string) => {
+  const scope = (self as any)[SCOPE_HOOK];
+  return scope ? scope(code) : (0, eval)(code);
 };
 
-(self as any).setInterval = (callback: any, delay?: number, ...args: any[]) => {
-  const id = originalSetInterval(callback, delay || 0, ...args);
-  pendingTimers.add(id);
-  originalConsoleLog('[WORKER] Interval added, pending:', pendingTimers.size);
-  return id;
+const evaluate = async (message: EvaluateMessage) => {
+  if (message.bundle) modules.addBundle(message.bundle);
+  try {
+    let value = evaluateInScope(message.code);
+    if (message.isAsync) value = await value;
+    const args = [serializeValue(value)];
+    queueLog({ type: 'result', content: formatValue(args[0]), args }, false);
+  } catch (error) {
+    // Input isn't in the editor, so there are no lines to point at
+    queueLog(createErrorMessage(error, () => null), false);
+  }
+  flushLogs();
+  post({ type: 'evaluated', id: message.id });
 };
 
-(self as any).clearTimeout = (id: number) => {
-  originalClearTimeout(id);
-  pendingTimers.delete(id);
-  originalConsoleLog('[WORKER] Timer cleared, pending:', pendingTimers.size);
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+const PROPERTY_PATH = /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/;
+
+// Follows a property without reading it, so getters don't run. Accessors
+// give undefined.
+const getPropertyValue = (object: unknown, name: string): unknown => {
+  for (let current = Object(object); current; current = Object.getPrototypeOf(current)) {
+    const descriptor = Object.getOwnPropertyDescriptor(current, name);
+    if (descriptor) return 'value' in descriptor ? descriptor.value : undefined;
+  }
+  return undefined;
 };
 
-(self as any).clearInterval = (id: number) => {
-  originalClearInterval(id);
-  pendingTimers.delete(id);
-  originalConsoleLog('[WORKER] Interval cleared, pending:', pendingTimers.size);
+const getCompletions = (target: string): string[] => {
+  let object: unknown = self;
+  if (target) {
+    // Plain property paths only, so completing can't call user functions
+    if (!PROPERTY_PATH.test(target)) return [];
+    const [name, ...properties] = target.split('.');
+    // Getters user code put on the global object would run when read
+    if (Object.getOwnPropertyDescriptor(self, name)?.get) return [];
+    try {
+      object = evaluateInScope(name);
+    } catch {
+      return [];
+    }
+    for (const property of properties) {
+      if (object === null || object === undefined) return [];
+      object = getPropertyValue(object, property);
+    }
+    if (object === null || object === undefined) return [];
+  }
+
+  const names = new Set<string>();
+  for (let current = Object(object); current; current = Object.getPrototypeOf(current)) {
+    for (const name of Object.getOwnPropertyNames(current)) {
+      if (IDENTIFIER.test(name) && !name.startsWith('__jspad')) names.add(name);
+    }
+  }
+  return [...names].sort();
 };
 
 originalConsoleLog('[WORKER] Code executor worker loaded');
@@ -152,73 +299,117 @@ self.addEventListener('message', (event: MessageEvent<WorkerMessage>) => {
 
   if (message.type === 'terminate') {
     originalConsoleLog('[WORKER] Terminating');
-    self.close();
+    close();
+    return;
+  }
+
+  if (message.type === 'evaluate') {
+    evaluate(message);
+    return;
+  }
+
+  if (message.type === 'getCompletions') {
+    post({ type: 'completions', id: message.id, names: getCompletions(message.target) });
     return;
   }
 
   if (message.type === 'execute') {
-    logs = [];
-    pendingTimers.clear();
+    logCount = 0;
+    maxLogs = message.maxLogs;
+    pendingLogs = [];
+    consoleRuntime.reset();
+    asyncTracker.cancelAll();
+    mapPosition = createPositionMapper(message.code, message.sourceMap);
+
+    // Instrumented imports and require() load from the run's bundle
+    modules = createModuleLoader(message.bundle ?? EMPTY_BUNDLE);
+    (self as any).require = modules.require;
+    (self as any)[IMPORT_HOOK] = modules.importModule;
+    (self as any)[DYNAMIC_IMPORT_HOOK] = (specifier: string) =>
+      Promise.resolve().then(() => modules.importModule(specifier));
     originalConsoleLog('[WORKER] Executing code...');
 
-    const sendResults = () => {
-      originalConsoleLog('[WORKER] Sending results, logs:', logs.length);
-      self.postMessage({
-        type: 'complete',
-        logs: logs
-      });
+    let isTopLevelDone = false;
+    let isFinished = false;
+
+    const sendResults = ({ timedOut = false, killed = false } = {}) => {
+      if (isFinished) return;
+      isFinished = true;
+      onAsyncSettle = () => {};
+      originalClearTimeout(safetyTimeout);
+      originalConsoleLog('[WORKER] Run complete, logs:', logCount);
+      flushLogs();
+      post({ type: 'complete', timedOut, killed });
     };
 
+    // Each run gets a fresh worker, so the policy holds for the whole session
+    applySandboxPolicy(message.policy);
+    // Loops run from the REPL after the run are guarded too; they're
+    // unwound but there's no run left to end
+    const limits = enforceLimits({
+      cpuLimit: message.policy.cpuLimit,
+      onKill: (reason, line) => {
+        pushLog({ type: 'error', thrown: true, content: `${KILLED_PREFIX} ${reason}`, line });
+        if (isFinished) return;
+        asyncTracker.cancelAll();
+        sendResults({ killed: true });
+      },
+    });
+    (self as any)[LOOP_GUARD_HOOK] = limits.loopGuard;
+
+    // Idle once the top level has returned and no tracked work is left. The
+    // check waits a moment so rejection events for the last promises arrive.
+    const checkIdle = () => {
+      if (!isTopLevelDone || asyncTracker.pendingCount > 0) return;
+      originalSetTimeout(() => {
+        if (isFinished || asyncTracker.pendingCount > 0) return;
+        const { unsettledPromises } = asyncTracker;
+        if (unsettledPromises > 0) {
+          queueLog({
+            type: 'warn',
+            content: unsettledPromises === 1
+              ? '⚠️ 1 promise never settled.'
+              : `⚠️ ${unsettledPromises} promises never settled.`,
+          });
+        }
+        sendResults();
+      }, IDLE_CHECK_DELAY);
+    };
+    onAsyncSettle = checkIdle;
+
     // Safety timeout
     const safetyTimeout = originalSetTimeout(() => {
       originalConsoleLog('[WORKER] Safety timeout reached');
-      pendingTimers.forEach(id => {
-        originalClearTimeout(id);
-        originalClearInterval(id);
+      const pending = asyncTracker.describePending();
+      queueLog({
+        type: 'warn',
+        content: `⏱ Execution timed out after ${message.timeout / 1000}s`
+          + (pending ? ` with ${pending} still pending.` : '.'),
       });
-      pendingTimers.clear();
-      sendResults();
+      asyncTracker.cancelAll();
+      sendResults({ timedOut: true });
     }, message.timeout);
 
     const executeAsync = async () => {
       try {
-        // Execute code as async function to support await and fetch
-        const fn = new Function(`return (async () => { ${message.code} })();`);
-        await fn();
-
-        originalConsoleLog('[WORKER] Code executed, pending timers:', pendingTimers.size);
-
-        // Wait a bit for any remaining async operations
-        await new Promise(resolve => originalSetTimeout(resolve, 100));
-
-        if (pendingTimers.size === 0) {
-          // No async operations, send immediately
-          originalClearTimeout(safetyTimeout);
-          sendResults();
-        } else {
-          // Wait for timers to complete
-          const checkInterval = originalSetInterval(() => {
-            originalConsoleLog('[WORKER] Checking timers, pending:', pendingTimers.size);
-            if (pendingTimers.size === 0) {
-              originalClearInterval(checkInterval);
-              originalClearTimeout(safetyTimeout);
-              sendResults();
-            }
-          }, 50);
-        }
-      } catch (error: any) {
+        // Execute code as async function to support await and fetch.
+        // Indirect eval runs it in global scope like `new Function` would,
+        // but keeps line numbers in stack traces exact.
+        await (0, eval)(wrapUserCode(message.code));
+        originalConsoleLog('[WORKER] Code executed, pending tasks:', asyncTracker.pendingCount);
+      } catch (error) {
         originalConsoleError('[WORKER] Execution error:', error);
-        originalClearTimeout(safetyTimeout);
-        logs.push({
-          type: 'error',
-          content: error.message || String(error),
+        reportError(error, {
+          fallbackLine: error instanceof SyntaxError ? message.syntaxErrorLine : undefined,
         });
-        sendResults();
       }
+
+      // Like a browser, an uncaught error doesn't stop timers that were
+      // already scheduled
+      isTopLevelDone = true;
+      checkIdle();
     };
 
     executeAsync();
   }
 });
-
-export {};
@@ -0,0 +1,187 @@
+import { serializeValue } from './serialize';
+import { formatValue } from '../utils/formatValue';
+import type { ConsoleMessage, ConsoleTable } from '../types';
+
+// The `Value` column holds rows that aren't objects, like console.table does
+const VALUE_COLUMN = 'Value';
+
+interface ConsoleRuntimeOptions {
+  push: (message: ConsoleMessage) => boolean;
+  clear: () => void;
+}
+
+const createMessage = (
+  type: ConsoleMessage['type'],
+  values: any[],
+  line?: number
+): ConsoleMessage => {
+  const args = values.map(serializeValue);
+  return {
+    type,
+    content: args.map(arg => formatValue(arg)).join(' '),
+    args,
+    line,
+  };
+};
+
+const isThenable = (value: any) =>
+  value && typeof value === 'object' && typeof value.then === 'function';
+
+const buildTable = (data: object, columnFilter?: string[]): ConsoleTable => {
+  const columns: string[] = [];
+  const addColumn = (column: string) => {
+    if (!columns.includes(column)) columns.push(column);
+  };
+
+  const entries = data instanceof Map ? [...data.entries()] : Object.entries(data);
+  const rows = entries.map(([key, value]) => {
+    const cells: ConsoleTable['rows'][number]['cells'] = {};
+
+    if (value !== null && typeof value === 'object') {
+      for (const [column, cell] of Object.entries(value)) {
+        if (columnFilter && !columnFilter.includes(column)) continue;
+        addColumn(column);
+        cells[column] = serializeValue(cell);
+      }
+    } else {
+      addColumn(VALUE_COLUMN);
+      cells[VALUE_COLUMN] = serializeValue(value);
+    }
+
+    return { key: String(key), cells };
+  });
+
+  // Keep the caller's column order when they asked for specific columns
+  return { columns: columnFilter ? columnFilter.filter(c => columns.includes(c)) : columns, rows };
+};
+
+// Drop the frames of the worker itself. User code runs through `new Function`,
+// so its frames are the ones marked as eval'd or anonymous.
+const isWorkerFrame = (frame: string) =>
+  /code-executor\.worker|workers\/console/.test(frame) && !/eval|<anonymous>/.test(frame);
+
+const getUserStack = () =>
+  (new Error().stack ?? '')
+    .split('\n')
+    .filter(frame => /^\s*at |@/.test(frame) && !isWorkerFrame(frame))
+    .map(frame => frame.trim())
+    .join('\n');
+
+const formatDuration = (ms: number) => `${ms.toFixed(2)} ms`;
+
+/**
+ * The console API user code sees. Methods can be bound to a source line so
+ * instrumented calls report where they came from; counters and timers are
+ * shared between all of them and cleared with `reset` before every run.
+ */
+export function createConsoleRuntime({ push, clear }: ConsoleRuntimeOptions) {
+  const counts = new Map<string, number>();
+  const timers = new Map<string, number>();
+
+  const reset = () => {
+    counts.clear();
+    timers.clear();
+  };
+
+  const createMethods = (line?: number) => {
+    const emit = (type: ConsoleMessage['type'], values: any[], extra?: Partial<ConsoleMessage>) =>
+      push({ ...createMessage(type, values, line), ...extra });
+
+    const reportTime = (label: string, values: any[], remove: boolean) => {
+      const start = timers.get(label);
+      if (start === undefined) {
+        emit('warn', [`Timer '${label}' does not exist`]);
+        return;
+      }
+      if (remove) timers.delete(label);
+      emit('time', [`${label}: ${formatDuration(performance.now() - start)}`, ...values]);
+    };
+
+    const methods = {
+      log: (...args: any[]) => {
+        if (emit('log', args)) {
+          // Log the outcome of promises once they settle
+          args.filter(isThenable).forEach(promise => {
+            promise.then(
+              (resolved: any) => methods.log('Promise resolved:', resolved),
+              (error: any) => methods.error('Promise rejected:', error)
+            );
+          });
+        }
+      },
+      info: (...args: any[]) => {
+        emit('info', args);
+      },
+      debug: (...args: any[]) => {
+        emit('debug', args);
+      },
+      warn: (...args: any[]) => {
+        emit('warn', args);
+      },
+      error: (...args: any[]) => {
+        emit('error', args);
+      },
+      dir: (value?: any) => {
+        emit('dir', [value]);
+      },
+      dirxml: (...args: any[]) => {
+        emit('log', args);
+      },
+      table: (data?: any, columns?: string[]) => {
+        if (data === null || typeof data !== 'object') {
+          emit('log', [data]);
+          return;
+        }
+        emit('table', [data], { table: buildTable(data, columns) });
+      },
+      group: (...label: any[]) => {
+        emit('group', label.length > 0 ? label : ['console.group']);
+      },
+      groupCollapsed: (...label: any[]) => {
+        emit('group', label.length > 0 ? label : ['console.group'], { collapsed: true });
+      },
+      groupEnd: () => {
+        push({ type: 'groupEnd', content: '', line });
+      },
+      time: (label = 'default') => {
+        if (timers.has(label)) {
+          emit('warn', [`Timer '${label}' already exists`]);
+          return;
+        }
+        timers.set(label, performance.now());
+      },
+      timeLog: (label = 'default', ...args: any[]) => {
+        reportTime(label, args, false);
+      },
+      timeEnd: (label = 'default') => {
+        reportTime(label, [], true);
+      },
+      count: (label = 'default') => {
+        const count = (counts.get(label) ?? 0) + 1;
+        counts.set(label, count);
+        emit('log', [`${label}: ${count}`]);
+      },
+      countReset: (label = 'default') => {
+        if (!counts.has(label)) {
+          emit('warn', [`Count for '${label}' does not exist`]);
+          return;
+        }
+        counts.set(label, 0);
+      },
+      assert: (condition?: any, ...args: any[]) => {
+        if (!condition) {
+          emit('error', args.length > 0 ? ['Assertion failed:', ...args] : ['Assertion failed']);
+        }
+      },
+      trace: (...args: any[]) => {
+        emit('trace', args.length > 0 ? args : ['console.trace'], { stack: getUserStack() });
+      },
+      clear: () => {
+        clear();
+      },
+    };
+    return methods;
+  };
+
+  return { createMethods, reset };
+}
@@ -0,0 +1,109 @@
+import { TraceMap, originalPositionFor } from '@jridgewell/trace-mapping';
+import { formatValue } from '../utils/formatValue';
+import { serializeValue } from './serialize';
+import { SCOPE_HOOK } from '../utils/runtimeHooks';
+import type { ConsoleMessage } from '../types';
+
+// Name user code is evaluated under, so its frames can be told apart from
+// the worker's own in stack traces
+export const USER_CODE_URL = 'jspad-user-code.js';
+// Defines the scope hook before anything else, so it exists even if the code
+// throws. Its direct eval sees the top-level bindings of the code.
+const USER_CODE_PREFIX = `(async () => { globalThis.${SCOPE_HOOK} = (__jspadInput) => eval(__jspadInput); `;
+
+interface StackFrame {
+  functionName?: string;
+  line: number;
+  column: number;
+}
+
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/** Wraps user code so top-level await works and frames are attributed to it. */
+export function wrapUserCode(code: string): string {
+  return `${USER_CODE_PREFIX}${code}\n})()\n//# sourceURL=${USER_CODE_URL}`;
+}
+
+/**
+ * Maps positions in the evaluated code back to the tab's source: undoes the
+ * wrapper's offset on the first line, then follows the transpiler's source
+ * map when there is one. Positions in the wrapper itself map to null.
+ */
+export function createPositionMapper(code = '', sourceMap?: string) {
+  const traceMap = sourceMap ? new TraceMap(sourceMap) : null;
+  const lineCount = code.split('\n').length;
+
+  return ({ line, column }: SourcePosition): SourcePosition | null => {
+    if (line > lineCount) return null;
+
+    const unwrapped = {
+      line,
+      column: line === 1 ? Math.max(1, column - USER_CODE_PREFIX.length) : column,
+    };
+    if (!traceMap) return unwrapped;
+
+    const original = originalPositionFor(traceMap, {
+      line: unwrapped.line,
+      column: unwrapped.column - 1,
+    });
+    return original.line === null
+      ? unwrapped
+      : { line: original.line, column: original.column + 1 };
+  };
+}
+
+// Handles both V8 (`at fn (url:1:2)`) and JavaScriptCore/SpiderMonkey
+// (`fn@url:1:2`) stack formats
+const parseUserFrames = (stack: string): StackFrame[] =>
+  stack.split('\n').flatMap((frame) => {
+    const location = frame.match(new RegExp(`${USER_CODE_URL.replace('.', '\\.')}:(\\d+):(\\d+)`));
+    if (!location) return [];
+
+    const name = frame.match(/^\s*at (?:async )?([^\s(]+) \(/)?.[1] ?? frame.match(/^([^@\s]+)@/)?.[1];
+    return [{
+      functionName: name && name !== 'eval' ? name : undefined,
+      line: Number(location[1]),
+      column: Number(location[2]),
+    }];
+  });
+
+/**
+ * Builds the console message for an uncaught error, with its stack trace
+ * reduced to frames in user code and mapped back to source lines.
+ */
+export function createErrorMessage(
+  error: unknown,
+  mapPosition: (position: SourcePosition) => SourcePosition | null,
+  { inPromise = false, fallbackLine }: { inPromise?: boolean; fallbackLine?: number } = {}
+): ConsoleMessage {
+  const prefix = inPromise ? 'Uncaught (in promise)' : 'Uncaught';
+
+  if (!(error instanceof Error)) {
+    return {
+      type: 'error',
+      thrown: true,
+      content: `${prefix} ${formatValue(serializeValue(error), { nested: true })}`,
+      line: fallbackLine,
+    };
+  }
+
+  const frames = parseUserFrames(error.stack ?? '').flatMap((frame) => {
+    const position = mapPosition(frame);
+    return position ? [{ ...frame, ...position }] : [];
+  });
+  const origin = frames[0];
+
+  return {
+    type: 'error',
+    thrown: true,
+    content: `${prefix} ${error.name}: ${error.message}`,
+    line: origin?.line ?? fallbackLine,
+    // Columns are shifted by instrumentation, so only lines are reported
+    stack: frames
+      .map((frame) => `at ${frame.functionName ?? '<anonymous>'} (line ${frame.line})`)
+      .join('\n') || undefined,
+  };
+}
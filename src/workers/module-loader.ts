@@ -0,0 +1,79 @@
+import type { ModuleBundle } from '../types';
+
+interface LoadedModule {
+  exports: any;
+}
+
+// What an `import` of a CommonJS module sees: its exports as named bindings,
+// and the whole exports object as the default export
+const toNamespace = (exports: any) => {
+  if (exports?.__esModule) return exports;
+  if ((typeof exports === 'object' && exports !== null) || typeof exports === 'function') {
+    return { ...exports, default: exports };
+  }
+  return { default: exports };
+};
+
+/**
+ * CommonJS runtime for the modules of a bundle. Each module is evaluated the
+ * first time it's required, with a source URL naming its package file.
+ */
+export function createModuleLoader(initialBundle: ModuleBundle) {
+  let bundle = initialBundle;
+  const loaded = new Map<string, LoadedModule>();
+
+  const load = (path: string): LoadedModule => {
+    const cached = loaded.get(path);
+    if (cached) return cached;
+
+    const { code, deps } = bundle.modules[path];
+    const module: LoadedModule = { exports: {} };
+    loaded.set(path, module);
+
+    const require = (request: string) => {
+      const dependency = deps[request];
+      if (dependency === null) {
+        throw new Error(`Cannot use "${request}": Node.js built-in modules aren't available`);
+      }
+      if (dependency === undefined) {
+        throw new Error(`Cannot find module "${request}" from ${path}`);
+      }
+      return load(dependency).exports;
+    };
+
+    const dirname = path.slice(0, path.lastIndexOf('/'));
+    try {
+      const factory = (0, eval)(
+        `(function (exports, require, module, __filename, __dirname) {${code}\n})\n//# sourceURL=${path}`
+      );
+      factory.call(module.exports, module.exports, require, module, path, dirname);
+    } catch (error) {
+      // Like Node, a module that failed to load is tried again next time
+      loaded.delete(path);
+      throw error;
+    }
+    return module;
+  };
+
+  const require = (specifier: string) => {
+    const path = bundle.entries[specifier];
+    if (path === undefined) {
+      throw new Error(`Cannot find module "${specifier}"`);
+    }
+    return load(path).exports;
+  };
+
+  return {
+    require,
+    importModule: (specifier: string) => toNamespace(require(specifier)),
+    // Adds modules, e.g. for packages a REPL input imports. Modules that
+    // are already loaded keep their instances.
+    addBundle: (more: ModuleBundle) => {
+      bundle = {
+        modules: { ...bundle.modules, ...more.modules },
+        entries: { ...bundle.entries, ...more.entries },
+        packages: [...bundle.packages, ...more.packages],
+      };
+    },
+  };
+}
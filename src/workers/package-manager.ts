@@ -0,0 +1,474 @@
+import semver from 'semver';
+import ts from 'typescript';
+import { extractTarball } from './tarball';
+import type { BundledModule, ModuleBundle } from '../types';
+
+/**
+ * Where packages come from besides the cache and the npm registry: a folder of
+ * pre-fetched tarballs (`npm pack` output) provided by the desktop app.
+ */
+export interface LocalPackageSource {
+  list(): Promise<string[]>;
+  read(fileName: string): Promise<ArrayBuffer>;
+}
+
+// Where an install may look after the cache: local tarballs, and the npm
+// registry unless the run has no network access
+interface PackageSources {
+  local?: LocalPackageSource;
+  allowNetwork: boolean;
+}
+
+interface InstalledPackage {
+  id: string; // name@version
+  name: string;
+  version: string;
+  files: Record<string, string>; // package-relative path -> source
+}
+
+interface PackageManifest {
+  name: string;
+  version: string;
+  type?: string;
+  main?: string;
+  module?: string;
+  browser?: string | Record<string, string | false>;
+  exports?: unknown;
+  dependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}
+
+const REGISTRY_URL = 'https://registry.npmjs.org';
+const DB_NAME = 'jspad-packages';
+const STORE_NAME = 'packages';
+
+// Export conditions, in order of preference. Everything runs in a worker, so
+// browser builds win, and ES modules are converted to CommonJS when needed.
+const CONDITIONS = ['browser', 'require', 'import', 'default'];
+
+// Files kept from a package. Paths without an extension try them in this order.
+const EXTENSIONS = ['.js', '.cjs', '.mjs', '.json'];
+
+const NODE_BUILTINS = new Set([
+  'assert', 'buffer', 'child_process', 'cluster', 'crypto', 'dgram', 'dns', 'events',
+  'fs', 'http', 'http2', 'https', 'module', 'net', 'os', 'path', 'perf_hooks', 'process',
+  'querystring', 'readline', 'stream', 'string_decoder', 'timers', 'tls', 'tty', 'url',
+  'util', 'v8', 'vm', 'worker_threads', 'zlib',
+]);
+
+// Stands in for files a package's `browser` field maps to false
+const EMPTY_MODULE_PATH = '/node_modules/.empty.js';
+
+const isBuiltin = (specifier: string) =>
+  specifier.startsWith('node:') || NODE_BUILTINS.has(specifier.split('/')[0]);
+
+let database: Promise<IDBDatabase> | undefined;
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const open = indexedDB.open(DB_NAME, 1);
+    open.onupgradeneeded = () => open.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+  });
+  return database;
+}
+
+async function getStore(mode: IDBTransactionMode = 'readonly') {
+  const db = await openDatabase();
+  return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+}
+
+async function getCachedVersions(name: string): Promise<string[]> {
+  const store = await getStore();
+  const keys = await request(store.getAllKeys(IDBKeyRange.bound(`${name}@`, `${name}@\uffff`)));
+  return keys.map((key) => String(key).slice(name.length + 1));
+}
+
+async function getCachedPackage(id: string): Promise<InstalledPackage> {
+  const store = await getStore();
+  return request(store.get(id));
+}
+
+async function cachePackage(pkg: InstalledPackage) {
+  const store = await getStore('readwrite');
+  await request(store.put(pkg));
+}
+
+const pickVersion = (versions: string[], range: string) =>
+  range === 'latest' ? semver.rsort([...versions])[0] : semver.maxSatisfying(versions, range);
+
+const isPackageFile = (path: string) =>
+  EXTENSIONS.some((extension) => path.endsWith(extension));
+
+async function unpack(tarball: ArrayBuffer): Promise<InstalledPackage> {
+  const decoder = new TextDecoder();
+  const files: Record<string, string> = {};
+  for (const [path, content] of await extractTarball(tarball, isPackageFile)) {
+    files[path] = decoder.decode(content);
+  }
+  if (!files['package.json']) {
+    throw new Error('Not an npm package: the tarball has no package.json');
+  }
+
+  const { name, version } = JSON.parse(files['package.json']) as PackageManifest;
+  return { id: `${name}@${version}`, name, version, files };
+}
+
+// `npm pack` names tarballs like `lodash-4.17.21.tgz` or `scope-pkg-1.0.0.tgz`
+async function readLocalTarball(
+  name: string,
+  range: string,
+  local: LocalPackageSource
+): Promise<ArrayBuffer | null> {
+  const prefix = `${name.replace(/^@/, '').replace('/', '-')}-`;
+  const versions = new Map<string, string>();
+  for (const fileName of await local.list()) {
+    const version = fileName.startsWith(prefix) && fileName.endsWith('.tgz')
+      ? fileName.slice(prefix.length, -'.tgz'.length)
+      : null;
+    if (version && semver.valid(version)) versions.set(version, fileName);
+  }
+
+  const version = pickVersion([...versions.keys()], range);
+  return version ? local.read(versions.get(version)!) : null;
+}
+
+async function fetchTarball(name: string, range: string): Promise<ArrayBuffer> {
+  let response: Response;
+  try {
+    response = await fetch(`${REGISTRY_URL}/${name.replace('/', '%2F')}`, {
+      headers: { Accept: 'application/vnd.npm.install-v1+json' },
+    });
+  } catch {
+    throw new Error(`Package "${name}" isn't cached and the npm registry can't be reached`);
+  }
+  if (response.status === 404) {
+    throw new Error(`Package "${name}" was not found on npm`);
+  }
+  if (!response.ok) {
+    throw new Error(`Couldn't fetch "${name}" from npm (HTTP ${response.status})`);
+  }
+
+  const packument = await response.json();
+  const version = range === 'latest'
+    ? packument['dist-tags']?.latest
+    : semver.maxSatisfying(Object.keys(packument.versions), range);
+  if (!version) {
+    throw new Error(`No version of "${name}" matches "${range}"`);
+  }
+
+  const tarball = await fetch(packument.versions[version].dist.tarball);
+  if (!tarball.ok) {
+    throw new Error(`Couldn't download ${name}@${version} (HTTP ${tarball.status})`);
+  }
+  return tarball.arrayBuffer();
+}
+
+async function installPackage(
+  name: string,
+  range: string,
+  { local, allowNetwork }: PackageSources
+): Promise<InstalledPackage> {
+  // The cache wins, then local tarballs, so nothing needs the network once
+  // a package has been used
+  const cachedVersion = pickVersion(await getCachedVersions(name), range);
+  if (cachedVersion) {
+    return getCachedPackage(`${name}@${cachedVersion}`);
+  }
+
+  const localTarball = local && await readLocalTarball(name, range, local);
+  if (!localTarball && !allowNetwork) {
+    throw new Error(`Package "${name}" isn't cached and network access is off`);
+  }
+  const tarball = localTarball ?? await fetchTarball(name, range);
+  const pkg = await unpack(tarball);
+  await cachePackage(pkg);
+  return pkg;
+}
+
+// Installs are shared between runs, so each package is looked up only once a session
+const installs = new Map<string, Promise<InstalledPackage>>();
+
+function install(name: string, range: string, sources: PackageSources) {
+  // Tags, URLs and aliases can't be resolved offline; use the newest version
+  const normalizedRange = semver.validRange(range) ? range : 'latest';
+  const key = `${name}@${normalizedRange}`;
+
+  let pending = installs.get(key);
+  if (!pending) {
+    pending = installPackage(name, normalizedRange, sources);
+    // Let a failed install be retried, e.g. once back online
+    pending.catch(() => installs.delete(key));
+    installs.set(key, pending);
+  }
+  return pending;
+}
+
+function normalizePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (part === '..') {
+      parts.pop();
+    } else if (part && part !== '.') {
+      parts.push(part);
+    }
+  }
+  return parts.join('/');
+}
+
+const dirname = (path: string) => path.slice(0, Math.max(path.lastIndexOf('/'), 0));
+
+function parseSpecifier(specifier: string) {
+  const parts = specifier.split('/');
+  const nameLength = specifier.startsWith('@') ? 2 : 1;
+  return {
+    name: parts.slice(0, nameLength).join('/'),
+    subpath: parts.length > nameLength ? `./${parts.slice(nameLength).join('/')}` : '.',
+  };
+}
+
+const readManifest = (pkg: InstalledPackage): PackageManifest =>
+  JSON.parse(pkg.files['package.json']);
+
+function resolveConditions(target: unknown): string | undefined {
+  if (typeof target === 'string') return target;
+  if (Array.isArray(target)) {
+    for (const item of target) {
+      const resolved = resolveConditions(item);
+      if (resolved) return resolved;
+    }
+  } else if (target && typeof target === 'object') {
+    for (const condition of CONDITIONS) {
+      if (condition in target) {
+        const resolved = resolveConditions((target as Record<string, unknown>)[condition]);
+        if (resolved) return resolved;
+      }
+    }
+  }
+  return undefined;
+}
+
+// Resolves a subpath (`.` or `./x`) through a package.json `exports` field
+function resolveExports(exports: unknown, subpath: string): string | undefined {
+  const isSubpathMap = !!exports && typeof exports === 'object' && !Array.isArray(exports) &&
+    Object.keys(exports).some((key) => key.startsWith('.'));
+  if (!isSubpathMap) {
+    return subpath === '.' ? resolveConditions(exports) : undefined;
+  }
+
+  const subpaths = exports as Record<string, unknown>;
+  if (subpath in subpaths) return resolveConditions(subpaths[subpath]);
+
+  for (const [key, target] of Object.entries(subpaths)) {
+    const [prefix, suffix, ...rest] = key.split('*');
+    if (suffix === undefined || rest.length > 0) continue;
+    if (
+      subpath.length >= prefix.length + suffix.length &&
+      subpath.startsWith(prefix) &&
+      subpath.endsWith(suffix)
+    ) {
+      const match = subpath.slice(prefix.length, subpath.length - suffix.length);
+      return resolveConditions(target)?.split('*').join(match);
+    }
+  }
+  return undefined;
+}
+
+// A file in the package for a path that may leave out the extension or
+// point to a directory
+function resolveFile(pkg: InstalledPackage, path: string): string | undefined {
+  const file = normalizePath(path);
+  const candidates = [file, ...EXTENSIONS.map((extension) => file + extension)];
+  const found = candidates.find((candidate) => candidate in pkg.files);
+  if (found) return found;
+
+  const directoryManifest = pkg.files[`${file}/package.json`];
+  if (directoryManifest) {
+    const { main } = JSON.parse(directoryManifest) as PackageManifest;
+    const resolved = main && resolveFile(pkg, `${file}/${main}`);
+    if (resolved) return resolved;
+  }
+  return EXTENSIONS.map((extension) => `${file}/index${extension}`)
+    .find((candidate) => candidate in pkg.files);
+}
+
+// Applies a package's `browser` field replacements to a resolved file
+function applyBrowserField(pkg: InstalledPackage, file: string): string | null {
+  const { browser } = readManifest(pkg);
+  if (!browser || typeof browser !== 'object') return file;
+
+  for (const [from, to] of Object.entries(browser)) {
+    if (resolveFile(pkg, from) !== file) continue;
+    return to === false ? null : resolveFile(pkg, to) ?? file;
+  }
+  return file;
+}
+
+function resolveEntry(pkg: InstalledPackage, subpath: string): string | undefined {
+  const manifest = readManifest(pkg);
+  if (manifest.exports !== undefined) {
+    const target = resolveExports(manifest.exports, subpath);
+    if (target) return resolveFile(pkg, target);
+  }
+  if (subpath !== '.') return resolveFile(pkg, subpath);
+
+  const main = typeof manifest.browser === 'string' ? manifest.browser : manifest.main;
+  return (main && resolveFile(pkg, main)) || resolveFile(pkg, manifest.module ?? 'index');
+}
+
+const modulePath = (pkg: InstalledPackage, file: string) => `/node_modules/${pkg.id}/${file}`;
+
+function isEsModule(pkg: InstalledPackage, file: string, code: string) {
+  if (file.endsWith('.mjs')) return true;
+  if (file.endsWith('.cjs')) return false;
+  return readManifest(pkg).type === 'module' || /^\s*(import\s*[\w{*'"]|export\s)/m.test(code);
+}
+
+function toCommonJs(code: string, fileName: string): string {
+  return ts.transpileModule(code, {
+    fileName,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+      allowJs: true,
+      esModuleInterop: true,
+    },
+  }).outputText;
+}
+
+const REQUIRE_PATTERN = /\brequire\s*\(\s*(['"])([^'"]+)\1\s*\)/g;
+
+interface ModuleLocation {
+  pkg: InstalledPackage;
+  file: string;
+}
+
+// Modules are immutable once built, since their path includes the package version
+const builtModules = new Map<string, BundledModule>();
+const moduleLocations = new Map<string, ModuleLocation>();
+
+// Module path for a file, after the package's `browser` field replacements
+function registerModule(pkg: InstalledPackage, file: string): string {
+  const resolved = applyBrowserField(pkg, file);
+  if (resolved === null) return EMPTY_MODULE_PATH;
+
+  const path = modulePath(pkg, resolved);
+  moduleLocations.set(path, { pkg, file: resolved });
+  return path;
+}
+
+async function resolveModule(
+  request: string,
+  from: ModuleLocation,
+  sources: PackageSources
+): Promise<string | null | undefined> {
+  let target: ModuleLocation | undefined;
+
+  if (request.startsWith('.') || request.startsWith('/')) {
+    const file = resolveFile(from.pkg, `${dirname(from.file)}/${request}`);
+    if (file) target = { pkg: from.pkg, file };
+  } else {
+    const { name, subpath } = parseSpecifier(request);
+    const manifest = readManifest(from.pkg);
+    const range = manifest.dependencies?.[name]
+      ?? manifest.peerDependencies?.[name]
+      ?? manifest.optionalDependencies?.[name];
+
+    // A declared dependency may be a browser polyfill of a Node built-in
+    if (range === undefined && isBuiltin(request)) return null;
+    try {
+      const pkg = await install(name, range ?? 'latest', sources);
+      const file = resolveEntry(pkg, subpath);
+      if (file) target = { pkg, file };
+    } catch {
+      // Often an optional or environment-specific require; it only fails if
+      // the code actually runs it
+    }
+  }
+  return target && registerModule(target.pkg, target.file);
+}
+
+async function buildModule(path: string, sources: PackageSources): Promise<BundledModule> {
+  if (path === EMPTY_MODULE_PATH) return { code: '', deps: {} };
+
+  const location = moduleLocations.get(path)!;
+  let code = location.pkg.files[location.file];
+  if (location.file.endsWith('.json')) {
+    return { code: `module.exports = ${code};`, deps: {} };
+  }
+  if (isEsModule(location.pkg, location.file, code)) {
+    code = toCommonJs(code, location.file);
+  }
+
+  const deps: Record<string, string | null> = {};
+  for (const [, , request] of code.matchAll(REQUIRE_PATTERN)) {
+    if (request in deps) continue;
+    const resolved = await resolveModule(request, location, sources);
+    if (resolved !== undefined) deps[request] = resolved;
+  }
+  return { code, deps };
+}
+
+/**
+ * Installs the packages behind a tab's imports and collects every module they
+ * load into a bundle the executor can run. Relative imports and Node
+ * built-ins can't be imported from a tab. Without `allowNetwork`, packages
+ * come only from the cache and local tarballs.
+ */
+export async function bundleImports(
+  specifiers: string[],
+  local?: LocalPackageSource,
+  allowNetwork = true
+): Promise<ModuleBundle> {
+  const sources: PackageSources = { local, allowNetwork };
+  const bundle: ModuleBundle = { modules: {}, entries: {}, packages: [] };
+
+  const addModule = async (path: string) => {
+    if (path in bundle.modules) return;
+
+    let module = builtModules.get(path);
+    if (!module) {
+      module = await buildModule(path, sources);
+      builtModules.set(path, module);
+    }
+    bundle.modules[path] = module;
+
+    for (const dependency of Object.values(module.deps)) {
+      if (dependency) await addModule(dependency);
+    }
+  };
+
+  for (const specifier of specifiers) {
+    if (specifier.startsWith('.') || specifier.startsWith('/')) {
+      throw new Error(`Cannot import "${specifier}": tabs can only import npm packages`);
+    }
+    if (isBuiltin(specifier)) {
+      throw new Error(`Cannot import "${specifier}": Node.js built-in modules aren't available`);
+    }
+
+    const { name, subpath } = parseSpecifier(specifier);
+    const pkg = await install(name, 'latest', sources);
+    const file = resolveEntry(pkg, subpath);
+    if (!file) {
+      throw new Error(`Cannot find "${specifier}" in ${pkg.id}`);
+    }
+
+    const path = registerModule(pkg, file);
+    await addModule(path);
+
+    bundle.entries[specifier] = path;
+    if (!bundle.packages.some((info) => info.name === pkg.name)) {
+      bundle.packages.push({ name: pkg.name, version: pkg.version });
+    }
+  }
+
+  return bundle;
+}
@@ -0,0 +1,95 @@
+import { HOST_GLOBALS, NETWORK_GLOBALS } from '../utils/sandbox';
+import { originalSetTimeout } from './async-tracker';
+import type { SandboxPolicy } from '../types';
+
+// How many loop iterations pass between checks of the clock
+const CHECK_EVERY = 100;
+
+/**
+ * Thrown by the loop guard to unwind code a limit killed. It isn't reported
+ * as an error; the kill message says what happened.
+ */
+export class ExecutionKilled extends Error {
+  constructor() {
+    super('Execution killed');
+    this.name = 'ExecutionKilled';
+  }
+}
+
+const blocked = (name: string, reason: string) =>
+  // A function expression, so `new WebSocket()` gets this error too
+  function () {
+    throw new Error(`${name} is blocked by the sandbox (${reason})`);
+  };
+
+/**
+ * Removes the worker APIs the policy doesn't allow. Functions are replaced
+ * with ones that throw, so code that uses them fails with a clear message;
+ * other values become undefined. The worker's own messaging is captured
+ * before this runs.
+ */
+export function applySandboxPolicy(policy: SandboxPolicy) {
+  const removals = HOST_GLOBALS
+    .filter(({ name }) => !policy.allowedGlobals.includes(name))
+    .map(({ name }) => ({ name, reason: 'not in the allowed globals' }));
+  if (!policy.allowNetwork) {
+    removals.push(...NETWORK_GLOBALS.map(name => ({ name, reason: 'network access is off' })));
+  }
+
+  for (const { name, reason } of removals) {
+    const original = (self as any)[name];
+    if (original === undefined) continue;
+    const value = typeof original === 'function' ? blocked(name, reason) : undefined;
+    // Shadow it on the prototypes too, so it can't be reached through them
+    for (let target: object | null = self; target; target = Object.getPrototypeOf(target)) {
+      if (Object.prototype.hasOwnProperty.call(target, name)) {
+        Object.defineProperty(target, name, { value, writable: true, configurable: true });
+      }
+    }
+    if (!Object.prototype.hasOwnProperty.call(self, name)) {
+      Object.defineProperty(self, name, { value, writable: true, configurable: true });
+    }
+  }
+}
+
+interface LimitOptions {
+  cpuLimit: number;
+  onKill: (reason: string, line?: number) => void;
+}
+
+/**
+ * Enforces the CPU limit. Returns the loop guard instrumented loops call.
+ * There's no memory limit: workers can't see their heap size.
+ */
+export function enforceLimits({ cpuLimit, onKill }: LimitOptions) {
+  let iterations = 0;
+  // When the current stretch of synchronous code started. It's reset by the
+  // next task, which can only run once the code yields.
+  let sliceStart: number | null = null;
+  let isKilled = false;
+
+  const kill = (reason: string, line?: number) => {
+    isKilled = true;
+    onKill(reason, line);
+    throw new ExecutionKilled();
+  };
+
+  const loopGuard = (line: number) => {
+    // Code that catches the kill can't keep looping in the same stretch
+    if (isKilled) throw new ExecutionKilled();
+    if (++iterations % CHECK_EVERY !== 0) return;
+
+    const now = performance.now();
+    if (sliceStart === null) {
+      sliceStart = now;
+      originalSetTimeout(() => {
+        sliceStart = null;
+        isKilled = false;
+      }, 0);
+    } else if (now - sliceStart > cpuLimit) {
+      kill(`the loop on line ${line} ran for over ${cpuLimit / 1000}s without yielding`, line);
+    }
+  };
+
+  return { loopGuard };
+}
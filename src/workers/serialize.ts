@@ -0,0 +1,154 @@
+import type { SerializedEntry, SerializedValue } from '../types';
+
+const MAX_DEPTH = 6;
+const MAX_ENTRIES = 100;
+const MAX_STRING_LENGTH = 10000;
+
+type Container = Extract<SerializedValue, { entries?: SerializedEntry[] }>;
+
+// Proxy traps and getters can throw on any of these reads, so a value that
+// does just gets the fallback
+function getClassName(value: object, fallback: string): string {
+  try {
+    const proto: { constructor?: { name?: unknown } } | null = Object.getPrototypeOf(value);
+    if (proto === null) return 'Object';
+    const name = proto.constructor?.name;
+    return typeof name === 'string' && name ? name : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function isInstance<T>(value: object, type: abstract new (...args: never[]) => T): value is T & object {
+  try {
+    return value instanceof type;
+  } catch {
+    return false;
+  }
+}
+
+function isThenable(value: object): boolean {
+  try {
+    return typeof (value as { then?: unknown }).then === 'function';
+  } catch {
+    return false;
+  }
+}
+
+function take<T>(iterable: Iterable<T>, count: number): T[] {
+  const items: T[] = [];
+  for (const item of iterable) {
+    if (items.length >= count) break;
+    items.push(item);
+  }
+  return items;
+}
+
+function keyToString(key: string | symbol): string {
+  return typeof key === 'symbol' ? `[${key.toString()}]` : key;
+}
+
+/**
+ * Converts any value into a JSON-safe tree the console can render, keeping
+ * type information that JSON.stringify would lose. Cycles become `circular`
+ * markers pointing at the id of the container they refer back to.
+ */
+export function serializeValue(value: unknown): SerializedValue {
+  let nextId = 1;
+  const ancestors = new Map<object, number>();
+
+  const visit = (value: unknown, depth: number): SerializedValue => {
+    switch (typeof value) {
+      case 'string':
+        return value.length > MAX_STRING_LENGTH
+          ? { type: 'string', value: value.slice(0, MAX_STRING_LENGTH), length: value.length }
+          : { type: 'string', value };
+      case 'number':
+        return { type: 'number', value: Object.is(value, -0) ? '-0' : String(value) };
+      case 'bigint':
+        return { type: 'bigint', value: value.toString() };
+      case 'boolean':
+        return { type: 'boolean', value };
+      case 'symbol':
+        return { type: 'symbol', value: value.toString() };
+      case 'undefined':
+        return { type: 'undefined' };
+      case 'function':
+        return {
+          type: 'function',
+          name: value.name,
+          isClass: /^class[\s{]/.test(Function.prototype.toString.call(value)),
+        };
+    }
+
+    if (value === null) return { type: 'null' };
+    const object = value as object;
+
+    if (ancestors.has(object)) {
+      return { type: 'circular', id: ancestors.get(object)! };
+    }
+    if (isInstance(object, Date)) {
+      return { type: 'date', value: isNaN(object.getTime()) ? 'Invalid Date' : object.toISOString() };
+    }
+    if (isInstance(object, RegExp)) {
+      return { type: 'regexp', value: object.toString() };
+    }
+    if (isInstance(object, Error)) {
+      return { type: 'error', name: object.name, message: object.message, stack: object.stack };
+    }
+    if (isThenable(object)) {
+      return { type: 'promise' };
+    }
+
+    const id = nextId++;
+    let container: Container;
+    // Only the first MAX_ENTRIES entries, evaluated once we know we need them
+    let entries: Array<() => SerializedEntry>;
+
+    if (isInstance(object, Map)) {
+      container = { type: 'map', id, className: getClassName(object, 'Map'), size: object.size };
+      entries = take(object, MAX_ENTRIES).map(([key, item]) => () => ({
+        key: visit(key, depth + 1),
+        value: visit(item, depth + 1),
+      }));
+    } else if (isInstance(object, Set)) {
+      container = { type: 'set', id, className: getClassName(object, 'Set'), size: object.size };
+      entries = take(object, MAX_ENTRIES).map(item => () => ({ value: visit(item, depth + 1) }));
+    } else if (Array.isArray(object) || (ArrayBuffer.isView(object) && !(object instanceof DataView))) {
+      const array = object as ArrayLike<unknown>;
+      container = { type: 'array', id, className: getClassName(object, 'Array'), size: array.length };
+      entries = Array.from({ length: Math.min(array.length, MAX_ENTRIES) }, (_, index) => () => ({
+        key: String(index),
+        value: visit(array[index], depth + 1),
+      }));
+    } else {
+      const keys = Reflect.ownKeys(object).filter(key =>
+        Object.getOwnPropertyDescriptor(object, key)?.enumerable
+      );
+      container = { type: 'object', id, className: getClassName(object, 'Object'), size: keys.length };
+      entries = keys.slice(0, MAX_ENTRIES).map(key => () => {
+        // Don't run getters, they may have side effects
+        const descriptor = Object.getOwnPropertyDescriptor(object, key)!;
+        return {
+          key: keyToString(key),
+          value: descriptor.get ? { type: 'getter' } : visit(descriptor.value, depth + 1),
+        };
+      });
+    }
+
+    if (depth >= MAX_DEPTH) {
+      return container;
+    }
+
+    ancestors.set(object, id);
+    container.entries = entries.map(entry => entry());
+    ancestors.delete(object);
+
+    if (container.size > entries.length) {
+      container.omitted = container.size - entries.length;
+    }
+    return container;
+  };
+
+  return visit(value, 0);
+}
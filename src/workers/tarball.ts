@@ -0,0 +1,72 @@
+const BLOCK_SIZE = 512;
+
+const decoder = new TextDecoder();
+
+const readString = (bytes: Uint8Array, offset: number, length: number) => {
+  const field = bytes.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+};
+
+const readOctal = (bytes: Uint8Array, offset: number, length: number) =>
+  parseInt(readString(bytes, offset, length).trim(), 8) || 0;
+
+// `path` from a pax extended header, which overrides the next entry's name
+const readPaxPath = (data: Uint8Array): string | undefined => {
+  for (const record of decoder.decode(data).split('\n')) {
+    const match = /^\d+ path=(.*)$/.exec(record);
+    if (match) return match[1];
+  }
+  return undefined;
+};
+
+async function gunzip(data: ArrayBuffer): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Extracts the files of an npm package tarball (.tgz) whose paths pass the
+ * filter. Paths are relative to the package root, without npm's `package/`
+ * prefix.
+ */
+export async function extractTarball(
+  data: ArrayBuffer,
+  filter: (path: string) => boolean
+): Promise<Map<string, Uint8Array>> {
+  const bytes = await gunzip(data);
+  const files = new Map<string, Uint8Array>();
+  let nextPath: string | undefined;
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= bytes.length) {
+    const name = readString(bytes, offset, 100);
+    if (!name) break; // end-of-archive marker
+
+    const size = readOctal(bytes, offset + 124, 12);
+    const typeFlag = String.fromCharCode(bytes[offset + 156]);
+    const prefix = readString(bytes, offset + 345, 155);
+    const dataStart = offset + BLOCK_SIZE;
+    const content = bytes.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (typeFlag === 'x') {
+      nextPath = readPaxPath(content);
+      continue;
+    }
+    if (typeFlag === 'L') {
+      nextPath = readString(content, 0, content.length);
+      continue;
+    }
+
+    const fullPath = nextPath ?? (prefix ? `${prefix}/${name}` : name);
+    nextPath = undefined;
+    if (typeFlag !== '0' && typeFlag !== '\0') continue;
+
+    // npm packs everything under one top-level directory, usually `package/`
+    const path = fullPath.slice(fullPath.indexOf('/') + 1);
+    if (filter(path)) files.set(path, content.slice());
+  }
+
+  return files;
+}
@@ -0,0 +1,110 @@
+import * as Comlink from 'comlink';
+import ts from 'typescript';
+import {
+  createSystem,
+  createVirtualTypeScriptEnvironment,
+  knownLibFilesForCompilerOptions,
+} from '@typescript/vfs';
+import { createWorker } from '@valtown/codemirror-ts/worker';
+import { bundleImports } from './package-manager';
+import type { Language } from '../types';
+
+export interface TranspileDiagnostic {
+  line: number;
+  message: string;
+}
+
+export interface TranspileResult {
+  code: string;
+  sourceMap?: string;
+  diagnostics: TranspileDiagnostic[];
+}
+
+const compilerOptions: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  lib: ['es2022', 'dom', 'dom.iterable'],
+  strict: true,
+  allowJs: true,
+  esModuleInterop: true,
+  skipLibCheck: true,
+  allowSyntheticDefaultImports: true,
+  jsx: ts.JsxEmit.React,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  // Every tab is its own file; treat each as a module so top-level
+  // declarations in different tabs don't clash
+  moduleDetection: ts.ModuleDetectionKind.Force,
+};
+
+// Lib files are bundled with the app instead of fetched from a CDN, so type
+// checking works offline
+const libFiles = import.meta.glob<string>('../../node_modules/typescript/lib/lib.*.d.ts', {
+  query: '?raw',
+  import: 'default',
+});
+
+async function loadLibFiles(): Promise<Map<string, string>> {
+  const fsMap = new Map<string, string>();
+  const loaders = new Map(
+    Object.entries(libFiles).map(([path, load]) => [path.split('/').pop()!, load])
+  );
+
+  await Promise.all(
+    knownLibFilesForCompilerOptions(compilerOptions, ts).map(async (fileName) => {
+      const load = loaders.get(fileName);
+      if (load) {
+        fsMap.set(`/${fileName}`, await load());
+      }
+    })
+  );
+  return fsMap;
+}
+
+// Declarations every tab can use. Imported packages are typed as `any`.
+const GLOBALS_FILE = '/jspad-globals.d.ts';
+const GLOBALS = `
+declare module '*';
+declare function require(id: string): any;
+`;
+
+const transpile = (code: string, language: Language): TranspileResult => {
+  const result = ts.transpileModule(code, {
+    fileName: `input.${language}`,
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.ESNext,
+      jsx: ts.JsxEmit.React,
+      sourceMap: true,
+    },
+  });
+
+  const diagnostics = (result.diagnostics ?? []).map((diagnostic) => ({
+    line: diagnostic.file && diagnostic.start !== undefined
+      ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start).line + 1
+      : 1,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+  }));
+
+  return {
+    // The executor attaches its own source URL, so drop the map reference
+    code: result.outputText.replace(/\n\/\/# sourceMappingURL=.*$/, ''),
+    sourceMap: result.sourceMapText,
+    diagnostics,
+  };
+};
+
+const worker = {
+  ...createWorker(async () => {
+    const fsMap = await loadLibFiles();
+    fsMap.set(GLOBALS_FILE, GLOBALS);
+    const system = createSystem(fsMap);
+    return createVirtualTypeScriptEnvironment(system, [GLOBALS_FILE], ts, compilerOptions);
+  }),
+  transpile,
+  bundleImports,
+};
+
+export type TypeScriptWorker = typeof worker;
+
+Comlink.expose(worker);
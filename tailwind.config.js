@@ -1,3 +1,7 @@
+// Colors from the active theme, set as "r g b" CSS variables by
+// src/utils/themes.ts so classes like bg-theme-bg/50 still work
+const themeColor = (name) => `rgb(var(--${name}) / <alpha-value>)`;
+
 /** @type {import('tailwindcss').Config} */
 export default {
   content: [
@@ -7,12 +11,39 @@ export default {
   theme: {
     extend: {
       colors: {
-        dark: {
-          bg: '#1e1e1e',
-          text: '#d4d4d4',
-          border: '#3e3e42',
-          hover: '#2a2d2e',
-        }
+        theme: {
+          bg: themeColor('theme-bg'),
+          text: themeColor('theme-text'),
+          border: themeColor('theme-border'),
+          hover: themeColor('theme-hover'),
+          accent: themeColor('theme-accent'),
+          success: themeColor('theme-success'),
+        },
+        // The shades used for secondary text, mixed from the theme's text
+        // and background colors
+        gray: {
+          300: themeColor('gray-300'),
+          400: themeColor('gray-400'),
+          500: themeColor('gray-500'),
+          600: themeColor('gray-600'),
+        },
+        console: {
+          error: themeColor('console-error'),
+          warn: themeColor('console-warn'),
+          info: themeColor('console-info'),
+          debug: themeColor('console-debug'),
+          time: themeColor('console-time'),
+        },
+        syntax: {
+          keyword: themeColor('syntax-keyword'),
+          control: themeColor('syntax-control'),
+          variable: themeColor('syntax-variable'),
+          property: themeColor('syntax-property'),
+          function: themeColor('syntax-function'),
+          string: themeColor('syntax-string'),
+          number: themeColor('syntax-number'),
+          regexp: themeColor('syntax-regexp'),
+        },
       }
     },
   },